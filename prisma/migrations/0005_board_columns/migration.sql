@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "BoardColumn" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#71717a',
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BoardColumn_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BoardColumn_projectId_position_idx" ON "BoardColumn"("projectId", "position");
+
+-- AddForeignKey
+ALTER TABLE "BoardColumn" ADD CONSTRAINT "BoardColumn_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the former TODO/DOING/DONE statuses as columns of every existing project
+INSERT INTO "BoardColumn" ("id", "projectId", "name", "color", "position", "updatedAt")
+SELECT 'col_' || md5(p."id" || ':' || s."status"), p."id", s."name", s."color", s."position", CURRENT_TIMESTAMP
+FROM "Project" p
+CROSS JOIN (
+    VALUES ('TODO', 'ToDo', '#71717a', 0),
+           ('DOING', 'Doing', '#f59e0b', 1),
+           ('DONE', 'Done', '#10b981', 2)
+) AS s("status", "name", "color", "position");
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "columnId" TEXT;
+
+UPDATE "Task" SET "columnId" = 'col_' || md5("projectId" || ':' || "status"::text);
+
+ALTER TABLE "Task" ALTER COLUMN "columnId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Task_projectId_status_order_idx";
+
+-- AlterTable
+ALTER TABLE "Task" DROP COLUMN "status";
+
+-- DropEnum
+DROP TYPE "TaskStatus";
+
+-- CreateIndex
+CREATE INDEX "Task_projectId_idx" ON "Task"("projectId");
+
+-- CreateIndex
+CREATE INDEX "Task_columnId_order_idx" ON "Task"("columnId", "order");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_columnId_fkey" FOREIGN KEY ("columnId") REFERENCES "BoardColumn"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "Invite" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "createdById" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "maxUses" INTEGER,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Invite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invite_code_key" ON "Invite"("code");
+
+-- CreateIndex
+CREATE INDEX "Invite_projectId_createdAt_idx" ON "Invite"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Invite" ADD CONSTRAINT "Invite_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invite" ADD CONSTRAINT "Invite_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "Member"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing codes keep working as unlimited invites
+INSERT INTO "Invite" ("id", "projectId", "code", "createdAt")
+SELECT 'inv_' || md5("id" || ':' || "inviteCode"), "id", "inviteCode", "createdAt"
+FROM "Project";
+
+-- DropIndex
+DROP INDEX "Project_inviteCode_key";
+
+-- AlterTable
+ALTER TABLE "Project" DROP COLUMN "inviteCode";
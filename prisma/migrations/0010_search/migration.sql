@@ -0,0 +1,19 @@
+-- Full-text search. The 'simple' configuration does no stemming, so it behaves
+-- the same for Japanese and English text (words split on whitespace/punctuation).
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("description", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    to_tsvector('simple', coalesce("body", ''))
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Task_searchVector_idx" ON "Task" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Comment_searchVector_idx" ON "Comment" USING GIN ("searchVector");
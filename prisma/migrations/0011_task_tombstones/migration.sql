@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "TaskTombstone" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskTombstone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskTombstone_projectId_deletedAt_idx" ON "TaskTombstone"("projectId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Task_projectId_updatedAt_idx" ON "Task"("projectId", "updatedAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskTombstone" ADD CONSTRAINT "TaskTombstone_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
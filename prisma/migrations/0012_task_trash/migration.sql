@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "deletedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Task_projectId_deletedAt_idx" ON "Task"("projectId", "deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "Member"("id") ON DELETE SET NULL ON UPDATE CASCADE;
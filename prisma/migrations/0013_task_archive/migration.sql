@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "archivedAt" TIMESTAMP(3),
+ADD COLUMN "archivedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Task_projectId_archivedAt_idx" ON "Task"("projectId", "archivedAt");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_archivedById_fkey" FOREIGN KEY ("archivedById") REFERENCES "Member"("id") ON DELETE SET NULL ON UPDATE CASCADE;
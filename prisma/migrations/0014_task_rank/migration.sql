@@ -0,0 +1,26 @@
+-- Replace the integer "order" with a fractional rank (see src/lib/rank.ts), so
+-- moving a card rewrites only that card. Existing cards keep their order and get
+-- the same evenly spaced keys as spacedRanks(): 0000011, 0000021, ...
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "rank" TEXT COLLATE "C";
+
+UPDATE "Task" AS t
+SET "rank" = r."rank"
+FROM (
+    SELECT "id",
+           lpad(row_number() OVER (PARTITION BY "columnId" ORDER BY "order", "createdAt", "id")::text, 6, '0') || '1' AS "rank"
+    FROM "Task"
+) AS r
+WHERE t."id" = r."id";
+
+ALTER TABLE "Task" ALTER COLUMN "rank" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Task_columnId_order_idx";
+
+-- AlterTable
+ALTER TABLE "Task" DROP COLUMN "order";
+
+-- CreateIndex
+CREATE INDEX "Task_columnId_rank_idx" ON "Task"("columnId", "rank");
@@ -0,0 +1,17 @@
+-- Substring search. 0010_search claims the 'simple' configuration handles
+-- Japanese like English, but its parser only splits on whitespace and
+-- punctuation: 「買い物リストを作る」 is a single lexeme, so 「リスト」 never
+-- matched. The search route now also matches each term with ILIKE, which these
+-- trigram indexes serve for terms of three or more characters.
+
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateIndex
+CREATE INDEX "Task_title_idx" ON "Task" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Task_description_idx" ON "Task" USING GIN ("description" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Comment_body_idx" ON "Comment" USING GIN ("body" gin_trgm_ops);
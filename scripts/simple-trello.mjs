@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+// The command-line client (src/cli), run straight from the TypeScript sources so
+// it shares the API schemas with the server (which is why tsx is a runtime
+// dependency, not a dev one):
+//
+//   npm run cli -- board
+//
+// or `npm link` once and call `simple-trello board` from anywhere.
+import { fileURLToPath } from "node:url";
+import { tsImport } from "tsx/esm/api";
+
+// resolves the `@/` imports no matter where the command is run from
+process.env.TSX_TSCONFIG_PATH = fileURLToPath(new URL("../tsconfig.json", import.meta.url));
+const { main } = await tsImport("../src/cli/main.ts", import.meta.url);
+process.exitCode = await main(process.argv.slice(2));
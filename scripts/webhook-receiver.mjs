@@ -0,0 +1,58 @@
+// A local webhook receiver for trying out deliveries:
+//
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs [--port 4000] [--fail 2]
+//
+// Register http://localhost:4000/ as the webhook URL (the app has to run with
+// WEBHOOK_ALLOW_PRIVATE_URLS=1 to send to localhost). Each request is printed
+// with whether its signature checks out; --fail answers the first N requests
+// with 500 so the retries can be watched in the delivery log.
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+function arg(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 && process.argv[i + 1] ? Number(process.argv[i + 1]) : fallback;
+}
+
+const port = arg("port", 4000);
+let failuresLeft = arg("fail", 0);
+const secret = process.env.WEBHOOK_SECRET ?? "";
+// signatures older than this are treated as replays
+const TOLERANCE_S = 5 * 60;
+
+function verify(header, body) {
+  if (!secret) return "no WEBHOOK_SECRET set";
+  const parts = Object.fromEntries((header ?? "").split(",").map((p) => p.split("=", 2)));
+  const t = Number(parts.t);
+  if (!t || !parts.v1) return "missing signature";
+  if (Math.abs(Date.now() / 1000 - t) > TOLERANCE_S) return "timestamp out of tolerance";
+  const expected = createHmac("sha256", secret).update(`${t}.${body}`).digest();
+  const given = Buffer.from(parts.v1, "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected) ? "ok" : "mismatch";
+}
+
+createServer((req, res) => {
+  const chunks = [];
+  req.on("data", (c) => chunks.push(c));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const signature = verify(req.headers["x-webhook-signature"], body);
+    const fail = failuresLeft > 0;
+    if (fail) failuresLeft--;
+
+    console.log(
+      `${new Date().toISOString()} ${req.headers["x-webhook-event"]} delivery=${req.headers["x-webhook-delivery"]}` +
+        ` signature=${signature}${fail ? " -> 500 (--fail)" : ""}`,
+    );
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    res.statusCode = fail ? 500 : signature === "ok" || !secret ? 204 : 401;
+    res.end();
+  });
+}).listen(port, () => {
+  console.log(`Listening on http://localhost:${port}/${secret ? "" : " (WEBHOOK_SECRET not set: signatures are not checked)"}`);
+});
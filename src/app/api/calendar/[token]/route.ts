@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { hashToken } from "@/lib/session";
+import { toICalendar } from "@/lib/calendar";
+import { ON_BOARD } from "@/lib/tasks";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * The subscription URL itself (`/api/calendar/<token>.ics`): every task with a
+ * due date as an all-day event. No session here; the token is the credential.
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ token: string }> }) {
+  const { token } = await ctx.params;
+  const prisma = getPrisma();
+
+  // some calendar apps only accept URLs that look like a file
+  const feed = await prisma.calendarFeed.findUnique({
+    where: { tokenHash: hashToken(token.replace(/\.ics$/, "")) },
+    select: {
+      id: true,
+      projectId: true,
+      memberId: true,
+      assigneeId: true,
+      assignee: { select: { displayName: true } },
+      project: { select: { name: true } },
+    },
+  });
+  // a member who left the project keeps no access through old feeds; same answer as revoked
+  const pm = feed
+    ? await prisma.projectMember.findUnique({
+        where: { projectId_memberId: { projectId: feed.projectId, memberId: feed.memberId } },
+        select: { memberId: true },
+      })
+    : null;
+  if (!feed || !pm) return NextResponse.json({ error: "FEED_NOT_FOUND" }, { status: 404 });
+
+  await prisma.calendarFeed.update({
+    where: { id: feed.id },
+    data: { lastUsedAt: new Date() },
+    select: { id: true },
+  });
+
+  const tasks = await prisma.task.findMany({
+    where: {
+      projectId: feed.projectId,
+      ...ON_BOARD,
+      dueDate: { not: null },
+      ...(feed.assigneeId ? { assigneeId: feed.assigneeId } : {}),
+    },
+    orderBy: [{ dueDate: "asc" }, { id: "asc" }],
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      dueDate: true,
+      version: true,
+      updatedAt: true,
+      column: { select: { name: true } },
+      assignee: { select: { displayName: true } },
+    },
+  });
+
+  const boardUrl = `${req.nextUrl.origin}/p/${feed.projectId}`;
+  const ics = toICalendar({
+    name: feed.assignee
+      ? `${feed.project.name}（${feed.assignee.displayName}）`
+      : feed.project.name,
+    events: tasks.map((t) => ({
+      uid: `${t.id}@simple-trello`,
+      date: t.dueDate!,
+      summary: `[${t.column.name}] ${t.title}`,
+      description: [
+        `状態: ${t.column.name}`,
+        `担当: ${t.assignee?.displayName ?? "未設定"}`,
+        ...(t.description ? ["", t.description] : []),
+        "",
+        boardUrl,
+      ].join("\n"),
+      url: boardUrl,
+      categories: [t.column.name],
+      updatedAt: t.updatedAt,
+      sequence: t.version,
+    })),
+  });
+
+  return new NextResponse(ics, {
+    headers: {
+      "content-type": "text/calendar; charset=utf-8",
+      "content-disposition": `inline; filename="tasks-${feed.projectId}.ics"`,
+      "cache-control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { ON_BOARD } from "@/lib/tasks";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const me = await prisma.member.findUnique({
+    where: { id: memberId },
+    select: { id: true, displayName: true },
+  });
+  if (!me) return NextResponse.json({ error: "UNAUTHENTICATED" }, { status: 401 });
+
+  const memberships = await prisma.projectMember.findMany({
+    where: { memberId },
+    orderBy: { joinedAt: "desc" },
+    select: {
+      role: true,
+      joinedAt: true,
+      project: {
+        select: {
+          id: true,
+          name: true,
+          updatedAt: true,
+          _count: { select: { tasks: { where: ON_BOARD }, members: true } },
+        },
+      },
+    },
+  });
+
+  return NextResponse.json({
+    me,
+    projects: memberships.map(({ role, joinedAt, project: { _count, ...project } }) => ({
+      ...project,
+      role,
+      joinedAt,
+      taskCount: _count.tasks,
+      memberCount: _count.members,
+    })),
+  });
+}
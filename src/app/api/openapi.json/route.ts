@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** Machine-readable description of the board API, generated from the same schemas the routes validate with. */
+export async function GET(req: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(req.nextUrl.origin));
+}
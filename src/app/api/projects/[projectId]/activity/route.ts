@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { ActivityQuerySchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+export async function GET(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const parsed = ActivityQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_QUERY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+  const { cursor, taskId, limit } = parsed.data;
+
+  // newest first; fetch one extra row to know whether another page exists
+  const rows = await prisma.activity.findMany({
+    where: { projectId, ...(taskId ? { taskId } : {}) },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    select: {
+      id: true,
+      action: true,
+      taskId: true,
+      taskTitle: true,
+      before: true,
+      after: true,
+      createdAt: true,
+      actor: { select: { id: true, displayName: true } },
+    },
+  });
+
+  const items = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? items[items.length - 1].id : null;
+  return NextResponse.json({ items, nextCursor });
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { BOARD_TASK_SELECT, rankAtEnd, toBoardTaskPayload } from "@/lib/tasks";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+type Params = { params: Promise<{ projectId: string; taskId: string }> };
+
+/** Puts an archived task back on the board, at the bottom of its column. */
+export async function POST(req: NextRequest, ctx: Params) {
+  const { projectId, taskId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const existing = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { projectId: true, columnId: true, archivedAt: true, deletedAt: true },
+  });
+  if (!existing || existing.projectId !== projectId || existing.deletedAt) {
+    return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+  }
+  if (!existing.archivedAt) {
+    return NextResponse.json({ error: "TASK_NOT_ARCHIVED" }, { status: 409 });
+  }
+  const { columnId } = existing;
+
+  const unarchived = await prisma.$transaction(async (tx) => {
+    const slot = await rankAtEnd(tx, columnId, taskId);
+    const res = await tx.task.updateMany({
+      where: { id: taskId, archivedAt: { not: null }, deletedAt: null },
+      data: { archivedAt: null, archivedById: null, rank: slot.rank, version: { increment: 1 } },
+    });
+    return res.count > 0 ? slot.rebalanced : null;
+  });
+  if (!unarchived) {
+    return NextResponse.json({ error: "TASK_NOT_ARCHIVED" }, { status: 409 });
+  }
+
+  const { column, ...row } = await prisma.task.findUniqueOrThrow({
+    where: { id: taskId },
+    select: { ...BOARD_TASK_SELECT, column: { select: { name: true } } },
+  });
+  const task = toBoardTaskPayload(row);
+
+  await recordActivity({
+    projectId,
+    actorId: memberId,
+    action: "task.unarchived",
+    taskId,
+    taskTitle: task.title,
+    after: { columnId, column: column.name },
+  });
+
+  // to other clients an unarchived card looks like a new one
+  publishBoardEvent(projectId, { type: "task.created", task });
+  if (unarchived.length > 0) publishBoardEvent(projectId, { type: "board.reordered", tasks: unarchived });
+
+  return NextResponse.json({ task });
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { ON_BOARD, TASK_SELECT, recordTaskTombstones, toTaskPayload } from "@/lib/tasks";
+import { ArchiveQuerySchema, ArchiveTasksSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+export async function GET(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const parsed = ArchiveQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_QUERY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+  const { q, cursor, limit } = parsed.data;
+
+  // most recently archived first; fetch one extra row to know whether another page exists
+  const rows = await prisma.task.findMany({
+    where: {
+      projectId,
+      deletedAt: null,
+      archivedAt: { not: null },
+      ...(q
+        ? {
+            OR: [
+              { title: { contains: q, mode: "insensitive" as const } },
+              { description: { contains: q, mode: "insensitive" as const } },
+            ],
+          }
+        : {}),
+    },
+    orderBy: [{ archivedAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    select: {
+      ...TASK_SELECT,
+      archivedAt: true,
+      archivedBy: { select: { id: true, displayName: true } },
+      column: { select: { name: true } },
+    },
+  });
+
+  const items = rows.slice(0, limit).map(({ archivedAt, archivedBy, column, ...t }) => ({
+    ...toTaskPayload(t),
+    columnName: column.name,
+    archivedAt,
+    archivedBy,
+  }));
+  const nextCursor = rows.length > limit ? items[items.length - 1].id : null;
+  return NextResponse.json({ items, nextCursor });
+}
+
+export async function POST(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = ArchiveTasksSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+  const body = parsed.data;
+
+  if ("columnId" in body) {
+    const column = await prisma.boardColumn.findUnique({
+      where: { id: body.columnId },
+      select: { projectId: true },
+    });
+    if (column?.projectId !== projectId) {
+      return NextResponse.json({ error: "COLUMN_NOT_IN_PROJECT" }, { status: 400 });
+    }
+  }
+
+  // tasks already archived, trashed or outside the project are skipped rather than rejected
+  const targets = await prisma.task.findMany({
+    where:
+      "taskIds" in body
+        ? { projectId, ...ON_BOARD, id: { in: body.taskIds } }
+        : {
+            projectId,
+            ...ON_BOARD,
+            columnId: body.columnId,
+            updatedAt: { lt: new Date(Date.now() - body.olderThanDays * 24 * 60 * 60 * 1000) },
+          },
+    select: { id: true, title: true },
+  });
+
+  const ids = targets.map((t) => t.id);
+  const archivedAt = new Date();
+  const archived = await prisma.$transaction(async (tx) => {
+    if (ids.length === 0) return [];
+    await tx.task.updateMany({
+      where: { id: { in: ids }, ...ON_BOARD },
+      data: { archivedAt, archivedById: memberId, version: { increment: 1 } },
+    });
+    // a concurrent delete or archive may have raced us; report only what this request archived
+    const rows = await tx.task.findMany({
+      where: { id: { in: ids }, archivedAt },
+      select: { id: true },
+    });
+    const archivedIds = rows.map((r) => r.id);
+    await recordTaskTombstones(projectId, archivedIds, tx);
+    return archivedIds;
+  });
+
+  const archivedSet = new Set(archived);
+  await recordActivity(
+    targets
+      .filter((t) => archivedSet.has(t.id))
+      .map((t) => ({
+        projectId,
+        actorId: memberId,
+        action: "task.archived" as const,
+        taskId: t.id,
+        taskTitle: t.title,
+      })),
+  );
+  if (archived.length > 0) publishBoardEvent(projectId, { type: "tasks.archived", taskIds: archived });
+
+  return NextResponse.json({ archived });
+}
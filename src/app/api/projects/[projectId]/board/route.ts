@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { z } from "zod";
 import { getPrisma } from "@/lib/prisma";
-import { getMemberIdOrThrow } from "@/lib/authless";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { BOARD_TASK_SELECT, ON_BOARD, TOMBSTONE_RETENTION_MS, toBoardTaskPayload } from "@/lib/tasks";
+import { getActiveInvite } from "@/lib/invite";
+import { BoardQuerySchema } from "@/lib/schemas";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -15,23 +17,43 @@ async function assertMemberInProject(projectId: string, memberId: string) {
   if (!pm) throw new Error("FORBIDDEN");
 }
 
+// the cursor is a server timestamp; rows committed by slower requests (or on a
+// server with a skewed clock) can carry an updatedAt slightly before it, so each
+// delta re-reads a short window and the client merges idempotently
+const SYNC_OVERLAP_MS = 10_000;
+
 export async function GET(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
   const { projectId } = await ctx.params;
   const prisma = getPrisma();
+  // taken before reading so anything written meanwhile lands in the next delta
+  const now = new Date();
 
   let memberId = "";
   try {
-    memberId = getMemberIdOrThrow(req);
+    memberId = await getMemberIdOrThrow(req);
     await assertMemberInProject(projectId, memberId);
   } catch (e) {
     const code = (e as Error).message;
-    const status = code === "MISSING_MEMBER_ID" ? 401 : 403;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
     return NextResponse.json({ error: code }, { status });
   }
 
+  const parsed = BoardQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_QUERY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  // tombstones older than the retention window are gone, so such cursors get a full snapshot
+  const since = parsed.data.since;
+  const delta = since !== undefined && now.getTime() - since < TOMBSTONE_RETENTION_MS;
+  const changedAfter = delta ? new Date(since - SYNC_OVERLAP_MS) : null;
+
   const project = await prisma.project.findUnique({
     where: { id: projectId },
-    select: { id: true, name: true, inviteCode: true, updatedAt: true },
+    select: { id: true, name: true, updatedAt: true },
   });
 
   if (!project) return NextResponse.json({ error: "PROJECT_NOT_FOUND" }, { status: 404 });
@@ -45,85 +67,45 @@ export async function GET(req: NextRequest, ctx: { params: Promise<{ projectId:
     },
   });
 
-  const tasks = await prisma.task.findMany({
+  const columns = await prisma.boardColumn.findMany({
     where: { projectId },
-    orderBy: [{ status: "asc" }, { order: "asc" }, { createdAt: "asc" }],
-    select: {
-      id: true,
-      title: true,
-      description: true,
-      status: true,
-      order: true,
-      dueDate: true,
-      assigneeId: true,
-      creatorId: true,
-      updatedAt: true,
-      createdAt: true,
-    },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    select: { id: true, name: true, color: true, position: true },
   });
 
-  return NextResponse.json({
-    project,
-    me: { memberId },
-    members: members.map((m) => ({ ...m.member, role: m.role })),
-    tasks,
+  const labels = await prisma.label.findMany({
+    where: { projectId },
+    orderBy: { name: "asc" },
+    select: { id: true, name: true, color: true },
   });
-}
 
-const BoardUpdateSchema = z.object({
-  tasks: z
-    .array(
-      z.object({
-        id: z.string().min(1),
-        status: z.enum(["TODO", "DOING", "DONE"]),
-        order: z.number().int().min(0).max(1000000),
-      }),
-    )
-    .max(2000),
-});
-
-export async function PUT(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
-  const { projectId } = await ctx.params;
-  const prisma = getPrisma();
-
-  let memberId = "";
-  try {
-    memberId = getMemberIdOrThrow(req);
-    await assertMemberInProject(projectId, memberId);
-  } catch (e) {
-    const code = (e as Error).message;
-    const status = code === "MISSING_MEMBER_ID" ? 401 : 403;
-    return NextResponse.json({ error: code }, { status });
-  }
-
-  const json = await req.json().catch(() => null);
-  const parsed = BoardUpdateSchema.safeParse(json);
-  if (!parsed.success) {
-    return NextResponse.json(
-      { error: "INVALID_BODY", details: parsed.error.flatten() },
-      { status: 400 },
-    );
-  }
-
-  const ids = parsed.data.tasks.map((t) => t.id);
-  const existing = await prisma.task.findMany({
-    where: { id: { in: ids } },
-    select: { id: true, projectId: true },
+  // members, columns and labels are small and have no tombstones, so deltas
+  // still carry them in full; tasks are the part that grows with the board
+  const tasks = await prisma.task.findMany({
+    where: changedAfter
+      ? { projectId, ...ON_BOARD, updatedAt: { gt: changedAfter } }
+      : { projectId, ...ON_BOARD },
+    orderBy: [{ rank: "asc" }, { id: "asc" }],
+    select: BOARD_TASK_SELECT,
   });
-  if (existing.length !== ids.length || existing.some((t) => t.projectId !== projectId)) {
-    return NextResponse.json({ error: "TASKS_NOT_IN_PROJECT" }, { status: 400 });
-  }
 
-  await prisma.$transaction(
-    parsed.data.tasks.map((t) =>
-      prisma.task.update({
-        where: { id: t.id },
-        data: { status: t.status, order: t.order },
-        select: { id: true },
-      }),
-    ),
-  );
+  const tombstones = changedAfter
+    ? await prisma.taskTombstone.findMany({
+        where: { projectId, deletedAt: { gt: changedAfter } },
+        select: { taskId: true },
+      })
+    : [];
 
-  return NextResponse.json({ ok: true });
+  return NextResponse.json({
+    full: !delta,
+    cursor: String(now.getTime()),
+    deletedTaskIds: tombstones.map((t) => t.taskId),
+    project,
+    me: { memberId },
+    members: members.map((m) => ({ ...m.member, role: m.role })),
+    invite: await getActiveInvite(projectId),
+    columns,
+    labels,
+    tasks: tasks.map(toBoardTaskPayload),
+  });
 }
-
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+type Params = { params: Promise<{ projectId: string; feedId: string }> };
+
+// Revokes the feed. Unlike invites nothing is kept: a stale URL simply gets a 404.
+export async function DELETE(req: NextRequest, ctx: Params) {
+  const { projectId, feedId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const res = await prisma.calendarFeed.deleteMany({ where: { id: feedId, projectId, memberId } });
+  if (res.count === 0) return NextResponse.json({ error: "FEED_NOT_FOUND" }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,91 @@
+import { randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow, hashToken } from "@/lib/session";
+import { CreateCalendarFeedSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+const FEED_SELECT = {
+  id: true,
+  assigneeId: true,
+  assignee: { select: { displayName: true } },
+  lastUsedAt: true,
+  createdAt: true,
+} satisfies Prisma.CalendarFeedSelect;
+
+/** The caller's own feeds. Tokens aren't stored, so only their settings are listed. */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const feeds = await prisma.calendarFeed.findMany({
+    where: { projectId, memberId },
+    orderBy: { createdAt: "desc" },
+    select: FEED_SELECT,
+  });
+  return NextResponse.json({ feeds });
+}
+
+/** Issues a feed; the token is returned once and becomes the last segment of its URL. */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = CreateCalendarFeedSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { assigneeId } = parsed.data;
+  if (assigneeId) {
+    const pm = await prisma.projectMember.findUnique({
+      where: { projectId_memberId: { projectId, memberId: assigneeId } },
+      select: { memberId: true },
+    });
+    if (!pm) return NextResponse.json({ error: "ASSIGNEE_NOT_IN_PROJECT" }, { status: 400 });
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  const feed = await prisma.calendarFeed.create({
+    data: { projectId, memberId, assigneeId, tokenHash: hashToken(token) },
+    select: FEED_SELECT,
+  });
+
+  return NextResponse.json({ feed, token });
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { diffFields, recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { ON_BOARD, rankAtEnd } from "@/lib/tasks";
+import type { TaskPosition } from "@/lib/tasks";
+import { PatchColumnSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+async function listColumns(projectId: string) {
+  return getPrisma().boardColumn.findMany({
+    where: { projectId },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    select: { id: true, name: true, color: true, position: true },
+  });
+}
+
+type Params = { params: Promise<{ projectId: string; columnId: string }> };
+
+export async function PATCH(req: NextRequest, ctx: Params) {
+  const { projectId, columnId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = PatchColumnSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const existing = await prisma.boardColumn.findUnique({
+    where: { id: columnId },
+    select: { projectId: true, name: true, color: true },
+  });
+  if (!existing || existing.projectId !== projectId) {
+    return NextResponse.json({ error: "COLUMN_NOT_FOUND" }, { status: 404 });
+  }
+
+  const column = await prisma.boardColumn.update({
+    where: { id: columnId },
+    data: parsed.data,
+    select: { id: true, name: true, color: true, position: true },
+  });
+
+  await recordActivity({
+    projectId,
+    actorId: memberId,
+    action: "column.updated",
+    ...diffFields(
+      { name: existing.name, color: existing.color },
+      { name: column.name, color: column.color },
+    ),
+  });
+  publishBoardEvent(projectId, { type: "columns.changed", columns: await listColumns(projectId) });
+
+  return NextResponse.json({ column });
+}
+
+export async function DELETE(req: NextRequest, ctx: Params) {
+  const { projectId, columnId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const columns = await listColumns(projectId);
+  const column = columns.find((c) => c.id === columnId);
+  if (!column) return NextResponse.json({ ok: true });
+  if (columns.length === 1) {
+    return NextResponse.json({ error: "LAST_COLUMN" }, { status: 400 });
+  }
+
+  // cards have to go somewhere: ?moveTo=<columnId> is required unless the column is empty
+  const moveTo = req.nextUrl.searchParams.get("moveTo");
+  const target = moveTo && moveTo !== columnId && columns.some((c) => c.id === moveTo) ? moveTo : null;
+
+  // trashed and archived cards still reference the column: they follow the live
+  // ones, or go to the first remaining column, so bringing them back has somewhere to land
+  const trashTarget = target ?? columns.find((c) => c.id !== columnId)!.id;
+
+  let taskCount: number;
+  let moved: TaskPosition[];
+  try {
+    ({ taskCount, moved } = await prisma.$transaction(async (tx) => {
+      // read inside the transaction so the check and the moves see the same cards
+      const tasks = await tx.task.findMany({
+        where: { columnId, ...ON_BOARD },
+        orderBy: [{ rank: "asc" }, { id: "asc" }],
+        select: { id: true },
+      });
+      // keyed by id: a respace of the target column can report a card moved earlier in this loop
+      const out = new Map<string, TaskPosition>();
+      if (tasks.length > 0) {
+        if (!moveTo) throw new Error("COLUMN_NOT_EMPTY");
+        if (!target) throw new Error("INVALID_MOVE_TARGET");
+        for (const t of tasks) {
+          const { rank, rebalanced } = await rankAtEnd(tx, target);
+          for (const r of rebalanced) out.set(r.id, r);
+          const updated = await tx.task.update({
+            where: { id: t.id },
+            data: { columnId: target, rank, version: { increment: 1 } },
+            select: { id: true, columnId: true, rank: true, version: true },
+          });
+          out.set(updated.id, updated);
+        }
+      }
+      await tx.task.updateMany({
+        where: { columnId, NOT: ON_BOARD },
+        data: { columnId: trashTarget },
+      });
+      await tx.boardColumn.delete({ where: { id: columnId }, select: { id: true } });
+      return { taskCount: tasks.length, moved: [...out.values()] };
+    }));
+  } catch (e) {
+    // a card created or moved into the column after our read still references it
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2003") {
+      return NextResponse.json({ error: "COLUMN_NOT_EMPTY" }, { status: 409 });
+    }
+    const code = (e as Error).message;
+    if (code === "COLUMN_NOT_EMPTY") return NextResponse.json({ error: code }, { status: 409 });
+    if (code === "INVALID_MOVE_TARGET") return NextResponse.json({ error: code }, { status: 400 });
+    throw e;
+  }
+
+  await recordActivity({
+    projectId,
+    actorId: memberId,
+    action: "column.deleted",
+    before: { name: column.name, taskCount },
+    after: taskCount > 0 ? { movedTo: columns.find((c) => c.id === target)?.name } : null,
+  });
+  if (moved.length > 0) publishBoardEvent(projectId, { type: "board.reordered", tasks: moved });
+  publishBoardEvent(projectId, { type: "columns.changed", columns: await listColumns(projectId) });
+
+  return NextResponse.json({ ok: true, moved });
+}
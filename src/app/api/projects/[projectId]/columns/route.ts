@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { CreateColumnSchema, ReorderColumnsSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+async function listColumns(projectId: string) {
+  return getPrisma().boardColumn.findMany({
+    where: { projectId },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    select: { id: true, name: true, color: true, position: true },
+  });
+}
+
+export async function GET(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  return NextResponse.json({ columns: await listColumns(projectId) });
+}
+
+export async function POST(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = CreateColumnSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const maxPosition = await prisma.boardColumn.aggregate({
+    where: { projectId },
+    _max: { position: true },
+  });
+  const position = (maxPosition._max?.position ?? -1) + 1;
+
+  const column = await prisma.boardColumn.create({
+    data: { projectId, name: parsed.data.name, color: parsed.data.color, position },
+    select: { id: true, name: true, color: true, position: true },
+  });
+
+  await recordActivity({
+    projectId,
+    actorId: memberId,
+    action: "column.created",
+    after: { name: column.name, color: column.color },
+  });
+  publishBoardEvent(projectId, { type: "columns.changed", columns: await listColumns(projectId) });
+
+  return NextResponse.json({ column });
+}
+
+export async function PUT(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = ReorderColumnsSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  // the new order must name every column exactly once
+  const { columnIds } = parsed.data;
+  const existing = await listColumns(projectId);
+  const known = new Set(existing.map((c) => c.id));
+  if (
+    new Set(columnIds).size !== columnIds.length ||
+    columnIds.length !== existing.length ||
+    columnIds.some((id) => !known.has(id))
+  ) {
+    return NextResponse.json({ error: "COLUMNS_MISMATCH" }, { status: 400 });
+  }
+
+  await prisma.$transaction(
+    columnIds.map((id, position) =>
+      prisma.boardColumn.update({ where: { id }, data: { position }, select: { id: true } }),
+    ),
+  );
+
+  const columns = await listColumns(projectId);
+  publishBoardEvent(projectId, { type: "columns.changed", columns });
+  return NextResponse.json({ columns });
+}
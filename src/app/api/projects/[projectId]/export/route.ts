@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { buildProjectExport } from "@/lib/projectExport";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+/** Downloads the project as a versioned JSON document that `POST /api/projects/import` accepts. */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const doc = await buildProjectExport(projectId);
+  if (!doc) return NextResponse.json({ error: "PROJECT_NOT_FOUND" }, { status: 404 });
+
+  const date = doc.exportedAt.slice(0, 10);
+  return NextResponse.json(doc, {
+    headers: { "content-disposition": `attachment; filename="project-${projectId}-${date}.json"` },
+  });
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ProjectRole } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { INVITE_SELECT, getActiveInvite, toInvitePayload } from "@/lib/invite";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function getRoleOrThrow(projectId: string, memberId: string): Promise<ProjectRole> {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { role: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+  return pm.role;
+}
+
+type Params = { params: Promise<{ projectId: string; inviteId: string }> };
+
+// Revokes the code. The row stays so the owner can still see who used it and when it ended.
+export async function DELETE(req: NextRequest, ctx: Params) {
+  const { projectId, inviteId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  let role: ProjectRole;
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    role = await getRoleOrThrow(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+  if (role !== "OWNER") return NextResponse.json({ error: "OWNER_ONLY" }, { status: 403 });
+
+  const existing = await prisma.invite.findUnique({
+    where: { id: inviteId },
+    select: { projectId: true, code: true, revokedAt: true },
+  });
+  if (!existing || existing.projectId !== projectId) {
+    return NextResponse.json({ error: "INVITE_NOT_FOUND" }, { status: 404 });
+  }
+
+  const invite = existing.revokedAt
+    ? await prisma.invite.findUniqueOrThrow({ where: { id: inviteId }, select: INVITE_SELECT })
+    : await prisma.invite.update({
+        where: { id: inviteId },
+        data: { revokedAt: new Date() },
+        select: INVITE_SELECT,
+      });
+
+  if (!existing.revokedAt) {
+    await recordActivity({
+      projectId,
+      actorId: memberId,
+      action: "invite.revoked",
+      before: { code: existing.code },
+    });
+    publishBoardEvent(projectId, { type: "invite.changed", invite: await getActiveInvite(projectId) });
+  }
+
+  return NextResponse.json({ invite: toInvitePayload(invite) });
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ProjectRole } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { INVITE_SELECT, createInvite, getActiveInvite, toInvitePayload } from "@/lib/invite";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { CreateInviteSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function getRoleOrThrow(projectId: string, memberId: string): Promise<ProjectRole> {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { role: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+  return pm.role;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export async function GET(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let role: ProjectRole;
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    role = await getRoleOrThrow(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+  if (role !== "OWNER") return NextResponse.json({ error: "OWNER_ONLY" }, { status: 403 });
+
+  const invites = await prisma.invite.findMany({
+    where: { projectId },
+    orderBy: { createdAt: "desc" },
+    take: 50,
+    select: INVITE_SELECT,
+  });
+  const now = new Date();
+
+  return NextResponse.json({ invites: invites.map((i) => toInvitePayload(i, now)) });
+}
+
+export async function POST(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  let role: ProjectRole;
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    role = await getRoleOrThrow(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+  if (role !== "OWNER") return NextResponse.json({ error: "OWNER_ONLY" }, { status: 403 });
+
+  const json = await req.json().catch(() => null);
+  const parsed = CreateInviteSchema.safeParse(json ?? {});
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { expiresInHours, maxUses, revokeExisting } = parsed.data;
+  const expiresAt = expiresInHours ? new Date(Date.now() + expiresInHours * HOUR_MS) : null;
+
+  const invite = await createInvite({ projectId, createdById: memberId, expiresAt, maxUses });
+  if (!invite) {
+    return NextResponse.json({ error: "INVITE_CODE_GENERATION_FAILED" }, { status: 500 });
+  }
+
+  let revoked = 0;
+  if (revokeExisting) {
+    const res = await prisma.invite.updateMany({
+      where: { projectId, revokedAt: null, id: { not: invite.id } },
+      data: { revokedAt: new Date() },
+    });
+    revoked = res.count;
+  }
+
+  await recordActivity({
+    projectId,
+    actorId: memberId,
+    action: "invite.created",
+    after: { expiresAt, maxUses: maxUses ?? null, revoked },
+  });
+  publishBoardEvent(projectId, { type: "invite.changed", invite: await getActiveInvite(projectId) });
+
+  return NextResponse.json({ invite: toInvitePayload(invite) });
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { diffFields, recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { PatchLabelSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+async function listLabels(projectId: string) {
+  return getPrisma().label.findMany({
+    where: { projectId },
+    orderBy: { name: "asc" },
+    select: { id: true, name: true, color: true },
+  });
+}
+
+type Params = { params: Promise<{ projectId: string; labelId: string }> };
+
+export async function PATCH(req: NextRequest, ctx: Params) {
+  const { projectId, labelId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = PatchLabelSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const existing = await prisma.label.findUnique({
+    where: { id: labelId },
+    select: { projectId: true, name: true, color: true },
+  });
+  if (!existing || existing.projectId !== projectId) {
+    return NextResponse.json({ error: "LABEL_NOT_FOUND" }, { status: 404 });
+  }
+
+  let label: { id: string; name: string; color: string };
+  try {
+    label = await prisma.label.update({
+      where: { id: labelId },
+      data: parsed.data,
+      select: { id: true, name: true, color: true },
+    });
+  } catch (e) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002") {
+      return NextResponse.json({ error: "LABEL_NAME_TAKEN" }, { status: 409 });
+    }
+    throw e;
+  }
+
+  await recordActivity({
+    projectId,
+    actorId: memberId,
+    action: "label.updated",
+    ...diffFields(
+      { name: existing.name, color: existing.color },
+      { name: label.name, color: label.color },
+    ),
+  });
+  publishBoardEvent(projectId, { type: "labels.changed", labels: await listLabels(projectId) });
+
+  return NextResponse.json({ label });
+}
+
+export async function DELETE(req: NextRequest, ctx: Params) {
+  const { projectId, labelId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const existing = await prisma.label.findUnique({
+    where: { id: labelId },
+    select: { projectId: true, name: true },
+  });
+  if (!existing || existing.projectId !== projectId) return NextResponse.json({ ok: true });
+
+  // TaskLabel rows go with it (onDelete: Cascade); the touch lets delta syncs
+  // pick up the tasks that lose the label
+  await prisma.$transaction([
+    prisma.task.updateMany({
+      where: { labels: { some: { labelId } } },
+      data: { updatedAt: new Date() },
+    }),
+    prisma.label.delete({ where: { id: labelId }, select: { id: true } }),
+  ]);
+
+  await recordActivity({
+    projectId,
+    actorId: memberId,
+    action: "label.deleted",
+    before: { name: existing.name },
+  });
+  publishBoardEvent(projectId, { type: "labels.changed", labels: await listLabels(projectId) });
+
+  return NextResponse.json({ ok: true });
+}
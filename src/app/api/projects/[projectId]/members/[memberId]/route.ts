@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ProjectRole } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { TASK_SELECT, toTaskPayload } from "@/lib/tasks";
+import { PatchMemberSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function getRoleOrThrow(projectId: string, memberId: string): Promise<ProjectRole> {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { role: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+  return pm.role;
+}
+
+async function loadTarget(projectId: string, memberId: string) {
+  return getPrisma().projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { role: true, member: { select: { id: true, displayName: true } } },
+  });
+}
+
+async function countOwners(projectId: string) {
+  return getPrisma().projectMember.count({ where: { projectId, role: "OWNER" } });
+}
+
+type Params = { params: Promise<{ projectId: string; memberId: string }> };
+
+export async function PATCH(req: NextRequest, ctx: Params) {
+  const { projectId, memberId: targetId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  let role: ProjectRole;
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    role = await getRoleOrThrow(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+  if (role !== "OWNER") return NextResponse.json({ error: "OWNER_ONLY" }, { status: 403 });
+
+  const json = await req.json().catch(() => null);
+  const parsed = PatchMemberSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const target = await loadTarget(projectId, targetId);
+  if (!target) return NextResponse.json({ error: "MEMBER_NOT_FOUND" }, { status: 404 });
+
+  const nextRole = parsed.data.role;
+  if (target.role === nextRole) {
+    return NextResponse.json({ member: { ...target.member, role: target.role } });
+  }
+  // a project always keeps at least one owner who can manage it
+  if (target.role === "OWNER" && (await countOwners(projectId)) <= 1) {
+    return NextResponse.json({ error: "LAST_OWNER" }, { status: 400 });
+  }
+
+  await prisma.projectMember.update({
+    where: { projectId_memberId: { projectId, memberId: targetId } },
+    data: { role: nextRole },
+    select: { role: true },
+  });
+  const member = { ...target.member, role: nextRole };
+
+  await recordActivity({
+    projectId,
+    actorId: memberId,
+    action: "member.updated",
+    before: { displayName: target.member.displayName, role: target.role },
+    after: { role: nextRole },
+  });
+  publishBoardEvent(projectId, { type: "member.updated", member });
+
+  return NextResponse.json({ member });
+}
+
+export async function DELETE(req: NextRequest, ctx: Params) {
+  const { projectId, memberId: targetId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  let role: ProjectRole;
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    role = await getRoleOrThrow(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+  // anyone may leave; removing somebody else takes an owner
+  if (targetId !== memberId && role !== "OWNER") {
+    return NextResponse.json({ error: "OWNER_ONLY" }, { status: 403 });
+  }
+
+  const target = await loadTarget(projectId, targetId);
+  if (!target) return NextResponse.json({ ok: true, unassigned: [] });
+  if (target.role === "OWNER" && (await countOwners(projectId)) <= 1) {
+    return NextResponse.json({ error: "LAST_OWNER" }, { status: 400 });
+  }
+
+  // unassign their cards in the same transaction so nothing points at a non-member;
+  // trashed and archived cards too, so bringing them back can't restore the assignment
+  const unassigned = await prisma.$transaction(async (tx) => {
+    const assigned = await tx.task.findMany({
+      where: { projectId, assigneeId: targetId },
+      select: { id: true, title: true, deletedAt: true, archivedAt: true },
+    });
+    if (assigned.length > 0) {
+      await tx.task.updateMany({
+        where: { id: { in: assigned.map((t) => t.id) } },
+        data: { assigneeId: null, version: { increment: 1 } },
+      });
+    }
+    await tx.projectMember.delete({
+      where: { projectId_memberId: { projectId, memberId: targetId } },
+      select: { memberId: true },
+    });
+    return assigned.filter((t) => !t.deletedAt && !t.archivedAt);
+  });
+
+  await recordActivity([
+    {
+      projectId,
+      actorId: memberId,
+      action: "member.removed",
+      before: { displayName: target.member.displayName, role: target.role },
+      after: { unassignedTasks: unassigned.length },
+    },
+    ...unassigned.map((t) => ({
+      projectId,
+      actorId: memberId,
+      action: "task.updated" as const,
+      taskId: t.id,
+      taskTitle: t.title,
+      before: { assigneeId: targetId },
+      after: { assigneeId: null },
+    })),
+  ]);
+
+  if (unassigned.length > 0) {
+    const tasks = await prisma.task.findMany({
+      where: { id: { in: unassigned.map((t) => t.id) } },
+      select: TASK_SELECT,
+    });
+    for (const t of tasks) publishBoardEvent(projectId, { type: "task.updated", task: toTaskPayload(t) });
+  }
+  publishBoardEvent(projectId, { type: "member.removed", memberId: targetId });
+
+  return NextResponse.json({ ok: true, unassigned: unassigned.map((t) => t.id) });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ProjectRole } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { publishBoardEvent } from "@/lib/realtime";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function getRoleOrThrow(projectId: string, memberId: string): Promise<ProjectRole> {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { role: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+  return pm.role;
+}
+
+export async function DELETE(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let role: ProjectRole;
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    role = await getRoleOrThrow(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+  if (role !== "OWNER") return NextResponse.json({ error: "OWNER_ONLY" }, { status: 403 });
+
+  // columns, tasks, labels, comments and activity all cascade with the project
+  await prisma.project.delete({ where: { id: projectId }, select: { id: true } });
+  publishBoardEvent(projectId, { type: "project.deleted" });
+
+  return NextResponse.json({ ok: true });
+}
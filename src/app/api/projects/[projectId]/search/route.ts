@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { SearchQuerySchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+// ts_headline wraps hits in these; they are split into segments below so the
+// client never has to render HTML
+const HIT_START = "\u0002";
+const HIT_END = "\u0003";
+const TITLE_HEADLINE = `StartSel=${HIT_START}, StopSel=${HIT_END}, HighlightAll=true`;
+const SNIPPET_HEADLINE = `StartSel=${HIT_START}, StopSel=${HIT_END}, MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// comment matches count for less than a hit on the card itself
+const COMMENT_RANK_WEIGHT = 0.5;
+// ts_rank knows nothing of substring hits; they rank like a modest full-text hit
+const SUBSTRING_TITLE_RANK = 0.1;
+const SUBSTRING_RANK = 0.05;
+// characters of context kept around a substring hit in the snippet
+const SNIPPET_CONTEXT = 30;
+const SNIPPET_LENGTH = 100;
+
+type Segment = { text: string; hit: boolean };
+
+function toSegments(headline: string): Segment[] {
+  const out: Segment[] = [];
+  for (const part of headline.split(HIT_START)) {
+    const end = part.indexOf(HIT_END);
+    if (end < 0) {
+      if (part) out.push({ text: part, hit: false });
+      continue;
+    }
+    out.push({ text: part.slice(0, end), hit: true });
+    if (end + 1 < part.length) out.push({ text: part.slice(end + 1), hit: false });
+  }
+  return out;
+}
+
+/** Search terms with the characters that mean something to tsquery or LIKE dropped. */
+function toTerms(q: string) {
+  return q
+    .split(/\s+/)
+    .map((t) => t.replace(/[^\p{L}\p{N}_-]/gu, ""))
+    .filter(Boolean)
+    .slice(0, 8);
+}
+
+/** A prefix tsquery ("foo ba" → "foo:* & ba:*") so results show up while typing. */
+function toPrefixQuery(terms: string[]) {
+  return terms.map((t) => `${t}:*`).join(" & ");
+}
+
+/**
+ * Every term as a substring of one of `columns`. The 'simple' parser only splits
+ * on whitespace and punctuation, so a Japanese title like 「買い物リストを作る」 is
+ * one lexeme and 「リスト」 only matches this way (served by the trigram indexes).
+ */
+function containsAll(terms: string[], columns: string[]) {
+  return Prisma.join(
+    terms.map((t) => {
+      const pattern = `%${t.replace(/_/g, "\\_")}%`;
+      return Prisma.sql`(${Prisma.join(
+        columns.map((c) => Prisma.sql`${Prisma.raw(c)} ILIKE ${pattern}`),
+        " OR ",
+      )})`;
+    }),
+    " AND ",
+  );
+}
+
+/**
+ * Highlights substring hits that ts_headline can't see, cutting long text down
+ * to the first hit with some context when `excerpt` is set. Null when no term occurs.
+ */
+function markSubstrings(text: string, terms: string[], excerpt: boolean): Segment[] | null {
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map((t) => lower.indexOf(t.toLowerCase())).filter((i) => i >= 0));
+  if (!Number.isFinite(first)) return null;
+
+  let start = 0;
+  let end = text.length;
+  if (excerpt) {
+    start = Math.max(0, first - SNIPPET_CONTEXT);
+    end = Math.min(text.length, start + SNIPPET_LENGTH);
+  }
+  // terms are letters, digits, "_" and "-" only, so they need no escaping here
+  const pattern = new RegExp(terms.join("|"), "giu");
+  const out: Segment[] = start > 0 ? [{ text: "… ", hit: false }] : [];
+  const slice = text.slice(start, end);
+  let last = 0;
+  for (const match of slice.matchAll(pattern)) {
+    if (match.index > last) out.push({ text: slice.slice(last, match.index), hit: false });
+    out.push({ text: match[0], hit: true });
+    last = match.index + match[0].length;
+  }
+  if (last < slice.length) out.push({ text: slice.slice(last), hit: false });
+  if (end < text.length) out.push({ text: " …", hit: false });
+  return out;
+}
+
+function withSubstringHits(headline: string, text: string, terms: string[], excerpt: boolean) {
+  const segments = toSegments(headline);
+  if (segments.some((s) => s.hit)) return segments;
+  return markSubstrings(text, terms, excerpt) ?? segments;
+}
+
+type SearchRow = {
+  taskId: string;
+  source: "task" | "comment";
+  rank: number;
+  title: string;
+  snippet: string;
+  titleText: string;
+  snippetText: string;
+};
+
+export async function GET(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const parsed = SearchQuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_QUERY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const terms = toTerms(parsed.data.q);
+  if (terms.length === 0) return NextResponse.json({ results: [] });
+  const tsquery = toPrefixQuery(terms);
+  const inTitle = containsAll(terms, [`t."title"`]);
+  const inTask = containsAll(terms, [`t."title"`, `t."description"`]);
+  const inComment = containsAll(terms, [`c."body"`]);
+
+  // best hit per task: the card itself or its best-matching comment
+  const rows = await prisma.$queryRaw<SearchRow[]>(Prisma.sql`
+    WITH q AS (SELECT to_tsquery('simple', ${tsquery}) AS query),
+    hits AS (
+      SELECT t."id" AS "taskId",
+             'task' AS "source",
+             GREATEST(
+               ts_rank(t."searchVector", q.query),
+               CASE WHEN ${inTitle} THEN ${SUBSTRING_TITLE_RANK} WHEN ${inTask} THEN ${SUBSTRING_RANK} ELSE 0 END
+             ) AS "rank",
+             ts_headline('simple', t."title", q.query, ${TITLE_HEADLINE}) AS "title",
+             ts_headline('simple', coalesce(t."description", ''), q.query, ${SNIPPET_HEADLINE}) AS "snippet",
+             t."title" AS "titleText",
+             coalesce(t."description", '') AS "snippetText"
+      FROM "Task" t, q
+      WHERE t."projectId" = ${projectId} AND t."deletedAt" IS NULL AND t."archivedAt" IS NULL
+        AND (t."searchVector" @@ q.query OR ${inTask})
+      UNION ALL
+      SELECT c."taskId",
+             'comment',
+             GREATEST(
+               ts_rank(c."searchVector", q.query),
+               CASE WHEN ${inComment} THEN ${SUBSTRING_RANK} ELSE 0 END
+             ) * ${COMMENT_RANK_WEIGHT},
+             ts_headline('simple', t."title", q.query, ${TITLE_HEADLINE}),
+             ts_headline('simple', c."body", q.query, ${SNIPPET_HEADLINE}),
+             t."title",
+             c."body"
+      FROM "Comment" c JOIN "Task" t ON t."id" = c."taskId", q
+      WHERE t."projectId" = ${projectId} AND t."deletedAt" IS NULL AND t."archivedAt" IS NULL
+        AND (c."searchVector" @@ q.query OR ${inComment})
+    )
+    SELECT * FROM (
+      SELECT DISTINCT ON ("taskId") * FROM hits ORDER BY "taskId", "rank" DESC
+    ) best
+    ORDER BY "rank" DESC, "taskId"
+    LIMIT ${parsed.data.limit}
+  `);
+
+  return NextResponse.json({
+    results: rows.map((r) => ({
+      taskId: r.taskId,
+      source: r.source,
+      rank: Number(r.rank),
+      title: withSubstringHits(r.title, r.titleText, terms, false),
+      // a title-only hit on a card without description yields an empty snippet
+      snippet: withSubstringHits(r.snippet, r.snippetText, terms, true),
+    })),
+  });
+}
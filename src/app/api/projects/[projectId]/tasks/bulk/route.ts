@@ -0,0 +1,230 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { diffFields, recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import {
+  AUDIT_SELECT,
+  ON_BOARD,
+  TASK_SELECT,
+  auditFields,
+  purgeExpiredTrash,
+  rankAtEnd,
+  recordTaskTombstones,
+  toTaskPayload,
+} from "@/lib/tasks";
+import type { TaskPosition } from "@/lib/tasks";
+import { BulkTaskSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+/**
+ * Applies one change to many tasks at once. Every id must be a task on this
+ * project's board at the version the client sent; either all of them change
+ * or none do.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = BulkTaskSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+  const { action } = parsed.data;
+  const versions = new Map(parsed.data.tasks.map((t) => [t.id, t.version]));
+  const taskIds = [...versions.keys()];
+
+  const existing = await prisma.task.findMany({
+    where: { id: { in: taskIds }, projectId, ...ON_BOARD },
+    orderBy: [{ rank: "asc" }, { id: "asc" }],
+    select: { id: true, ...AUDIT_SELECT },
+  });
+  if (existing.length !== taskIds.length) {
+    return NextResponse.json({ error: "TASKS_NOT_IN_PROJECT" }, { status: 400 });
+  }
+
+  if (action.type === "move") {
+    const column = await prisma.boardColumn.findUnique({
+      where: { id: action.columnId },
+      select: { projectId: true },
+    });
+    if (column?.projectId !== projectId) {
+      return NextResponse.json({ error: "COLUMN_NOT_IN_PROJECT" }, { status: 400 });
+    }
+  }
+
+  if (action.type === "assign" && action.assigneeId) {
+    const pm = await prisma.projectMember.findUnique({
+      where: { projectId_memberId: { projectId, memberId: action.assigneeId } },
+      select: { memberId: true },
+    });
+    if (!pm) return NextResponse.json({ error: "ASSIGNEE_NOT_IN_PROJECT" }, { status: 400 });
+  }
+
+  const labelIds = action.type === "labels" ? [...new Set([...action.add, ...action.remove])] : [];
+  if (labelIds.length > 0) {
+    const count = await prisma.label.count({ where: { id: { in: labelIds }, projectId } });
+    if (count !== labelIds.length) {
+      return NextResponse.json({ error: "LABEL_NOT_IN_PROJECT" }, { status: 400 });
+    }
+  }
+
+  const deletedAt = new Date();
+  let rebalanced: TaskPosition[];
+  try {
+    rebalanced = await prisma.$transaction(async (tx) => {
+      // every write is re-checked against the client's versions and ON_BOARD;
+      // a card edited, trashed or archived since the client saw it aborts the whole batch
+      const guard = { OR: taskIds.map((id) => ({ id, version: versions.get(id) })), ...ON_BOARD };
+      const positions = new Map<string, TaskPosition>();
+      let count = taskIds.length;
+      switch (action.type) {
+        case "move":
+          // cards already in the target column aren't written, but a stale one still fails the batch
+          count = await tx.task.count({ where: guard });
+          if (count !== taskIds.length) break;
+          for (const t of existing) {
+            if (t.columnId === action.columnId) continue;
+            const slot = await rankAtEnd(tx, action.columnId);
+            for (const r of slot.rebalanced) positions.set(r.id, r);
+            const res = await tx.task.updateMany({
+              where: { id: t.id, version: versions.get(t.id), ...ON_BOARD },
+              data: { columnId: action.columnId, rank: slot.rank, version: { increment: 1 } },
+            });
+            if (res.count === 0) throw new Error("TASKS_CHANGED");
+          }
+          break;
+        case "assign":
+          ({ count } = await tx.task.updateMany({
+            where: guard,
+            data: { assigneeId: action.assigneeId, version: { increment: 1 } },
+          }));
+          break;
+        case "dueDate":
+          ({ count } = await tx.task.updateMany({
+            where: guard,
+            data: {
+              dueDate: action.dueDate ? new Date(action.dueDate) : null,
+              version: { increment: 1 },
+            },
+          }));
+          break;
+        case "labels":
+          ({ count } = await tx.task.updateMany({ where: guard, data: { version: { increment: 1 } } }));
+          if (action.remove.length > 0) {
+            await tx.taskLabel.deleteMany({
+              where: { taskId: { in: taskIds }, labelId: { in: action.remove } },
+            });
+          }
+          if (action.add.length > 0) {
+            await tx.taskLabel.createMany({
+              data: taskIds.flatMap((taskId) => action.add.map((labelId) => ({ taskId, labelId }))),
+              skipDuplicates: true,
+            });
+          }
+          break;
+        case "delete":
+          ({ count } = await tx.task.updateMany({
+            where: guard,
+            data: { deletedAt, deletedById: memberId, version: { increment: 1 } },
+          }));
+          await recordTaskTombstones(projectId, taskIds, tx);
+          break;
+      }
+      if (count !== taskIds.length) throw new Error("TASKS_CHANGED");
+      // cards moved by this batch are reported through `tasks`, not as respaced siblings
+      for (const id of taskIds) positions.delete(id);
+      return [...positions.values()];
+    });
+  } catch (e) {
+    if ((e as Error).message !== "TASKS_CHANGED") throw e;
+    const current = await prisma.task.findMany({
+      where: { id: { in: taskIds }, ...ON_BOARD },
+      orderBy: [{ rank: "asc" }, { id: "asc" }],
+      select: TASK_SELECT,
+    });
+    const changed = current.filter((t) => t.version !== versions.get(t.id));
+    return NextResponse.json({ error: "TASKS_CHANGED", tasks: changed.map(toTaskPayload) }, { status: 409 });
+  }
+
+  if (action.type === "delete") {
+    await recordActivity(
+      existing.map((t) => ({
+        projectId,
+        actorId: memberId,
+        action: "task.deleted" as const,
+        taskId: t.id,
+        taskTitle: t.title,
+        before: auditFields(t),
+      })),
+    );
+    await purgeExpiredTrash(projectId);
+    for (const id of taskIds) publishBoardEvent(projectId, { type: "task.deleted", taskId: id });
+    return NextResponse.json({ deleted: taskIds });
+  }
+
+  const rows = await prisma.task.findMany({
+    where: { id: { in: taskIds } },
+    orderBy: [{ rank: "asc" }, { id: "asc" }],
+    select: TASK_SELECT,
+  });
+  const tasks = rows.map(toTaskPayload);
+
+  // keep column names readable even after a column is renamed or deleted
+  const columns = await prisma.boardColumn.findMany({
+    where: { projectId },
+    select: { id: true, name: true },
+  });
+  const columnName = new Map(columns.map((c) => [c.id, c.name]));
+  const before = new Map(existing.map((t) => [t.id, t]));
+  await recordActivity(
+    rows.flatMap((row) => {
+      const prev = before.get(row.id)!;
+      const diff = diffFields(auditFields(prev), auditFields(row));
+      if (Object.keys(diff.after).length === 0) return [];
+      if (action.type === "move") {
+        diff.before.column = columnName.get(prev.columnId);
+        diff.after.column = columnName.get(row.columnId);
+      }
+      return [
+        {
+          projectId,
+          actorId: memberId,
+          action: action.type === "move" ? ("task.moved" as const) : ("task.updated" as const),
+          taskId: row.id,
+          taskTitle: row.title,
+          ...diff,
+        },
+      ];
+    }),
+  );
+
+  for (const task of tasks) publishBoardEvent(projectId, { type: "task.updated", task });
+  if (rebalanced.length > 0) publishBoardEvent(projectId, { type: "board.reordered", tasks: rebalanced });
+  return NextResponse.json({ tasks, rebalanced });
+}
@@ -0,0 +1,260 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { guardFormula, toCsv, unguardFormula } from "@/lib/csv";
+import { ON_BOARD, TASK_SELECT, ranksAtEnd, toTaskPayload } from "@/lib/tasks";
+import { CreateTaskSchema, CsvImportSchema, CsvRowSchema } from "@/lib/schemas";
+import type { TaskPosition } from "@/lib/tasks";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+const CSV_HEADER = ["title", "description", "status", "order", "due_date", "assignee", "creator"];
+
+/** The board as a spreadsheet: one row per card, columns in board order, cards top to bottom. */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const columns = await prisma.boardColumn.findMany({
+    where: { projectId },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    select: {
+      name: true,
+      tasks: {
+        where: ON_BOARD,
+        orderBy: [{ rank: "asc" }, { id: "asc" }],
+        select: {
+          title: true,
+          description: true,
+          dueDate: true,
+          assignee: { select: { displayName: true } },
+          creator: { select: { displayName: true } },
+        },
+      },
+    },
+  });
+
+  const rows = columns.flatMap((c) =>
+    c.tasks.map((t, i) => [
+      t.title,
+      t.description ?? "",
+      c.name,
+      String(i + 1),
+      // due dates are stored as UTC midnight of the chosen day
+      t.dueDate?.toISOString().slice(0, 10) ?? "",
+      t.assignee?.displayName ?? "",
+      t.creator.displayName,
+    ]),
+  );
+
+  // the BOM makes Excel read the file as UTF-8
+  const csv = "\uFEFF" + toCsv([CSV_HEADER, ...rows.map((r) => r.map(guardFormula))]);
+  const date = new Date().toISOString().slice(0, 10);
+  return new NextResponse(csv, {
+    headers: {
+      "content-type": "text/csv; charset=utf-8",
+      "content-disposition": `attachment; filename="tasks-${projectId}-${date}.csv"`,
+    },
+  });
+}
+
+type CsvField = keyof z.infer<typeof CsvRowSchema>;
+type RowError = { row: number; field: CsvField; error: string };
+
+// CreateTaskSchema keys back to the CSV fields they came from
+const FIELD_OF: Record<string, CsvField> = {
+  title: "title",
+  description: "description",
+  columnId: "status",
+  dueDate: "dueDate",
+  assigneeId: "assignee",
+};
+
+/** "2025-03-01", "2025/3/1" or a full ISO timestamp; null when blank, undefined when unreadable. */
+function parseDueDate(value: string): string | null | undefined {
+  if (!value) return null;
+  const m = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (m) {
+    const d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+    // Date.UTC rolls 2025-02-30 over into March; reject that instead
+    if (d.getUTCMonth() !== Number(m[2]) - 1 || d.getUTCDate() !== Number(m[3])) return undefined;
+    return d.toISOString();
+  }
+  return z.string().datetime({ offset: true }).safeParse(value).success
+    ? new Date(value).toISOString()
+    : undefined;
+}
+
+function normalizeName(s: string) {
+  return s.trim().normalize("NFKC").toLowerCase();
+}
+
+/**
+ * Creates tasks from spreadsheet rows, appended to the bottom of their columns
+ * in file order. Rows with errors are skipped and reported by index; the
+ * others are created together.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = CsvImportSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const columns = await prisma.boardColumn.findMany({
+    where: { projectId },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    select: { id: true, name: true },
+  });
+  const members = await prisma.projectMember.findMany({
+    where: { projectId },
+    select: { member: { select: { id: true, displayName: true } } },
+  });
+  const columnByName = new Map(columns.map((c) => [normalizeName(c.name), c.id]));
+  const membersByName = new Map<string, string[]>();
+  for (const { member } of members) {
+    const key = normalizeName(member.displayName);
+    membersByName.set(key, [...(membersByName.get(key) ?? []), member.id]);
+  }
+
+  const errors: RowError[] = [];
+  const valid: Array<{ row: number; data: z.infer<typeof CreateTaskSchema> & { columnId: string } }> = [];
+  parsed.data.rows.forEach((raw, row) => {
+    const cell = (f: CsvField) => unguardFormula(raw[f] ?? "").trim();
+    const rowErrors: RowError[] = [];
+
+    // a blank status lands in the first column, like a task created on the board
+    const status = cell("status");
+    const columnId = status ? columnByName.get(normalizeName(status)) : columns[0].id;
+    if (!columnId) rowErrors.push({ row, field: "status", error: "UNKNOWN_STATUS" });
+
+    const dueDate = parseDueDate(cell("dueDate"));
+    if (dueDate === undefined) rowErrors.push({ row, field: "dueDate", error: "INVALID_DATE" });
+
+    const assignee = cell("assignee");
+    const matches = assignee ? (membersByName.get(normalizeName(assignee)) ?? []) : [];
+    if (assignee && matches.length === 0) rowErrors.push({ row, field: "assignee", error: "UNKNOWN_ASSIGNEE" });
+    if (matches.length > 1) rowErrors.push({ row, field: "assignee", error: "AMBIGUOUS_ASSIGNEE" });
+
+    const task = CreateTaskSchema.safeParse({
+      title: cell("title"),
+      description: cell("description") || null,
+      columnId: columnId ?? undefined,
+      dueDate: dueDate ?? null,
+      assigneeId: matches.length === 1 ? matches[0] : null,
+    });
+    if (!task.success) {
+      for (const issue of task.error.issues) {
+        const field = FIELD_OF[String(issue.path[0])] ?? "title";
+        const error =
+          issue.code === "too_small" ? "REQUIRED" : issue.code === "too_big" ? "TOO_LONG" : "INVALID";
+        rowErrors.push({ row, field, error });
+      }
+    }
+
+    if (rowErrors.length > 0 || !task.success || !columnId) errors.push(...rowErrors);
+    else valid.push({ row, data: { ...task.data, columnId } });
+  });
+
+  if (parsed.data.dryRun || valid.length === 0) {
+    return NextResponse.json({ created: 0, valid: valid.length, errors });
+  }
+
+  const { rows, rebalanced } = await prisma.$transaction(
+    async (tx) => {
+      // ranks are allocated per column up front so a long import can't grow them past MAX_RANK_LENGTH
+      const perColumn = new Map<string, number>();
+      for (const { data } of valid) perColumn.set(data.columnId, (perColumn.get(data.columnId) ?? 0) + 1);
+      const pending = new Map<string, string[]>();
+      const rebalanced: TaskPosition[] = [];
+      for (const [columnId, count] of perColumn) {
+        const slots = await ranksAtEnd(tx, columnId, count);
+        rebalanced.push(...slots.rebalanced);
+        pending.set(columnId, slots.ranks);
+      }
+      const rows = [];
+      for (const { data } of valid) {
+        const rank = pending.get(data.columnId)!.shift()!;
+        rows.push(
+          await tx.task.create({
+            data: {
+              projectId,
+              title: data.title,
+              description: data.description ?? null,
+              columnId: data.columnId,
+              rank,
+              dueDate: data.dueDate ? new Date(data.dueDate) : null,
+              assigneeId: data.assigneeId ?? null,
+              creatorId: memberId,
+            },
+            select: TASK_SELECT,
+          }),
+        );
+      }
+      return { rows, rebalanced };
+    },
+    { timeout: 60_000 },
+  );
+  const tasks = rows.map(toTaskPayload);
+
+  await recordActivity(
+    tasks.map((task) => ({
+      projectId,
+      actorId: memberId,
+      action: "task.created" as const,
+      taskId: task.id,
+      taskTitle: task.title,
+      after: {
+        title: task.title,
+        description: task.description,
+        columnId: task.columnId,
+        dueDate: task.dueDate,
+        assigneeId: task.assigneeId,
+        labelIds: task.labelIds,
+        source: "csv",
+      },
+    })),
+  );
+  for (const task of tasks) publishBoardEvent(projectId, { type: "task.created", task });
+  if (rebalanced.length > 0) publishBoardEvent(projectId, { type: "board.reordered", tasks: rebalanced });
+
+  return NextResponse.json({ created: tasks.length, valid: valid.length, errors });
+}
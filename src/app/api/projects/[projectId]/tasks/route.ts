@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { z } from "zod";
 import { getPrisma } from "@/lib/prisma";
-import { getMemberIdOrThrow } from "@/lib/authless";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { TASK_SELECT, rankAtEnd, toTaskPayload } from "@/lib/tasks";
+import { CreateTaskSchema } from "@/lib/schemas";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -15,25 +18,17 @@ async function assertMemberInProject(projectId: string, memberId: string) {
   if (!pm) throw new Error("FORBIDDEN");
 }
 
-const CreateTaskSchema = z.object({
-  title: z.string().trim().min(1).max(120),
-  description: z.string().trim().max(2000).optional().nullable(),
-  status: z.enum(["TODO", "DOING", "DONE"]).optional(),
-  dueDate: z.string().datetime().optional().nullable(),
-  assigneeId: z.string().min(1).optional().nullable(),
-});
-
 export async function POST(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
   const { projectId } = await ctx.params;
   const prisma = getPrisma();
 
   let memberId = "";
   try {
-    memberId = getMemberIdOrThrow(req);
+    memberId = await getMemberIdOrThrow(req);
     await assertMemberInProject(projectId, memberId);
   } catch (e) {
     const code = (e as Error).message;
-    const status = code === "MISSING_MEMBER_ID" ? 401 : 403;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
     return NextResponse.json({ error: code }, { status });
   }
 
@@ -46,7 +41,14 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ projectId:
     );
   }
 
-  const status = parsed.data.status ?? "TODO";
+  const column = await prisma.boardColumn.findFirst({
+    where: parsed.data.columnId ? { id: parsed.data.columnId, projectId } : { projectId },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    select: { id: true },
+  });
+  if (!column) return NextResponse.json({ error: "COLUMN_NOT_IN_PROJECT" }, { status: 400 });
+  const columnId = column.id;
+
   const dueDate = parsed.data.dueDate ? new Date(parsed.data.dueDate) : null;
   const assigneeId = parsed.data.assigneeId ?? null;
 
@@ -58,37 +60,52 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ projectId:
     if (!pm) return NextResponse.json({ error: "ASSIGNEE_NOT_IN_PROJECT" }, { status: 400 });
   }
 
-  const maxOrder = await prisma.task.aggregate({
-    where: { projectId, status },
-    _max: { order: true },
+  const labelIds = [...new Set(parsed.data.labelIds ?? [])];
+  if (labelIds.length > 0) {
+    const count = await prisma.label.count({ where: { id: { in: labelIds }, projectId } });
+    if (count !== labelIds.length) {
+      return NextResponse.json({ error: "LABEL_NOT_IN_PROJECT" }, { status: 400 });
+    }
+  }
+
+  // new cards go to the bottom of their column
+  const { row, rebalanced } = await prisma.$transaction(async (tx) => {
+    const slot = await rankAtEnd(tx, columnId);
+    const row = await tx.task.create({
+      data: {
+        projectId,
+        title: parsed.data.title,
+        description: parsed.data.description ?? null,
+        columnId,
+        rank: slot.rank,
+        dueDate,
+        assigneeId,
+        creatorId: memberId,
+        labels: { create: labelIds.map((labelId) => ({ labelId })) },
+      },
+      select: TASK_SELECT,
+    });
+    return { row, rebalanced: slot.rebalanced };
   });
-  const order = (maxOrder._max.order ?? -1) + 1;
+  const task = toTaskPayload(row);
 
-  const task = await prisma.task.create({
-    data: {
-      projectId,
-      title: parsed.data.title,
-      description: parsed.data.description ?? null,
-      status,
-      order,
-      dueDate,
-      assigneeId,
-      creatorId: memberId,
-    },
-    select: {
-      id: true,
-      title: true,
-      description: true,
-      status: true,
-      order: true,
-      dueDate: true,
-      assigneeId: true,
-      creatorId: true,
-      updatedAt: true,
-      createdAt: true,
+  await recordActivity({
+    projectId,
+    actorId: memberId,
+    action: "task.created",
+    taskId: task.id,
+    taskTitle: task.title,
+    after: {
+      title: task.title,
+      description: task.description,
+      columnId: task.columnId,
+      dueDate: task.dueDate,
+      assigneeId: task.assigneeId,
+      labelIds: task.labelIds,
     },
   });
-
-  return NextResponse.json({ task });
+  publishBoardEvent(projectId, { type: "task.created", task });
+  if (rebalanced.length > 0) publishBoardEvent(projectId, { type: "board.reordered", tasks: rebalanced });
+  return NextResponse.json({ task, rebalanced });
 }
 
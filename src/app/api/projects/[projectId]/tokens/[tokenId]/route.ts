@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ projectId: string; tokenId: string }> };
+
+// Revokes the token; scripts using it get 401 from then on. Works after leaving the project too.
+export async function DELETE(req: NextRequest, ctx: Params) {
+  const { projectId, tokenId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req, { sessionOnly: true });
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const res = await prisma.apiToken.deleteMany({ where: { id: tokenId, projectId, memberId } });
+  if (res.count === 0) return NextResponse.json({ error: "TOKEN_NOT_FOUND" }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
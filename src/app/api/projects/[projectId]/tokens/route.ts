@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { createApiToken, getMemberIdOrThrow } from "@/lib/session";
+import { CreateApiTokenSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+const TOKEN_SELECT = {
+  id: true,
+  name: true,
+  readOnly: true,
+  lastUsedAt: true,
+  createdAt: true,
+} satisfies Prisma.ApiTokenSelect;
+
+const MAX_TOKENS = 20;
+
+/** The caller's tokens for this project. Managing tokens needs a browser session, not a token. */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req, { sessionOnly: true });
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const tokens = await prisma.apiToken.findMany({
+    where: { projectId, memberId },
+    orderBy: { createdAt: "desc" },
+    select: TOKEN_SELECT,
+  });
+  return NextResponse.json({ tokens });
+}
+
+/** Issues a token acting as the caller within this project; the raw token is in this response only. */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req, { sessionOnly: true });
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = CreateApiTokenSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const count = await prisma.apiToken.count({ where: { projectId, memberId } });
+  if (count >= MAX_TOKENS) return NextResponse.json({ error: "TOO_MANY_TOKENS" }, { status: 409 });
+
+  const { id, token } = await createApiToken({ memberId, projectId, ...parsed.data });
+  const apiToken = await prisma.apiToken.findUniqueOrThrow({ where: { id }, select: TOKEN_SELECT });
+
+  return NextResponse.json({ apiToken, token });
+}
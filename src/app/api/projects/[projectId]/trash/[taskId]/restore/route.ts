@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { BOARD_TASK_SELECT, toBoardTaskPayload } from "@/lib/tasks";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+type Params = { params: Promise<{ projectId: string; taskId: string }> };
+
+/** Takes a task out of the trash and puts it back into its column. */
+export async function POST(req: NextRequest, ctx: Params) {
+  const { projectId, taskId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const existing = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { projectId: true, columnId: true, deletedAt: true },
+  });
+  if (!existing || existing.projectId !== projectId) {
+    return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+  }
+  if (!existing.deletedAt) {
+    return NextResponse.json({ error: "TASK_NOT_IN_TRASH" }, { status: 409 });
+  }
+  const { columnId } = existing;
+
+  // the task keeps its rank, so it lands back between its old neighbours
+  // (or wherever that rank now sorts) without touching any other card
+  const restored = await prisma.task.updateMany({
+    where: { id: taskId, deletedAt: { not: null } },
+    data: { deletedAt: null, deletedById: null, version: { increment: 1 } },
+  });
+  if (restored.count === 0) {
+    return NextResponse.json({ error: "TASK_NOT_IN_TRASH" }, { status: 409 });
+  }
+
+  const { column, ...row } = await prisma.task.findUniqueOrThrow({
+    where: { id: taskId },
+    select: { ...BOARD_TASK_SELECT, column: { select: { name: true } } },
+  });
+  const task = toBoardTaskPayload(row);
+
+  await recordActivity({
+    projectId,
+    actorId: memberId,
+    action: "task.restored",
+    taskId,
+    taskTitle: task.title,
+    after: { columnId, column: column.name },
+  });
+
+  // to other clients a restored card looks like a new one
+  publishBoardEvent(projectId, { type: "task.created", task });
+
+  return NextResponse.json({ task });
+}
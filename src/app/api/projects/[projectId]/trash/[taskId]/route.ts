@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { recordActivity } from "@/lib/activity";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+type Params = { params: Promise<{ projectId: string; taskId: string }> };
+
+/** Deletes a trashed task for good. Live tasks have to be moved to the trash first. */
+export async function DELETE(req: NextRequest, ctx: Params) {
+  const { projectId, taskId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const existing = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { projectId: true, title: true, deletedAt: true },
+  });
+  if (!existing || existing.projectId !== projectId) return NextResponse.json({ ok: true });
+  if (!existing.deletedAt) {
+    return NextResponse.json({ error: "TASK_NOT_IN_TRASH" }, { status: 409 });
+  }
+
+  // a concurrent restore wins; comments, checklist and labels go with the row (onDelete: Cascade)
+  const deleted = await prisma.task.deleteMany({ where: { id: taskId, deletedAt: { not: null } } });
+  if (deleted.count === 0) {
+    return NextResponse.json({ error: "TASK_NOT_IN_TRASH" }, { status: 409 });
+  }
+
+  await recordActivity({
+    projectId,
+    actorId: memberId,
+    action: "task.purged",
+    taskId,
+    taskTitle: existing.title,
+  });
+
+  return NextResponse.json({ ok: true });
+}
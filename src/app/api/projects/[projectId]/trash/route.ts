@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { TASK_SELECT, TRASH_RETENTION_MS, purgeExpiredTrash, toTaskPayload } from "@/lib/tasks";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+export async function GET(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    await assertMemberInProject(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  // purging is lazy: expired rows go whenever somebody looks at the trash or deletes
+  await purgeExpiredTrash(projectId);
+
+  const tasks = await prisma.task.findMany({
+    where: { projectId, deletedAt: { not: null } },
+    orderBy: { deletedAt: "desc" },
+    select: {
+      ...TASK_SELECT,
+      deletedAt: true,
+      deletedBy: { select: { id: true, displayName: true } },
+    },
+  });
+
+  return NextResponse.json({
+    retentionDays: TRASH_RETENTION_MS / (24 * 60 * 60 * 1000),
+    tasks: tasks.map(({ deletedAt, deletedBy, ...t }) => ({
+      ...toTaskPayload(t),
+      deletedAt,
+      deletedBy,
+      purgeAt: deletedAt && new Date(deletedAt.getTime() + TRASH_RETENTION_MS),
+    })),
+  });
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ProjectRole } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { startSweep } from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function getRoleOrThrow(projectId: string, memberId: string): Promise<ProjectRole> {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { role: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+  return pm.role;
+}
+
+type Params = { params: Promise<{ projectId: string; webhookId: string; deliveryId: string }> };
+
+/**
+ * Sends a logged delivery again as a new delivery with the same payload (and
+ * event id), keeping the original's record intact.
+ */
+export async function POST(req: NextRequest, ctx: Params) {
+  const { projectId, webhookId, deliveryId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let role: ProjectRole;
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    role = await getRoleOrThrow(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+  if (role !== "OWNER") return NextResponse.json({ error: "OWNER_ONLY" }, { status: 403 });
+
+  const original = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    select: { webhookId: true, event: true, payload: true, webhook: { select: { projectId: true } } },
+  });
+  if (!original || original.webhookId !== webhookId || original.webhook.projectId !== projectId) {
+    return NextResponse.json({ error: "DELIVERY_NOT_FOUND" }, { status: 404 });
+  }
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: { webhookId, event: original.event, payload: original.payload ?? {} },
+    select: { id: true },
+  });
+  startSweep();
+
+  return NextResponse.json({ deliveryId: delivery.id });
+}
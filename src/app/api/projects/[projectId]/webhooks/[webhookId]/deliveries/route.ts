@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ProjectRole } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { MAX_ATTEMPTS, startSweep } from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function getRoleOrThrow(projectId: string, memberId: string): Promise<ProjectRole> {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { role: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+  return pm.role;
+}
+
+type Params = { params: Promise<{ projectId: string; webhookId: string }> };
+
+/** The delivery log, newest first. Payloads are included so owners can see exactly what was sent. */
+export async function GET(req: NextRequest, ctx: Params) {
+  const { projectId, webhookId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let role: ProjectRole;
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    role = await getRoleOrThrow(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+  if (role !== "OWNER") return NextResponse.json({ error: "OWNER_ONLY" }, { status: 403 });
+
+  const webhook = await prisma.webhook.findUnique({ where: { id: webhookId }, select: { projectId: true } });
+  if (!webhook || webhook.projectId !== projectId) {
+    return NextResponse.json({ error: "WEBHOOK_NOT_FOUND" }, { status: 404 });
+  }
+
+  // an owner watching the log is a good moment to send anything overdue
+  startSweep();
+
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: { webhookId },
+    orderBy: { createdAt: "desc" },
+    take: 50,
+    select: {
+      id: true,
+      event: true,
+      payload: true,
+      status: true,
+      attempts: true,
+      nextAttemptAt: true,
+      responseStatus: true,
+      error: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+  return NextResponse.json({ deliveries, maxAttempts: MAX_ATTEMPTS });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ProjectRole } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { queuePing } from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function getRoleOrThrow(projectId: string, memberId: string): Promise<ProjectRole> {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { role: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+  return pm.role;
+}
+
+type Params = { params: Promise<{ projectId: string; webhookId: string }> };
+
+/** Sends a `ping` event; the outcome shows up in the delivery log like any other delivery. */
+export async function POST(req: NextRequest, ctx: Params) {
+  const { projectId, webhookId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let role: ProjectRole;
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    role = await getRoleOrThrow(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+  if (role !== "OWNER") return NextResponse.json({ error: "OWNER_ONLY" }, { status: 403 });
+
+  const webhook = await prisma.webhook.findUnique({
+    where: { id: webhookId },
+    select: { projectId: true, project: { select: { id: true, name: true } } },
+  });
+  if (!webhook || webhook.projectId !== projectId) {
+    return NextResponse.json({ error: "WEBHOOK_NOT_FOUND" }, { status: 404 });
+  }
+
+  const delivery = await queuePing(webhookId, webhook.project);
+  return NextResponse.json({ deliveryId: delivery.id });
+}
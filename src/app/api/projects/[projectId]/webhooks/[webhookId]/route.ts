@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ProjectRole } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { assertWebhookUrlAllowed } from "@/lib/webhookTarget";
+import { WEBHOOK_SELECT, generateWebhookSecret, toWebhookPayload } from "@/lib/webhooks";
+import { PatchWebhookSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function getRoleOrThrow(projectId: string, memberId: string): Promise<ProjectRole> {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { role: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+  return pm.role;
+}
+
+type Params = { params: Promise<{ projectId: string; webhookId: string }> };
+
+export async function PATCH(req: NextRequest, ctx: Params) {
+  const { projectId, webhookId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let role: ProjectRole;
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    role = await getRoleOrThrow(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+  if (role !== "OWNER") return NextResponse.json({ error: "OWNER_ONLY" }, { status: 403 });
+
+  const json = await req.json().catch(() => null);
+  const parsed = PatchWebhookSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const existing = await prisma.webhook.findUnique({ where: { id: webhookId }, select: { projectId: true } });
+  if (!existing || existing.projectId !== projectId) {
+    return NextResponse.json({ error: "WEBHOOK_NOT_FOUND" }, { status: 404 });
+  }
+
+  const { url, events, active, rotateSecret } = parsed.data;
+  if (url) {
+    try {
+      await assertWebhookUrlAllowed(url);
+    } catch (e) {
+      return NextResponse.json({ error: (e as Error).message }, { status: 400 });
+    }
+  }
+  const secret = rotateSecret ? generateWebhookSecret() : undefined;
+  const webhook = await prisma.webhook.update({
+    where: { id: webhookId },
+    data: { url, events: events ? [...new Set(events)] : undefined, active, secret },
+    select: WEBHOOK_SELECT,
+  });
+
+  return NextResponse.json({ webhook: toWebhookPayload(webhook), ...(secret ? { secret } : {}) });
+}
+
+// Deletes the webhook together with its delivery log.
+export async function DELETE(req: NextRequest, ctx: Params) {
+  const { projectId, webhookId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let role: ProjectRole;
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    role = await getRoleOrThrow(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+  if (role !== "OWNER") return NextResponse.json({ error: "OWNER_ONLY" }, { status: 403 });
+
+  const res = await prisma.webhook.deleteMany({ where: { id: webhookId, projectId } });
+  if (res.count === 0) return NextResponse.json({ error: "WEBHOOK_NOT_FOUND" }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
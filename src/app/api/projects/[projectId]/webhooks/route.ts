@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ProjectRole } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { assertWebhookUrlAllowed } from "@/lib/webhookTarget";
+import { WEBHOOK_SELECT, generateWebhookSecret, toWebhookPayload } from "@/lib/webhooks";
+import { CreateWebhookSchema, WEBHOOK_EVENTS } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function getRoleOrThrow(projectId: string, memberId: string): Promise<ProjectRole> {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { role: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+  return pm.role;
+}
+
+const MAX_WEBHOOKS = 10;
+
+export async function GET(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let role: ProjectRole;
+  try {
+    const memberId = await getMemberIdOrThrow(req);
+    role = await getRoleOrThrow(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+  if (role !== "OWNER") return NextResponse.json({ error: "OWNER_ONLY" }, { status: 403 });
+
+  const webhooks = await prisma.webhook.findMany({
+    where: { projectId },
+    orderBy: { createdAt: "asc" },
+    select: WEBHOOK_SELECT,
+  });
+  return NextResponse.json({ webhooks: webhooks.map(toWebhookPayload), events: WEBHOOK_EVENTS });
+}
+
+/** Adds a webhook. The secret is in this response only; receivers need it to verify signatures. */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  let role: ProjectRole;
+  try {
+    memberId = await getMemberIdOrThrow(req);
+    role = await getRoleOrThrow(projectId, memberId);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+  if (role !== "OWNER") return NextResponse.json({ error: "OWNER_ONLY" }, { status: 403 });
+
+  const json = await req.json().catch(() => null);
+  const parsed = CreateWebhookSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await assertWebhookUrlAllowed(parsed.data.url);
+  } catch (e) {
+    return NextResponse.json({ error: (e as Error).message }, { status: 400 });
+  }
+
+  const count = await prisma.webhook.count({ where: { projectId } });
+  if (count >= MAX_WEBHOOKS) return NextResponse.json({ error: "TOO_MANY_WEBHOOKS" }, { status: 409 });
+
+  const secret = parsed.data.secret ?? generateWebhookSecret();
+  const webhook = await prisma.webhook.create({
+    data: {
+      projectId,
+      url: parsed.data.url,
+      events: [...new Set(parsed.data.events)],
+      secret,
+      createdById: memberId,
+    },
+    select: WEBHOOK_SELECT,
+  });
+
+  return NextResponse.json({ webhook: toWebhookPayload(webhook), secret });
+}
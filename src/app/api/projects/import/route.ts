@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { createInvite } from "@/lib/invite";
+import { recordActivity } from "@/lib/activity";
+import { describeIssues, importProject } from "@/lib/projectExport";
+import { createSession, getOptionalMemberId, setSessionCookie } from "@/lib/session";
+import { ImportProjectSchema, ProjectExportSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** Creates a new project from an export document; the caller becomes its owner. */
+export async function POST(req: NextRequest) {
+  const prisma = getPrisma();
+  const json = await req.json().catch(() => null);
+  const parsed = ImportProjectSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const doc = ProjectExportSchema.safeParse(parsed.data.document);
+  if (!doc.success) {
+    return NextResponse.json(
+      { error: "INVALID_EXPORT", issues: describeIssues(doc.error) },
+      { status: 400 },
+    );
+  }
+
+  // same identity rules as creating a project from scratch
+  const sessionMemberId = await getOptionalMemberId(req);
+  const existing = sessionMemberId
+    ? await prisma.member.findUnique({
+        where: { id: sessionMemberId },
+        select: { id: true, displayName: true },
+      })
+    : null;
+  let member = existing;
+  if (!member) {
+    if (!parsed.data.displayName) {
+      return NextResponse.json({ error: "DISPLAY_NAME_REQUIRED" }, { status: 400 });
+    }
+    member = await prisma.member.create({
+      data: { displayName: parsed.data.displayName },
+      select: { id: true, displayName: true },
+    });
+  }
+
+  const { projectId, summary } = await importProject(doc.data, member.id, parsed.data.projectName);
+  const project = await prisma.project.findUniqueOrThrow({
+    where: { id: projectId },
+    select: { id: true, name: true },
+  });
+
+  const invite = await createInvite({ projectId, createdById: member.id });
+  if (!invite) {
+    await prisma.project.delete({ where: { id: projectId }, select: { id: true } });
+    return NextResponse.json({ error: "INVITE_CODE_GENERATION_FAILED" }, { status: 500 });
+  }
+
+  await recordActivity({
+    projectId,
+    actorId: member.id,
+    action: "project.created",
+    after: { name: project.name, importedFrom: doc.data.project.name, ...summary },
+  });
+
+  const res = NextResponse.json({ project: { ...project, inviteCode: invite.code }, member, summary });
+  if (existing) return res;
+  return setSessionCookie(res, await createSession(member.id));
+}
@@ -0,0 +1,92 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { createInvite } from "@/lib/invite";
+import { recordActivity } from "@/lib/activity";
+import { describeIssues, importProject } from "@/lib/projectExport";
+import { TrelloBoardSchema, trelloToExport } from "@/lib/trelloImport";
+import { createSession, getOptionalMemberId, setSessionCookie } from "@/lib/session";
+import { ImportTrelloSchema, ProjectExportSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Creates a new project from a Trello board export; the caller becomes its
+ * owner and Trello members become placeholders. The summary lists what
+ * couldn't be carried over.
+ */
+export async function POST(req: NextRequest) {
+  const prisma = getPrisma();
+  const json = await req.json().catch(() => null);
+  const parsed = ImportTrelloSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const board = TrelloBoardSchema.safeParse(parsed.data.board);
+  if (!board.success) {
+    return NextResponse.json(
+      { error: "INVALID_TRELLO_EXPORT", issues: describeIssues(board.error) },
+      { status: 400 },
+    );
+  }
+
+  // same identity rules as creating a project from scratch
+  const sessionMemberId = await getOptionalMemberId(req);
+  const existing = sessionMemberId
+    ? await prisma.member.findUnique({
+        where: { id: sessionMemberId },
+        select: { id: true, displayName: true },
+      })
+    : null;
+  if (!existing && !parsed.data.displayName) {
+    return NextResponse.json({ error: "DISPLAY_NAME_REQUIRED" }, { status: 400 });
+  }
+  // a new member's id is chosen up front so nothing is created for a board we then reject
+  const owner = existing ?? { id: randomUUID(), displayName: parsed.data.displayName! };
+
+  const { doc, unmapped } = trelloToExport(board.data, owner);
+  // boards past our limits (tasks, members, ...) fail here
+  const checked = ProjectExportSchema.safeParse(doc);
+  if (!checked.success) {
+    return NextResponse.json(
+      { error: "INVALID_TRELLO_EXPORT", issues: describeIssues(checked.error) },
+      { status: 400 },
+    );
+  }
+
+  const member =
+    existing ??
+    (await prisma.member.create({ data: owner, select: { id: true, displayName: true } }));
+
+  const { projectId, summary } = await importProject(checked.data, member.id, parsed.data.projectName);
+  const project = await prisma.project.findUniqueOrThrow({
+    where: { id: projectId },
+    select: { id: true, name: true },
+  });
+
+  const invite = await createInvite({ projectId, createdById: member.id });
+  if (!invite) {
+    await prisma.project.delete({ where: { id: projectId }, select: { id: true } });
+    return NextResponse.json({ error: "INVITE_CODE_GENERATION_FAILED" }, { status: 500 });
+  }
+
+  await recordActivity({
+    projectId,
+    actorId: member.id,
+    action: "project.created",
+    after: { name: project.name, importedFrom: board.data.name, source: "trello", ...summary },
+  });
+
+  const res = NextResponse.json({
+    project: { ...project, inviteCode: invite.code },
+    member,
+    summary: { ...summary, unmapped },
+  });
+  if (existing) return res;
+  return setSessionCookie(res, await createSession(member.id));
+}
@@ -1,16 +1,29 @@
-import { NextResponse } from "next/server";
-import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
 import { getPrisma } from "@/lib/prisma";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { getActiveInvite, inviteStatus } from "@/lib/invite";
+import { createSession, getOptionalMemberId, setSessionCookie } from "@/lib/session";
+import { JoinProjectSchema } from "@/lib/schemas";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
-const JoinProjectSchema = z.object({
-  inviteCode: z.string().trim().min(4).max(32).transform((s) => s.toUpperCase()),
-  displayName: z.string().trim().min(1).max(40),
-});
+// claims a use atomically, since a concurrent join may have taken the last one; throwing rolls the join back
+async function claimInviteUse(tx: Prisma.TransactionClient, inviteId: string) {
+  const claimed = await tx.invite.updateMany({
+    where: {
+      id: inviteId,
+      revokedAt: null,
+      OR: [{ maxUses: null }, { useCount: { lt: tx.invite.fields.maxUses } }],
+    },
+    data: { useCount: { increment: 1 } },
+  });
+  if (claimed.count === 0) throw new Error("INVITE_EXHAUSTED");
+}
 
-export async function POST(req: Request) {
+export async function POST(req: NextRequest) {
   const prisma = getPrisma();
   const json = await req.json().catch(() => null);
   const parsed = JoinProjectSchema.safeParse(json);
@@ -23,28 +36,102 @@ export async function POST(req: Request) {
 
   const { inviteCode, displayName } = parsed.data;
 
-  const project = await prisma.project.findUnique({
-    where: { inviteCode },
-    select: { id: true, name: true, inviteCode: true },
+  const invite = await prisma.invite.findUnique({
+    where: { code: inviteCode },
+    select: {
+      id: true,
+      expiresAt: true,
+      maxUses: true,
+      useCount: true,
+      revokedAt: true,
+      project: { select: { id: true, name: true } },
+    },
   });
 
-  if (!project) {
-    return NextResponse.json({ error: "PROJECT_NOT_FOUND" }, { status: 404 });
+  if (!invite) {
+    return NextResponse.json({ error: "INVITE_NOT_FOUND" }, { status: 404 });
   }
+  const status = inviteStatus(invite);
+  if (status !== "ACTIVE") {
+    return NextResponse.json({ error: `INVITE_${status}` }, { status: 410 });
+  }
+  const project = { ...invite.project, inviteCode };
 
-  const member = await prisma.member.create({
-    data: {
-      displayName,
-      projects: {
-        create: {
-          projectId: project.id,
-          role: "MEMBER",
+  const sessionMemberId = await getOptionalMemberId(req);
+  const existing = sessionMemberId
+    ? await prisma.member.findUnique({
+        where: { id: sessionMemberId },
+        select: {
+          id: true,
+          displayName: true,
+          projects: { where: { projectId: project.id }, select: { role: true } },
         },
-      },
-    },
-    select: { id: true, displayName: true },
+      })
+    : null;
+  if (existing && existing.projects.length > 0) {
+    // already in: just open the board without using up the invite
+    return NextResponse.json({ project, member: { id: existing.id, displayName: existing.displayName } });
+  }
+  if (!existing && !displayName) {
+    return NextResponse.json({ error: "DISPLAY_NAME_REQUIRED" }, { status: 400 });
+  }
+
+  let result;
+  try {
+    result = await prisma.$transaction(async (tx) => {
+      if (existing) {
+        const member = { id: existing.id, displayName: existing.displayName };
+        // a concurrent join by the same member waits on this row and then skips it, so the
+        // second request answers like "already in" and only the first uses up the invite
+        const added = await tx.projectMember.createMany({
+          data: [{ projectId: project.id, memberId: existing.id, role: "MEMBER" }],
+          skipDuplicates: true,
+        });
+        if (added.count === 0) return { member, added: false };
+        await claimInviteUse(tx, invite.id);
+        return { member, added: true };
+      }
+      await claimInviteUse(tx, invite.id);
+      const member = await tx.member.create({
+        data: {
+          displayName: displayName ?? "",
+          projects: {
+            create: {
+              projectId: project.id,
+              role: "MEMBER",
+            },
+          },
+        },
+        select: { id: true, displayName: true },
+      });
+      return { member, added: true };
+    });
+  } catch (e) {
+    if ((e as Error).message === "INVITE_EXHAUSTED") {
+      return NextResponse.json({ error: "INVITE_EXHAUSTED" }, { status: 410 });
+    }
+    throw e;
+  }
+  const { member } = result;
+  if (!result.added) return NextResponse.json({ project, member });
+
+  await recordActivity({
+    projectId: project.id,
+    actorId: member.id,
+    action: "member.joined",
+    after: { displayName: member.displayName, role: "MEMBER" },
+  });
+  publishBoardEvent(project.id, {
+    type: "member.joined",
+    member: { ...member, role: "MEMBER" },
   });
+  if (invite.maxUses !== null) {
+    // this join may have used up the code the board is showing
+    publishBoardEvent(project.id, { type: "invite.changed", invite: await getActiveInvite(project.id) });
+  }
 
-  return NextResponse.json({ project, member });
+  const res = NextResponse.json({ project, member });
+  if (existing) return res;
+  return setSessionCookie(res, await createSession(member.id));
 }
 
@@ -1,17 +1,20 @@
-import { NextResponse } from "next/server";
-import { z } from "zod";
+import { NextRequest, NextResponse } from "next/server";
 import { getPrisma } from "@/lib/prisma";
-import { generateInviteCode } from "@/lib/invite";
+import { createInvite } from "@/lib/invite";
+import { recordActivity } from "@/lib/activity";
+import { createSession, getOptionalMemberId, setSessionCookie } from "@/lib/session";
+import { CreateProjectSchema } from "@/lib/schemas";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
-const CreateProjectSchema = z.object({
-  projectName: z.string().trim().min(1).max(80),
-  displayName: z.string().trim().min(1).max(40),
-});
+const DEFAULT_COLUMNS = [
+  { name: "ToDo", color: "#71717a", position: 0 },
+  { name: "Doing", color: "#f59e0b", position: 1 },
+  { name: "Done", color: "#10b981", position: 2 },
+];
 
-export async function POST(req: Request) {
+export async function POST(req: NextRequest) {
   const prisma = getPrisma();
   const json = await req.json().catch(() => null);
   const parsed = CreateProjectSchema.safeParse(json);
@@ -24,41 +27,56 @@ export async function POST(req: Request) {
 
   const { projectName, displayName } = parsed.data;
 
-  const member = await prisma.member.create({
-    data: { displayName },
-    select: { id: true, displayName: true },
-  });
-
-  // generate unique invite code (retry on collision)
-  let project:
-    | { id: string; name: string; inviteCode: string }
-    | undefined = undefined;
-  for (let attempt = 0; attempt < 8; attempt++) {
-    try {
-      project = await prisma.project.create({
-        data: {
-          name: projectName,
-          inviteCode: generateInviteCode(),
-          members: {
-            create: {
-              memberId: member.id,
-              role: "OWNER",
-            },
-          },
-        },
-        select: { id: true, name: true, inviteCode: true },
-      });
-      break;
-    } catch {
-      // inviteCode unique collision → retry
-      continue;
+  // a signed-in browser keeps its identity and gains another membership
+  const sessionMemberId = await getOptionalMemberId(req);
+  const existing = sessionMemberId
+    ? await prisma.member.findUnique({
+        where: { id: sessionMemberId },
+        select: { id: true, displayName: true },
+      })
+    : null;
+  let member = existing;
+  if (!member) {
+    if (!displayName) {
+      return NextResponse.json({ error: "DISPLAY_NAME_REQUIRED" }, { status: 400 });
     }
+    member = await prisma.member.create({
+      data: { displayName },
+      select: { id: true, displayName: true },
+    });
   }
 
-  if (!project) {
+  const project = await prisma.project.create({
+    data: {
+      name: projectName,
+      members: {
+        create: {
+          memberId: member.id,
+          role: "OWNER",
+        },
+      },
+      columns: { create: DEFAULT_COLUMNS },
+    },
+    select: { id: true, name: true },
+  });
+
+  // the first invite has no limits; owners can replace it from the board
+  const invite = await createInvite({ projectId: project.id, createdById: member.id });
+  if (!invite) {
+    await prisma.project.delete({ where: { id: project.id }, select: { id: true } });
     return NextResponse.json({ error: "INVITE_CODE_GENERATION_FAILED" }, { status: 500 });
   }
 
-  return NextResponse.json({ project, member });
+  await recordActivity({
+    projectId: project.id,
+    actorId: member.id,
+    action: "project.created",
+    after: { name: project.name },
+  });
+
+  const res = NextResponse.json({ project: { ...project, inviteCode: invite.code }, member });
+  if (existing) return res;
+  // creating a project signs a new browser in as its owner
+  return setSessionCookie(res, await createSession(member.id));
 }
 
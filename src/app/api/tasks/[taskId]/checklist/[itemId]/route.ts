@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { diffFields, recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { ON_BOARD, touchTask } from "@/lib/tasks";
+import { PatchChecklistItemSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+async function summarize(taskId: string) {
+  const prisma = getPrisma();
+  const [done, total] = await Promise.all([
+    prisma.checklistItem.count({ where: { taskId, done: true } }),
+    prisma.checklistItem.count({ where: { taskId } }),
+  ]);
+  return { done, total };
+}
+
+type Params = { params: Promise<{ taskId: string; itemId: string }> };
+
+/** `task` is null unless it is on the board; `item` is null unless it is on that task. */
+async function loadItem(taskId: string, itemId: string) {
+  const prisma = getPrisma();
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, ...ON_BOARD },
+    select: { projectId: true, title: true },
+  });
+  if (!task) return { task: null, item: null };
+  const item = await prisma.checklistItem.findFirst({
+    where: { id: itemId, taskId },
+    select: { id: true, body: true, done: true },
+  });
+  return { task, item };
+}
+
+export async function PATCH(req: NextRequest, ctx: Params) {
+  const { taskId, itemId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = PatchChecklistItemSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { task, item: existing } = await loadItem(taskId, itemId);
+  if (!task) return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+  if (!existing) return NextResponse.json({ error: "CHECKLIST_ITEM_NOT_FOUND" }, { status: 404 });
+
+  try {
+    await assertMemberInProject(task.projectId, memberId);
+  } catch {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+
+  const item = await prisma.checklistItem.update({
+    where: { id: itemId },
+    data: parsed.data,
+    select: { id: true, body: true, done: true, position: true },
+  });
+
+  const diff = diffFields(
+    { body: existing.body, done: existing.done },
+    { body: item.body, done: item.done },
+  );
+  if (Object.keys(diff.after).length > 0) {
+    await recordActivity({
+      projectId: task.projectId,
+      actorId: memberId,
+      action: "checklist.updated",
+      taskId,
+      taskTitle: task.title,
+      // keep the item text even when only `done` changed so the log stays readable
+      before: { ...diff.before, item: existing.body },
+      after: diff.after,
+    });
+  }
+  await touchTask(taskId);
+  const checklist = await summarize(taskId);
+  publishBoardEvent(task.projectId, { type: "checklist.changed", taskId, checklist });
+
+  return NextResponse.json({ item, checklist });
+}
+
+export async function DELETE(req: NextRequest, ctx: Params) {
+  const { taskId, itemId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const { task, item: existing } = await loadItem(taskId, itemId);
+  if (!task) return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+  if (!existing) return NextResponse.json({ ok: true, checklist: await summarize(taskId) });
+
+  try {
+    await assertMemberInProject(task.projectId, memberId);
+  } catch {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+
+  await prisma.checklistItem.delete({ where: { id: itemId }, select: { id: true } });
+
+  await recordActivity({
+    projectId: task.projectId,
+    actorId: memberId,
+    action: "checklist.deleted",
+    taskId,
+    taskTitle: task.title,
+    before: { body: existing.body },
+  });
+  await touchTask(taskId);
+  const checklist = await summarize(taskId);
+  publishBoardEvent(task.projectId, { type: "checklist.changed", taskId, checklist });
+
+  return NextResponse.json({ ok: true, checklist });
+}
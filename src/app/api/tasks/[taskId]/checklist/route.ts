@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { ON_BOARD, touchTask } from "@/lib/tasks";
+import { CreateChecklistItemSchema, ReorderChecklistSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+const ITEM_SELECT = { id: true, body: true, done: true, position: true } as const;
+
+async function listItems(taskId: string) {
+  return getPrisma().checklistItem.findMany({
+    where: { taskId },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    select: ITEM_SELECT,
+  });
+}
+
+async function summarize(taskId: string) {
+  const prisma = getPrisma();
+  const [done, total] = await Promise.all([
+    prisma.checklistItem.count({ where: { taskId, done: true } }),
+    prisma.checklistItem.count({ where: { taskId } }),
+  ]);
+  return { done, total };
+}
+
+type Params = { params: Promise<{ taskId: string }> };
+
+export async function GET(req: NextRequest, ctx: Params) {
+  const { taskId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { id: true, projectId: true },
+  });
+  if (!task) return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+
+  try {
+    await assertMemberInProject(task.projectId, memberId);
+  } catch {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+
+  return NextResponse.json({ items: await listItems(taskId) });
+}
+
+export async function POST(req: NextRequest, ctx: Params) {
+  const { taskId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = CreateChecklistItemSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  // checklists of trashed or archived tasks are read-only
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, ...ON_BOARD },
+    select: { id: true, projectId: true, title: true },
+  });
+  if (!task) return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+
+  try {
+    await assertMemberInProject(task.projectId, memberId);
+  } catch {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+
+  const maxPosition = await prisma.checklistItem.aggregate({
+    where: { taskId },
+    _max: { position: true },
+  });
+  const item = await prisma.checklistItem.create({
+    data: { taskId, body: parsed.data.body, position: (maxPosition._max?.position ?? -1) + 1 },
+    select: ITEM_SELECT,
+  });
+
+  await recordActivity({
+    projectId: task.projectId,
+    actorId: memberId,
+    action: "checklist.created",
+    taskId,
+    taskTitle: task.title,
+    after: { body: item.body },
+  });
+  await touchTask(taskId);
+  const checklist = await summarize(taskId);
+  publishBoardEvent(task.projectId, { type: "checklist.changed", taskId, checklist });
+
+  return NextResponse.json({ item, checklist });
+}
+
+export async function PUT(req: NextRequest, ctx: Params) {
+  const { taskId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = ReorderChecklistSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, ...ON_BOARD },
+    select: { id: true, projectId: true },
+  });
+  if (!task) return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+
+  try {
+    await assertMemberInProject(task.projectId, memberId);
+  } catch {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+
+  // the client must send every item exactly once, like the column reorder
+  const { itemIds } = parsed.data;
+  const current = await listItems(taskId);
+  const known = new Set(current.map((i) => i.id));
+  if (
+    new Set(itemIds).size !== itemIds.length ||
+    itemIds.length !== current.length ||
+    itemIds.some((id) => !known.has(id))
+  ) {
+    return NextResponse.json({ error: "CHECKLIST_MISMATCH" }, { status: 400 });
+  }
+
+  await prisma.$transaction(
+    itemIds.map((id, position) =>
+      prisma.checklistItem.update({ where: { id }, data: { position }, select: { id: true } }),
+    ),
+  );
+
+  const items = await listItems(taskId);
+  const checklist = await summarize(taskId);
+  publishBoardEvent(task.projectId, { type: "checklist.changed", taskId, checklist });
+
+  return NextResponse.json({ items, checklist });
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { ON_BOARD, touchTask } from "@/lib/tasks";
+import { PatchCommentSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+type Params = { params: Promise<{ taskId: string; commentId: string }> };
+
+/** `task` is null unless it is on the board; `comment` is null unless it is on that task. */
+async function loadComment(taskId: string, commentId: string) {
+  const prisma = getPrisma();
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, ...ON_BOARD },
+    select: { projectId: true, title: true },
+  });
+  if (!task) return { task: null, comment: null };
+  const comment = await prisma.comment.findFirst({
+    where: { id: commentId, taskId },
+    select: { id: true, authorId: true, body: true },
+  });
+  return { task, comment };
+}
+
+export async function PATCH(req: NextRequest, ctx: Params) {
+  const { taskId, commentId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = PatchCommentSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const { task, comment: existing } = await loadComment(taskId, commentId);
+  if (!task) return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+  if (!existing) return NextResponse.json({ error: "COMMENT_NOT_FOUND" }, { status: 404 });
+
+  try {
+    await assertMemberInProject(task.projectId, memberId);
+  } catch {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+  if (existing.authorId !== memberId) {
+    return NextResponse.json({ error: "NOT_COMMENT_AUTHOR" }, { status: 403 });
+  }
+
+  const comment = await prisma.comment.update({
+    where: { id: commentId },
+    data: { body: parsed.data.body },
+    select: {
+      id: true,
+      parentId: true,
+      body: true,
+      createdAt: true,
+      updatedAt: true,
+      author: { select: { id: true, displayName: true } },
+    },
+  });
+
+  await recordActivity({
+    projectId: task.projectId,
+    actorId: memberId,
+    action: "comment.updated",
+    taskId,
+    taskTitle: task.title,
+    before: { body: existing.body },
+    after: { body: comment.body },
+  });
+
+  return NextResponse.json({ comment });
+}
+
+export async function DELETE(req: NextRequest, ctx: Params) {
+  const { taskId, commentId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const { task, comment: existing } = await loadComment(taskId, commentId);
+  if (!task) return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+  if (!existing) return NextResponse.json({ ok: true });
+
+  try {
+    await assertMemberInProject(task.projectId, memberId);
+  } catch {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+  if (existing.authorId !== memberId) {
+    return NextResponse.json({ error: "NOT_COMMENT_AUTHOR" }, { status: 403 });
+  }
+
+  // replies go with their parent (onDelete: Cascade)
+  await prisma.comment.delete({ where: { id: commentId }, select: { id: true } });
+
+  await recordActivity({
+    projectId: task.projectId,
+    actorId: memberId,
+    action: "comment.deleted",
+    taskId,
+    taskTitle: task.title,
+    before: { body: existing.body },
+  });
+  await touchTask(taskId);
+  const commentCount = await prisma.comment.count({ where: { taskId } });
+  publishBoardEvent(task.projectId, { type: "comments.changed", taskId, commentCount });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { ON_BOARD, touchTask } from "@/lib/tasks";
+import { CreateCommentSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+const COMMENT_SELECT = {
+  id: true,
+  parentId: true,
+  body: true,
+  createdAt: true,
+  updatedAt: true,
+  author: { select: { id: true, displayName: true } },
+} as const;
+
+export async function GET(req: NextRequest, ctx: { params: Promise<{ taskId: string }> }) {
+  const { taskId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    select: { id: true, projectId: true },
+  });
+  if (!task) return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+
+  try {
+    await assertMemberInProject(task.projectId, memberId);
+  } catch {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+
+  const comments = await prisma.comment.findMany({
+    where: { taskId },
+    orderBy: { createdAt: "asc" },
+    select: COMMENT_SELECT,
+  });
+
+  return NextResponse.json({ comments });
+}
+
+export async function POST(req: NextRequest, ctx: { params: Promise<{ taskId: string }> }) {
+  const { taskId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = CreateCommentSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  // comments on trashed or archived tasks are read-only
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, ...ON_BOARD },
+    select: { id: true, projectId: true, title: true },
+  });
+  if (!task) return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+
+  try {
+    await assertMemberInProject(task.projectId, memberId);
+  } catch {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+
+  const parentId = parsed.data.parentId ?? null;
+  if (parentId) {
+    const parent = await prisma.comment.findUnique({
+      where: { id: parentId },
+      select: { taskId: true, parentId: true },
+    });
+    if (!parent || parent.taskId !== taskId) {
+      return NextResponse.json({ error: "PARENT_COMMENT_NOT_FOUND" }, { status: 400 });
+    }
+    // replies to replies would need nesting the UI doesn't have
+    if (parent.parentId) {
+      return NextResponse.json({ error: "PARENT_IS_REPLY" }, { status: 400 });
+    }
+  }
+
+  const comment = await prisma.comment.create({
+    data: { taskId, authorId: memberId, parentId, body: parsed.data.body },
+    select: COMMENT_SELECT,
+  });
+
+  await recordActivity({
+    projectId: task.projectId,
+    actorId: memberId,
+    action: "comment.created",
+    taskId,
+    taskTitle: task.title,
+    after: { body: comment.body },
+  });
+  await touchTask(taskId);
+  const commentCount = await prisma.comment.count({ where: { taskId } });
+  publishBoardEvent(task.projectId, { type: "comments.changed", taskId, commentCount });
+
+  return NextResponse.json({ comment });
+}
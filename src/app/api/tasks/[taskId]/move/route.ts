@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import { ON_BOARD, TASK_SELECT, rankAfter, toTaskPayload } from "@/lib/tasks";
+import { MoveTaskSchema } from "@/lib/schemas";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function assertMemberInProject(projectId: string, memberId: string) {
+  const prisma = getPrisma();
+  const pm = await prisma.projectMember.findUnique({
+    where: { projectId_memberId: { projectId, memberId } },
+    select: { projectId: true },
+  });
+  if (!pm) throw new Error("FORBIDDEN");
+}
+
+/**
+ * Drops a task into a column slot. Only the moved task is written (plus its
+ * siblings on the rare occasion the column has to be respaced), so concurrent
+ * drags of different cards no longer overwrite each other; two drags of the
+ * same card are told apart by `version`.
+ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ taskId: string }> }) {
+  const { taskId } = await ctx.params;
+  const prisma = getPrisma();
+
+  let memberId = "";
+  try {
+    memberId = await getMemberIdOrThrow(req);
+  } catch (e) {
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const json = await req.json().catch(() => null);
+  const parsed = MoveTaskSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "INVALID_BODY", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+  const { version, columnId, afterId } = parsed.data;
+  if (afterId === taskId) {
+    return NextResponse.json({ error: "AFTER_NOT_IN_COLUMN" }, { status: 400 });
+  }
+
+  const existing = await prisma.task.findFirst({
+    where: { id: taskId, ...ON_BOARD },
+    select: { projectId: true, title: true, columnId: true },
+  });
+  if (!existing) return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+
+  try {
+    await assertMemberInProject(existing.projectId, memberId);
+  } catch {
+    return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
+  }
+
+  const column = await prisma.boardColumn.findUnique({
+    where: { id: columnId },
+    select: { projectId: true },
+  });
+  if (column?.projectId !== existing.projectId) {
+    return NextResponse.json({ error: "COLUMN_NOT_IN_PROJECT" }, { status: 400 });
+  }
+
+  let rebalanced;
+  try {
+    rebalanced = await prisma.$transaction(async (tx) => {
+      const slot = await rankAfter(tx, columnId, afterId, taskId);
+      const res = await tx.task.updateMany({
+        where: { id: taskId, version, ...ON_BOARD },
+        data: { columnId, rank: slot.rank, version: { increment: 1 } },
+      });
+      if (res.count === 0) throw new Error("VERSION_CONFLICT");
+      return slot.rebalanced;
+    });
+  } catch (e) {
+    const code = (e as Error).message;
+    // the card we were dropped below was moved or removed meanwhile
+    if (code === "AFTER_NOT_IN_COLUMN") return NextResponse.json({ error: code }, { status: 409 });
+    if (code !== "VERSION_CONFLICT") throw e;
+    // someone else moved or edited the card first, or it left the board meanwhile
+    const row = await prisma.task.findFirst({ where: { id: taskId, ...ON_BOARD }, select: TASK_SELECT });
+    if (!row) return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+    return NextResponse.json({ error: code, task: toTaskPayload(row) }, { status: 409 });
+  }
+
+  const task = toTaskPayload(
+    await prisma.task.findUniqueOrThrow({ where: { id: taskId }, select: TASK_SELECT }),
+  );
+
+  // reorders within a column are too frequent to be worth auditing
+  if (existing.columnId !== columnId) {
+    const columns = await prisma.boardColumn.findMany({
+      where: { id: { in: [existing.columnId, columnId] } },
+      select: { id: true, name: true },
+    });
+    const name = new Map(columns.map((c) => [c.id, c.name]));
+    await recordActivity({
+      projectId: existing.projectId,
+      actorId: memberId,
+      action: "task.moved",
+      taskId,
+      taskTitle: existing.title,
+      before: { columnId: existing.columnId, column: name.get(existing.columnId) },
+      after: { columnId, column: name.get(columnId) },
+    });
+  }
+
+  publishBoardEvent(existing.projectId, { type: "task.updated", task });
+  if (rebalanced.length > 0) {
+    publishBoardEvent(existing.projectId, { type: "board.reordered", tasks: rebalanced });
+  }
+  return NextResponse.json({ task, rebalanced });
+}
@@ -1,7 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { z } from "zod";
 import { getPrisma } from "@/lib/prisma";
-import { getMemberIdOrThrow } from "@/lib/authless";
+import { getMemberIdOrThrow } from "@/lib/session";
+import { diffFields, recordActivity } from "@/lib/activity";
+import { publishBoardEvent } from "@/lib/realtime";
+import {
+  AUDIT_SELECT,
+  ON_BOARD,
+  TASK_SELECT,
+  auditFields,
+  purgeExpiredTrash,
+  rankAtEnd,
+  recordTaskTombstones,
+  toTaskPayload,
+} from "@/lib/tasks";
+import { PatchTaskSchema } from "@/lib/schemas";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -15,27 +27,17 @@ async function assertMemberInProject(projectId: string, memberId: string) {
   if (!pm) throw new Error("FORBIDDEN");
 }
 
-const PatchTaskSchema = z
-  .object({
-    title: z.string().trim().min(1).max(120).optional(),
-    description: z.string().trim().max(2000).nullable().optional(),
-    status: z.enum(["TODO", "DOING", "DONE"]).optional(),
-    order: z.number().int().min(0).max(1000000).optional(),
-    dueDate: z.string().datetime().nullable().optional(),
-    assigneeId: z.string().min(1).nullable().optional(),
-  })
-  .strict()
-  .refine((o) => Object.keys(o).length > 0, { message: "EMPTY_BODY" });
-
 export async function PATCH(req: NextRequest, ctx: { params: Promise<{ taskId: string }> }) {
   const { taskId } = await ctx.params;
   const prisma = getPrisma();
 
   let memberId = "";
   try {
-    memberId = getMemberIdOrThrow(req);
+    memberId = await getMemberIdOrThrow(req);
   } catch (e) {
-    return NextResponse.json({ error: (e as Error).message }, { status: 401 });
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
   }
 
   const json = await req.json().catch(() => null);
@@ -47,9 +49,10 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ taskId: s
     );
   }
 
-  const existing = await prisma.task.findUnique({
-    where: { id: taskId },
-    select: { id: true, projectId: true },
+  // trashed and archived tasks are read-only until brought back
+  const existing = await prisma.task.findFirst({
+    where: { id: taskId, ...ON_BOARD },
+    select: { id: true, projectId: true, ...AUDIT_SELECT },
   });
   if (!existing) return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
 
@@ -62,11 +65,20 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ taskId: s
   const data: Record<string, unknown> = {};
   if (parsed.data.title !== undefined) data.title = parsed.data.title;
   if (parsed.data.description !== undefined) data.description = parsed.data.description;
-  if (parsed.data.status !== undefined) data.status = parsed.data.status;
-  if (parsed.data.order !== undefined) data.order = parsed.data.order;
   if (parsed.data.dueDate !== undefined)
     data.dueDate = parsed.data.dueDate ? new Date(parsed.data.dueDate) : null;
 
+  if (parsed.data.columnId !== undefined) {
+    const column = await prisma.boardColumn.findUnique({
+      where: { id: parsed.data.columnId },
+      select: { projectId: true },
+    });
+    if (column?.projectId !== existing.projectId) {
+      return NextResponse.json({ error: "COLUMN_NOT_IN_PROJECT" }, { status: 400 });
+    }
+    data.columnId = parsed.data.columnId;
+  }
+
   if (parsed.data.assigneeId !== undefined) {
     const assigneeId = parsed.data.assigneeId;
     if (assigneeId) {
@@ -79,24 +91,71 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ taskId: s
     data.assigneeId = assigneeId;
   }
 
-  const task = await prisma.task.update({
-    where: { id: taskId },
-    data,
-    select: {
-      id: true,
-      title: true,
-      description: true,
-      status: true,
-      order: true,
-      dueDate: true,
-      assigneeId: true,
-      creatorId: true,
-      updatedAt: true,
-      createdAt: true,
-    },
+  const labelIds = parsed.data.labelIds && [...new Set(parsed.data.labelIds)];
+  if (labelIds && labelIds.length > 0) {
+    const count = await prisma.label.count({
+      where: { id: { in: labelIds }, projectId: existing.projectId },
+    });
+    if (count !== labelIds.length) {
+      return NextResponse.json({ error: "LABEL_NOT_IN_PROJECT" }, { status: 400 });
+    }
+  }
+
+  const newColumnId =
+    parsed.data.columnId !== existing.columnId ? parsed.data.columnId : undefined;
+  const applied = await prisma.$transaction(async (tx) => {
+    const updated = await tx.task.updateMany({
+      where: { id: taskId, version: parsed.data.version, ...ON_BOARD },
+      data: { ...data, version: { increment: 1 } },
+    });
+    if (updated.count === 0) return null;
+    if (labelIds) {
+      await tx.taskLabel.deleteMany({ where: { taskId } });
+      await tx.taskLabel.createMany({ data: labelIds.map((labelId) => ({ taskId, labelId })) });
+    }
+    if (!newColumnId) return { rebalanced: [] };
+    const { rank, rebalanced } = await rankAtEnd(tx, newColumnId, taskId);
+    await tx.task.update({ where: { id: taskId }, data: { rank } });
+    return { rebalanced };
   });
+  const row = await prisma.task.findFirst({
+    where: { id: taskId, ...ON_BOARD },
+    select: TASK_SELECT,
+  });
+  if (!row) return NextResponse.json({ error: "TASK_NOT_FOUND" }, { status: 404 });
+  const task = toTaskPayload(row);
+  if (!applied) {
+    return NextResponse.json({ error: "VERSION_CONFLICT", task }, { status: 409 });
+  }
 
-  return NextResponse.json({ task });
+  const diff = diffFields(auditFields(existing), auditFields(row));
+  const changedKeys = Object.keys(diff.after);
+  if (changedKeys.includes("columnId")) {
+    // keep column names readable even after a column is renamed or deleted
+    const columns = await prisma.boardColumn.findMany({
+      where: { id: { in: [existing.columnId, task.columnId] } },
+      select: { id: true, name: true },
+    });
+    const name = new Map(columns.map((c) => [c.id, c.name]));
+    diff.before.column = name.get(existing.columnId);
+    diff.after.column = name.get(task.columnId);
+  }
+  if (changedKeys.length > 0) {
+    await recordActivity({
+      projectId: existing.projectId,
+      actorId: memberId,
+      action: changedKeys.every((k) => k === "columnId") ? "task.moved" : "task.updated",
+      taskId,
+      taskTitle: task.title,
+      ...diff,
+    });
+  }
+
+  publishBoardEvent(existing.projectId, { type: "task.updated", task });
+  if (applied.rebalanced.length > 0) {
+    publishBoardEvent(existing.projectId, { type: "board.reordered", tasks: applied.rebalanced });
+  }
+  return NextResponse.json({ task, rebalanced: applied.rebalanced });
 }
 
 export async function DELETE(req: NextRequest, ctx: { params: Promise<{ taskId: string }> }) {
@@ -105,14 +164,21 @@ export async function DELETE(req: NextRequest, ctx: { params: Promise<{ taskId:
 
   let memberId = "";
   try {
-    memberId = getMemberIdOrThrow(req);
+    memberId = await getMemberIdOrThrow(req);
   } catch (e) {
-    return NextResponse.json({ error: (e as Error).message }, { status: 401 });
+    const code = (e as Error).message;
+    const status = code === "UNAUTHENTICATED" ? 401 : 403;
+    return NextResponse.json({ error: code }, { status });
+  }
+
+  const version = Number(req.nextUrl.searchParams.get("version"));
+  if (!req.nextUrl.searchParams.has("version") || !Number.isInteger(version) || version < 0) {
+    return NextResponse.json({ error: "INVALID_VERSION" }, { status: 400 });
   }
 
-  const existing = await prisma.task.findUnique({
-    where: { id: taskId },
-    select: { id: true, projectId: true },
+  const existing = await prisma.task.findFirst({
+    where: { id: taskId, ...ON_BOARD },
+    select: { id: true, projectId: true, ...AUDIT_SELECT },
   });
   if (!existing) return NextResponse.json({ ok: true });
 
@@ -122,7 +188,35 @@ export async function DELETE(req: NextRequest, ctx: { params: Promise<{ taskId:
     return NextResponse.json({ error: "FORBIDDEN" }, { status: 403 });
   }
 
-  await prisma.task.delete({ where: { id: taskId }, select: { id: true } });
+  // moves the task to the trash; it can be restored until purged
+  const deleted = await prisma.$transaction(async (tx) => {
+    const res = await tx.task.updateMany({
+      where: { id: taskId, version, ...ON_BOARD },
+      data: { deletedAt: new Date(), deletedById: memberId, version: { increment: 1 } },
+    });
+    if (res.count > 0) await recordTaskTombstones(existing.projectId, [taskId], tx);
+    return res;
+  });
+  if (deleted.count === 0) {
+    const row = await prisma.task.findFirst({
+      where: { id: taskId, ...ON_BOARD },
+      select: TASK_SELECT,
+    });
+    if (row) {
+      return NextResponse.json({ error: "VERSION_CONFLICT", task: toTaskPayload(row) }, { status: 409 });
+    }
+    return NextResponse.json({ ok: true });
+  }
+  await recordActivity({
+    projectId: existing.projectId,
+    actorId: memberId,
+    action: "task.deleted",
+    taskId,
+    taskTitle: existing.title,
+    before: auditFields(existing),
+  });
+  await purgeExpiredTrash(existing.projectId);
+  publishBoardEvent(existing.projectId, { type: "task.deleted", taskId });
   return NextResponse.json({ ok: true });
 }
 
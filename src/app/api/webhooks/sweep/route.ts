@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hashToken } from "@/lib/session";
+import { deliverDueWebhooks } from "@/lib/webhooks";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Sends overdue webhook deliveries, retries included. Serverless instances
+ * can't keep retry timers, so a scheduler (Vercel Cron, or any cron calling
+ * `curl -H "authorization: Bearer $CRON_SECRET"`) should hit this every few
+ * minutes. Disabled until CRON_SECRET is set.
+ */
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  const given = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  // comparing hashes keeps the check constant-time
+  if (!secret || hashToken(given) !== hashToken(secret)) {
+    return NextResponse.json({ error: "UNAUTHENTICATED" }, { status: 401 });
+  }
+
+  const attempted = await deliverDueWebhooks();
+  return NextResponse.json({ attempted });
+}
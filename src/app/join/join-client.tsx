@@ -2,12 +2,12 @@
 
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useMemo, useState } from "react";
-import { apiFetch } from "@/lib/apiClient";
-import { clearMemberId, setMemberId } from "@/lib/clientStore";
+import { useEffect, useMemo, useState } from "react";
+import { api } from "@/lib/apiClient";
+import { joinErrorMessage } from "@/lib/joinErrors";
+import type { MyProjectsResponse } from "@/lib/schemas";
 
-type Project = { id: string; name: string; inviteCode: string };
-type Member = { id: string; displayName: string };
+type Member = MyProjectsResponse["me"];
 
 export default function JoinClient({ initialCode }: { initialCode: string }) {
   const router = useRouter();
@@ -15,26 +15,31 @@ export default function JoinClient({ initialCode }: { initialCode: string }) {
   const [inviteCode, setInviteCode] = useState(initialCode);
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [me, setMe] = useState<Member | null>(null);
+
+  useEffect(() => {
+    api
+      .myProjects()
+      .then((res) => setMe(res.me))
+      .catch(() => {
+        // signed out: joining creates the identity
+      });
+  }, []);
 
   const canJoin = useMemo(
-    () => displayName.trim().length > 0 && inviteCode.trim().length > 0,
-    [displayName, inviteCode],
+    () => (me !== null || displayName.trim().length > 0) && inviteCode.trim().length > 0,
+    [me, displayName, inviteCode],
   );
 
   async function joinProject() {
     if (!canJoin || busy) return;
     setBusy(true);
     setError(null);
-    clearMemberId();
     try {
-      const res = await apiFetch<{ project: Project; member: Member }>("/api/projects/join", {
-        method: "POST",
-        json: { inviteCode, displayName },
-      });
-      setMemberId(res.member.id);
+      const res = await api.joinProject({ inviteCode, displayName: me ? undefined : displayName });
       router.push(`/p/${res.project.id}`);
     } catch (e) {
-      setError((e as Error).message);
+      setError(joinErrorMessage((e as Error).message));
     } finally {
       setBusy(false);
     }
@@ -61,15 +66,21 @@ export default function JoinClient({ initialCode }: { initialCode: string }) {
 
         <div className="rounded-2xl border border-zinc-200 bg-white p-5 shadow-sm">
           <div className="grid gap-3">
-            <label className="grid gap-1 text-sm">
-              <span className="text-zinc-700">あなたの名前</span>
-              <input
-                className="h-10 rounded-xl border border-zinc-200 px-3 outline-none focus:ring-2 focus:ring-zinc-300"
-                value={displayName}
-                onChange={(e) => setDisplayNameState(e.target.value)}
-                placeholder="例: Mori"
-              />
-            </label>
+            {me ? (
+              <div className="text-sm text-zinc-600">
+                <span className="font-medium text-zinc-900">{me.displayName}</span> として参加します
+              </div>
+            ) : (
+              <label className="grid gap-1 text-sm">
+                <span className="text-zinc-700">あなたの名前</span>
+                <input
+                  className="h-10 rounded-xl border border-zinc-200 px-3 outline-none focus:ring-2 focus:ring-zinc-300"
+                  value={displayName}
+                  onChange={(e) => setDisplayNameState(e.target.value)}
+                  placeholder="例: Mori"
+                />
+              </label>
+            )}
             <label className="grid gap-1 text-sm">
               <span className="text-zinc-700">招待コード</span>
               <input
@@ -0,0 +1,196 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/apiClient";
+import type { ActivityItem } from "@/lib/schemas";
+
+// entries written before custom columns existed store the old status enum
+const STATUS_LABEL: Record<string, string> = { TODO: "ToDo", DOING: "Doing", DONE: "Done" };
+
+const ROLE_LABEL: Record<string, string> = { OWNER: "オーナー", MEMBER: "メンバー" };
+
+const FIELD_LABEL: Record<string, string> = {
+  title: "タイトル",
+  description: "説明",
+  status: "状態",
+  column: "列",
+  dueDate: "期限",
+  assigneeId: "担当者",
+  labelIds: "ラベル",
+};
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("ja-JP", { dateStyle: "short", timeStyle: "short" });
+}
+
+function fmtValue(key: string, value: unknown, memberName: (id: string) => string) {
+  if (value === null || value === undefined || value === "") return "なし";
+  if (key === "status") return STATUS_LABEL[String(value)] ?? String(value);
+  if (key === "assigneeId") return memberName(String(value));
+  if (key === "dueDate") return new Date(String(value)).toLocaleDateString("ja-JP");
+  return String(value);
+}
+
+function describe(item: ActivityItem, memberName: (id: string) => string) {
+  const title = item.taskTitle ? `「${item.taskTitle}」` : "タスク";
+  const before = item.before ?? {};
+  const after = item.after ?? {};
+  switch (item.action) {
+    case "project.created":
+      return "プロジェクトを作成しました";
+    case "member.joined":
+      return "プロジェクトに参加しました";
+    case "member.updated":
+      return `${before.displayName} の権限を ${ROLE_LABEL[String(before.role)]} → ${ROLE_LABEL[String(after.role)]} に変更しました`;
+    case "member.removed":
+      return `${before.displayName} をプロジェクトから外しました${after.unassignedTasks ? `（担当タスク ${after.unassignedTasks} 件を未設定に）` : ""}`;
+    case "invite.created": {
+      const limits = [
+        after.expiresAt ? `${fmtDateTime(String(after.expiresAt))}まで` : null,
+        after.maxUses ? `${after.maxUses}回まで` : null,
+      ].filter(Boolean);
+      const verb = after.revoked ? "再発行しました（以前のコードは無効化）" : "発行しました";
+      return `招待コードを${verb}${limits.length ? `（${limits.join("・")}）` : ""}`;
+    }
+    case "invite.revoked":
+      return `招待コード ${before.code} を無効化しました`;
+    case "task.created":
+      return `${title}を作成しました`;
+    case "task.deleted":
+      return `${title}をゴミ箱に移動しました`;
+    case "task.restored":
+      return `${title}をゴミ箱から復元しました`;
+    case "task.purged":
+      return `${title}を完全に削除しました`;
+    case "task.archived":
+      return `${title}をアーカイブしました`;
+    case "task.unarchived":
+      return `${title}をアーカイブから戻しました`;
+    case "task.moved": {
+      const from = before.column ?? STATUS_LABEL[String(before.status)] ?? "?";
+      const to = after.column ?? STATUS_LABEL[String(after.status)];
+      if (!to) return `${title}の並び順を変更しました`;
+      return `${title}を ${from} → ${to} に移動しました`;
+    }
+    case "column.created":
+      return `列「${after.name}」を追加しました`;
+    case "column.updated":
+      return "name" in after
+        ? `列「${before.name}」を「${after.name}」に変更しました`
+        : "列の色を変更しました";
+    case "column.deleted":
+      return `列「${before.name}」を削除しました${after.movedTo ? `（タスクは「${after.movedTo}」へ移動）` : ""}`;
+    case "label.created":
+      return `ラベル「${after.name}」を追加しました`;
+    case "label.updated":
+      return "name" in after
+        ? `ラベル「${before.name}」を「${after.name}」に変更しました`
+        : "ラベルの色を変更しました";
+    case "label.deleted":
+      return `ラベル「${before.name}」を削除しました`;
+    case "checklist.created":
+      return `${title}にチェック項目「${after.body}」を追加しました`;
+    case "checklist.updated":
+      if ("body" in after) return `${title}のチェック項目「${before.body}」を「${after.body}」に変更しました`;
+      return `${title}のチェック項目「${before.item}」を${after.done ? "完了" : "未完了に戻"}しました`;
+    case "checklist.deleted":
+      return `${title}のチェック項目「${before.body}」を削除しました`;
+    case "comment.created":
+      return `${title}にコメントしました`;
+    case "comment.updated":
+      return `${title}のコメントを編集しました`;
+    case "comment.deleted":
+      return `${title}のコメントを削除しました`;
+    case "task.updated": {
+      const changes = Object.keys(after)
+        .filter((k) => k in FIELD_LABEL)
+        .map((k) =>
+          // label ids are not readable; the names may also be gone by now
+          k === "description" || k === "labelIds"
+            ? FIELD_LABEL[k]
+            : `${FIELD_LABEL[k]}: ${fmtValue(k, before[k], memberName)} → ${fmtValue(k, after[k], memberName)}`,
+        );
+      return `${title}を更新しました${changes.length ? `（${changes.join(" / ")}）` : ""}`;
+    }
+    default:
+      return item.action;
+  }
+}
+
+export default function ActivitySidebar({
+  projectId,
+  membersById,
+  refreshKey,
+  onClose,
+}: {
+  projectId: string;
+  membersById: Map<string, { displayName: string }>;
+  refreshKey: number;
+  onClose: () => void;
+}) {
+  const [items, setItems] = useState<ActivityItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const memberName = (id: string) => membersById.get(id)?.displayName ?? "(退出したメンバー)";
+
+  async function load(cursor: string | null) {
+    setLoading(true);
+    try {
+      const res = await api.activity(projectId, { cursor });
+      setItems((prev) => (cursor ? [...prev, ...res.items] : res.items));
+      setNextCursor(res.nextCursor);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void load(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId, refreshKey]);
+
+  return (
+    <aside className="flex h-full w-full flex-col gap-3 rounded-2xl border border-zinc-200 bg-white p-4 md:w-80">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold">アクティビティ</div>
+        <button className="text-xs text-zinc-600 hover:underline" onClick={onClose}>
+          閉じる
+        </button>
+      </div>
+
+      {error && <div className="text-xs text-rose-700">エラー: {error}</div>}
+
+      <ol className="flex flex-1 flex-col gap-3 overflow-auto">
+        {items.map((item) => (
+          <li key={item.id} className="grid gap-0.5 text-xs">
+            <div className="text-zinc-800">
+              <span className="font-medium">{item.actor?.displayName ?? "(退出したメンバー)"}</span>{" "}
+              {describe(item, memberName)}
+            </div>
+            <div className="text-zinc-400">{fmtDateTime(item.createdAt)}</div>
+          </li>
+        ))}
+        {!loading && items.length === 0 && (
+          <li className="text-xs text-zinc-500">まだアクティビティはありません</li>
+        )}
+      </ol>
+
+      {nextCursor && (
+        <button
+          className="h-8 rounded-xl bg-white text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50 disabled:opacity-50"
+          disabled={loading}
+          onClick={() => void load(nextCursor)}
+        >
+          {loading ? "読み込み中..." : "さらに表示"}
+        </button>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/apiClient";
+import type { ApiToken } from "@/lib/schemas";
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("ja-JP", { dateStyle: "short", timeStyle: "short" });
+}
+
+/**
+ * Personal API tokens for scripts and CI. Like calendar URLs, a token is shown
+ * only once, right after it is issued.
+ */
+export default function ApiTokens({ projectId, onClose }: { projectId: string; onClose: () => void }) {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [name, setName] = useState("");
+  const [readOnly, setReadOnly] = useState(false);
+  const [issued, setIssued] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    try {
+      const res = await api.apiTokens(projectId);
+      setTokens(res.tokens);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  async function issue() {
+    try {
+      const res = await api.createApiToken(projectId, { name: name.trim(), readOnly });
+      setIssued(res.token);
+      setName("");
+      await load();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function revoke(t: ApiToken) {
+    if (!window.confirm(`「${t.name}」を無効にしますか？このトークンを使うスクリプトは動かなくなります。`)) return;
+    try {
+      await api.deleteApiToken(projectId, t.id);
+      await load();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
+      <div className="max-h-full w-full max-w-lg overflow-auto rounded-2xl border border-zinc-200 bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b border-zinc-200 px-5 py-4">
+          <div className="text-sm font-semibold">APIトークン</div>
+          <button className="text-sm text-zinc-600 hover:underline" onClick={onClose}>
+            閉じる
+          </button>
+        </div>
+
+        <div className="grid gap-4 px-5 py-4 text-sm">
+          <p className="text-xs text-zinc-600">
+            スクリプトやCIからこのプロジェクトのAPIを使うためのトークンです。
+            <code className="font-mono">Authorization: Bearer &lt;トークン&gt;</code>{" "}
+            で送ると、あなたとしてこのプロジェクトだけを操作できます。
+          </p>
+          {error && (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-rose-700">
+              エラー: {error}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              className="h-9 flex-1 rounded-xl border border-zinc-200 bg-white px-3 text-sm outline-none focus:ring-2 focus:ring-zinc-300"
+              placeholder="名前（例: CI）"
+              maxLength={60}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <label className="flex items-center gap-1 text-xs text-zinc-700">
+              <input type="checkbox" checked={readOnly} onChange={(e) => setReadOnly(e.target.checked)} />
+              読み取り専用
+            </label>
+            <button
+              className="h-9 rounded-xl bg-zinc-900 px-3 text-sm font-medium text-white disabled:opacity-50"
+              disabled={!name.trim()}
+              onClick={() => void issue()}
+            >
+              発行
+            </button>
+          </div>
+
+          {issued && (
+            <div className="grid gap-2 rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-xs">
+              <div className="text-emerald-800">このトークンは今だけ表示されます。安全な場所に保存してください。</div>
+              <div className="flex gap-2">
+                <input
+                  className="h-8 flex-1 rounded-lg border border-emerald-200 bg-white px-2 font-mono"
+                  readOnly
+                  value={issued}
+                  onFocus={(e) => e.target.select()}
+                />
+                <button
+                  className="h-8 rounded-lg bg-white px-3 font-medium ring-1 ring-emerald-200 hover:bg-emerald-100"
+                  onClick={() => void navigator.clipboard.writeText(issued)}
+                >
+                  コピー
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-1 text-xs">
+            <div className="text-zinc-700">発行済みのトークン</div>
+            {tokens.length === 0 && <div className="text-zinc-500">まだありません</div>}
+            {tokens.map((t) => (
+              <div key={t.id} className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-zinc-800">
+                  {t.name}
+                  {t.readOnly && <span className="ml-1 rounded bg-zinc-100 px-1 text-zinc-600">読み取り専用</span>}
+                  <span className="ml-1 text-zinc-500">
+                    {fmtDateTime(t.createdAt)}発行 ・{" "}
+                    {t.lastUsedAt ? `最終使用 ${fmtDateTime(t.lastUsedAt)}` : "未使用"}
+                  </span>
+                </span>
+                <button className="text-rose-600 hover:underline" onClick={() => void revoke(t)}>
+                  無効化
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
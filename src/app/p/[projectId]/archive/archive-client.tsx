@@ -0,0 +1,138 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import { api } from "@/lib/apiClient";
+import type { ArchivedTask } from "@/lib/schemas";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("ja-JP", { dateStyle: "short", timeStyle: "short" });
+}
+
+export default function ArchiveClient({ projectId }: { projectId: string }) {
+  const router = useRouter();
+  const [q, setQ] = useState("");
+  const [items, setItems] = useState<ArchivedTask[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // a slower response for an older query must not overwrite a newer one
+  const seqRef = useRef(0);
+
+  async function load(query: string, cursor: string | null) {
+    const seq = ++seqRef.current;
+    setLoading(true);
+    try {
+      const res = await api.archive(projectId, { q: query.trim(), cursor });
+      if (seq !== seqRef.current) return;
+      setItems((prev) => (cursor ? [...prev, ...res.items] : res.items));
+      setNextCursor(res.nextCursor);
+      setError(null);
+    } catch (e) {
+      const msg = (e as Error).message;
+      setError(msg);
+      if (msg === "UNAUTHENTICATED" || msg === "FORBIDDEN") router.push("/");
+    } finally {
+      if (seq === seqRef.current) setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    const t = window.setTimeout(() => void load(q, null), q ? SEARCH_DEBOUNCE_MS : 0);
+    return () => window.clearTimeout(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId, q]);
+
+  async function unarchive(id: string) {
+    setBusyId(id);
+    try {
+      await api.unarchiveTask(projectId, id);
+      setItems((prev) => prev.filter((t) => t.id !== id));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-50 text-zinc-900">
+      <div className="mx-auto flex max-w-3xl flex-col gap-4 px-6 py-8">
+        <header className="flex items-center justify-between gap-3">
+          <div className="flex flex-col gap-1">
+            <div className="text-xs text-zinc-500">プロジェクト</div>
+            <h1 className="text-xl font-semibold tracking-tight">アーカイブ</h1>
+          </div>
+          <Link
+            className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+            href={`/p/${projectId}`}
+          >
+            ボードに戻る
+          </Link>
+        </header>
+
+        <input
+          className="h-10 rounded-xl border border-zinc-200 bg-white px-3 text-sm outline-none focus:ring-2 focus:ring-zinc-300"
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+          placeholder="タイトル・説明で検索"
+        />
+
+        {error && (
+          <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+            エラー: {error}
+          </div>
+        )}
+
+        <ol className="grid gap-2">
+          {items.map((t) => (
+            <li
+              key={t.id}
+              className="flex items-start justify-between gap-3 rounded-xl border border-zinc-200 bg-white px-4 py-3 shadow-sm"
+            >
+              <div className="min-w-0">
+                <div className="truncate text-sm font-medium">{t.title}</div>
+                {t.description && (
+                  <div className="mt-0.5 line-clamp-2 text-xs text-zinc-600">{t.description}</div>
+                )}
+                <div className="mt-1 text-xs text-zinc-500">
+                  {t.columnName} ・ {t.archivedBy?.displayName ?? "(退出したメンバー)"} が{" "}
+                  {fmtDateTime(t.archivedAt)} にアーカイブ
+                </div>
+              </div>
+              <button
+                className="h-8 shrink-0 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50 disabled:opacity-50"
+                disabled={busyId !== null}
+                onClick={() => void unarchive(t.id)}
+              >
+                ボードに戻す
+              </button>
+            </li>
+          ))}
+          {!loading && items.length === 0 && (
+            <li className="text-sm text-zinc-500">
+              {q.trim() ? "条件に合うタスクはありません" : "アーカイブされたタスクはありません"}
+            </li>
+          )}
+        </ol>
+
+        {nextCursor && (
+          <button
+            className="h-9 rounded-xl bg-white text-sm font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50 disabled:opacity-50"
+            disabled={loading}
+            onClick={() => void load(q, nextCursor)}
+          >
+            {loading ? "読み込み中..." : "さらに表示"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
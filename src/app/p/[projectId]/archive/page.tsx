@@ -0,0 +1,10 @@
+import ArchiveClient from "./archive-client";
+
+export default async function ArchivePage({
+  params,
+}: {
+  params: Promise<{ projectId: string }>;
+}) {
+  const { projectId } = await params;
+  return <ArchiveClient projectId={projectId} />;
+}
@@ -21,41 +21,82 @@ import {
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
-import { apiFetch } from "@/lib/apiClient";
-import { getMemberId } from "@/lib/clientStore";
-
-type TaskStatus = "TODO" | "DOING" | "DONE";
-type Role = "OWNER" | "MEMBER";
-
-type Project = { id: string; name: string; inviteCode: string; updatedAt: string };
-type Member = { id: string; displayName: string; role: Role };
-type Task = {
-  id: string;
-  title: string;
-  description: string | null;
-  status: TaskStatus;
-  order: number;
-  dueDate: string | null;
-  assigneeId: string | null;
-  creatorId: string;
-  createdAt: string;
-  updatedAt: string;
-};
+import { ApiError, api } from "@/lib/apiClient";
+import { compareRanks, rankBetween } from "@/lib/rank";
+import type {
+  BoardResponse,
+  BoardTask,
+  BulkAction,
+  ChecklistSummary,
+  Column as BoardColumn,
+  Invite,
+  Label,
+  Member,
+  Role,
+  Task as ApiTask,
+  TaskPosition,
+} from "@/lib/schemas";
+import ActivitySidebar from "./activity-sidebar";
+import BulkToolbar from "./bulk-toolbar";
+import ChecklistEditor from "./checklist-editor";
+import CommentThread from "./comment-thread";
+import CsvImport from "./csv-import";
+import CalendarFeeds from "./calendar-feeds";
+import ApiTokens from "./api-tokens";
+import MemberStrip from "./member-strip";
+import SearchBox from "./search-box";
+import TrashPanel from "./trash-panel";
+import FilterBar, { EMPTY_FILTER, TaskFilter, isFilterActive, matchesFilter } from "./filter-bar";
 
-type BoardResponse = {
-  project: Project;
-  me: { memberId: string };
-  members: Member[];
-  tasks: Task[];
-};
+// board payloads add comment counts and checklist progress; single-task responses leave them out
+type Task = ApiTask & Partial<Pick<BoardTask, "commentCount" | "checklist">>;
+
+// tasks keyed by column id
+type Columns = Record<string, Task[]>;
+
+type BoardEvent =
+  | { type: "task.created"; task: Task }
+  | { type: "task.updated"; task: Task }
+  | { type: "task.deleted"; taskId: string }
+  | { type: "tasks.archived"; taskIds: string[] }
+  | { type: "comments.changed"; taskId: string; commentCount: number }
+  | { type: "checklist.changed"; taskId: string; checklist: ChecklistSummary }
+  | { type: "board.reordered"; tasks: TaskPosition[] }
+  | { type: "columns.changed"; columns: BoardColumn[] }
+  | { type: "labels.changed"; labels: Label[] }
+  | { type: "member.joined"; member: Member }
+  | { type: "member.updated"; member: Member }
+  | { type: "member.removed"; memberId: string }
+  | { type: "invite.changed"; invite: Invite | null }
+  | { type: "project.deleted" };
+
+// shift extends the selection within a column, ctrl/cmd toggles a single card
+type ClickModifiers = { shiftKey: boolean; ctrlKey: boolean; metaKey: boolean };
 
-const STATUSES: TaskStatus[] = ["TODO", "DOING", "DONE"];
-const STATUS_LABEL: Record<TaskStatus, string> = {
-  TODO: "ToDo",
-  DOING: "Doing",
-  DONE: "Done",
+const EDITABLE_FIELDS = ["title", "description", "assigneeId", "dueDate", "labelIds"] as const;
+type EditableField = (typeof EDITABLE_FIELDS)[number];
+type TaskFields = Pick<Task, EditableField>;
+
+const FIELD_LABEL: Record<EditableField, string> = {
+  title: "タイトル",
+  description: "説明",
+  assigneeId: "担当者",
+  dueDate: "期限",
+  labelIds: "ラベル",
 };
 
+// `edited` is null when the conflicting write was a delete
+type TaskConflict = { server: Task; edited: TaskFields | null; fields: EditableField[] };
+
+// polling interval used only while the event stream is down
+const POLL_INTERVAL_MS = 2000;
+const POLL_MIN_GAP_MS = 5000;
+const STREAM_RETRY_MS = 10000;
+// how long the "undo" toast stays up after a delete
+const UNDO_TOAST_MS = 8000;
+
+const COLUMN_COLORS = ["#71717a", "#0ea5e9", "#10b981", "#f59e0b", "#f43f5e", "#8b5cf6"];
+
 function fmtDate(dueDate: string | null) {
   if (!dueDate) return "";
   const d = new Date(dueDate);
@@ -70,39 +111,89 @@ function toDateInputValue(dueDate: string | null) {
   return d.toISOString().slice(0, 10);
 }
 
-function groupByStatus(tasks: Task[]): Record<TaskStatus, Task[]> {
-  const out: Record<TaskStatus, Task[]> = { TODO: [], DOING: [], DONE: [] };
-  for (const t of tasks) out[t.status].push(t);
-  for (const s of STATUSES) out[s].sort((a, b) => a.order - b.order);
+function groupByColumn(tasks: Task[], columnIds: string[]): Columns {
+  const out: Columns = {};
+  for (const id of columnIds) out[id] = [];
+  for (const t of tasks) (out[t.columnId] ??= []).push(t);
+  for (const id of Object.keys(out)) out[id].sort(compareRanks);
   return out;
 }
 
-function normalizeOrders(columns: Record<TaskStatus, Task[]>) {
-  const next: Record<TaskStatus, Task[]> = { TODO: [], DOING: [], DONE: [] };
-  for (const status of STATUSES) {
-    next[status] = columns[status].map((t, idx) => ({ ...t, status, order: idx }));
+function allTasks(columns: Columns) {
+  return Object.values(columns).flat();
+}
+
+function upsertTask(columns: Columns, task: Task) {
+  const current = allTasks(columns);
+  const prev = current.find((t) => t.id === task.id);
+  return groupByColumn(
+    [...current.filter((t) => t.id !== task.id), { ...prev, ...task }],
+    Object.keys(columns),
+  );
+}
+
+/** Applies a `?since=` response: changed tasks replace local copies, tombstones drop them. */
+function mergeDelta(columns: Columns, changed: Task[], deletedIds: string[], columnIds: string[]) {
+  const gone = new Set([...deletedIds, ...changed.map((t) => t.id)]);
+  const kept = allTasks(columns).filter((t) => !gone.has(t.id));
+  return groupByColumn([...kept, ...changed], columnIds);
+}
+
+function patchTask(columns: Columns, id: string, patch: Partial<Task>) {
+  const next: Columns = {};
+  for (const [col, tasks] of Object.entries(columns)) {
+    next[col] = tasks.map((t) => (t.id === id ? { ...t, ...patch } : t));
   }
   return next;
 }
 
-function flattenUpdates(columns: Record<TaskStatus, Task[]>) {
-  const out: Array<{ id: string; status: TaskStatus; order: number }> = [];
-  for (const status of STATUSES) {
-    for (let i = 0; i < columns[status].length; i++) {
-      out.push({ id: columns[status][i].id, status, order: i });
-    }
-  }
-  return out;
+function removeTask(columns: Columns, id: string) {
+  const rest = allTasks(columns).filter((t) => t.id !== id);
+  return groupByColumn(rest, Object.keys(columns));
+}
+
+function applyReorder(columns: Columns, updates: TaskPosition[]) {
+  const byId = new Map(updates.map((u) => [u.id, u]));
+  return groupByColumn(
+    allTasks(columns).map((t) => {
+      const u = byId.get(t.id);
+      return u ? { ...t, columnId: u.columnId, rank: u.rank, version: u.version } : t;
+    }),
+    Object.keys(columns),
+  );
+}
+
+function changedFields(base: TaskFields, next: TaskFields): EditableField[] {
+  return EDITABLE_FIELDS.filter((f) => {
+    if (f === "dueDate") return toDateInputValue(base.dueDate) !== toDateInputValue(next.dueDate);
+    if (f === "labelIds") return [...base.labelIds].sort().join() !== [...next.labelIds].sort().join();
+    return base[f] !== next[f];
+  });
+}
+
+function pickFields(src: TaskFields, fields: EditableField[]): Partial<TaskFields> {
+  return Object.fromEntries(fields.map((f) => [f, src[f]]));
+}
+
+function conflictPayload<T>(e: unknown, key: string): T | null {
+  if (!(e instanceof ApiError) || e.status !== 409 || e.message !== "VERSION_CONFLICT") return null;
+  return ((e.payload as Record<string, unknown> | null)?.[key] as T | undefined) ?? null;
 }
 
 function TaskCard({
   task,
   assigneeName,
+  labels,
+  highlighted,
+  selected,
   onClick,
 }: {
   task: Task;
   assigneeName: string | null;
-  onClick: () => void;
+  labels: Label[];
+  highlighted: boolean;
+  selected: boolean;
+  onClick: (e: ClickModifiers) => void;
 }) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: task.id,
@@ -114,18 +205,35 @@ function TaskCard({
   return (
     <button
       ref={setNodeRef}
+      id={`task-${task.id}`}
       style={style}
       {...attributes}
       {...listeners}
       onClick={onClick}
       className={[
-        "group w-full rounded-xl border border-zinc-200 bg-white px-3 py-2 text-left shadow-sm",
-        "hover:border-zinc-300 hover:bg-zinc-50",
+        "group w-full rounded-xl border px-3 py-2 text-left shadow-sm",
+        selected
+          ? "border-sky-300 bg-sky-50 ring-2 ring-sky-400"
+          : "border-zinc-200 bg-white hover:border-zinc-300 hover:bg-zinc-50",
         isDragging ? "opacity-60" : "",
+        highlighted ? "ring-2 ring-amber-400" : "",
       ].join(" ")}
     >
       <div className="flex items-start justify-between gap-2">
         <div className="min-w-0">
+          {labels.length > 0 && (
+            <div className="mb-1 flex flex-wrap gap-1">
+              {labels.map((l) => (
+                <span
+                  key={l.id}
+                  className="rounded-full px-2 py-0.5 text-[10px] font-medium text-white"
+                  style={{ backgroundColor: l.color }}
+                >
+                  {l.name}
+                </span>
+              ))}
+            </div>
+          )}
           <div className="truncate text-sm font-medium text-zinc-900">{task.title}</div>
           <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-zinc-600">
             {assigneeName && (
@@ -134,6 +242,21 @@ function TaskCard({
             {task.dueDate && (
               <span className="rounded-full bg-zinc-100 px-2 py-0.5">期限: {fmtDate(task.dueDate)}</span>
             )}
+            {(task.commentCount ?? 0) > 0 && (
+              <span className="rounded-full bg-zinc-100 px-2 py-0.5">コメント {task.commentCount}</span>
+            )}
+            {task.checklist && task.checklist.total > 0 && (
+              <span
+                className={[
+                  "rounded-full px-2 py-0.5",
+                  task.checklist.done === task.checklist.total
+                    ? "bg-emerald-50 text-emerald-700"
+                    : "bg-zinc-100",
+                ].join(" ")}
+              >
+                ✓ {task.checklist.done}/{task.checklist.total}
+              </span>
+            )}
           </div>
         </div>
         <span className="mt-0.5 text-xs text-zinc-400 opacity-0 transition-opacity group-hover:opacity-100">
@@ -144,37 +267,218 @@ function TaskCard({
   );
 }
 
+function ColumnSettings({
+  column,
+  otherColumns,
+  taskCount,
+  canMoveLeft,
+  canMoveRight,
+  onUpdate,
+  onMove,
+  onArchiveOlder,
+  onDelete,
+  onClose,
+}: {
+  column: BoardColumn;
+  otherColumns: BoardColumn[];
+  taskCount: number;
+  canMoveLeft: boolean;
+  canMoveRight: boolean;
+  onUpdate: (patch: { name?: string; color?: string }) => void;
+  onMove: (dir: -1 | 1) => void;
+  onArchiveOlder: (days: number) => void;
+  onDelete: (moveTo: string | null) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState(column.name);
+  const [moveTo, setMoveTo] = useState(otherColumns[0]?.id ?? "");
+  const [archiveDays, setArchiveDays] = useState(14);
+
+  return (
+    <div className="grid gap-3 rounded-xl border border-zinc-200 bg-white p-3 text-sm shadow-sm">
+      <label className="grid gap-1">
+        <span className="text-xs text-zinc-600">列名</span>
+        <div className="flex gap-2">
+          <input
+            className="h-8 min-w-0 flex-1 rounded-xl border border-zinc-200 px-3 outline-none focus:ring-2 focus:ring-zinc-300"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <button
+            className="h-8 rounded-xl bg-zinc-900 px-3 text-xs font-medium text-white disabled:opacity-50"
+            disabled={!name.trim() || name.trim() === column.name}
+            onClick={() => onUpdate({ name: name.trim() })}
+          >
+            変更
+          </button>
+        </div>
+      </label>
+
+      <div className="grid gap-1">
+        <span className="text-xs text-zinc-600">色</span>
+        <div className="flex gap-2">
+          {COLUMN_COLORS.map((c) => (
+            <button
+              key={c}
+              aria-label={c}
+              className={[
+                "h-6 w-6 rounded-full",
+                c === column.color ? "ring-2 ring-zinc-900 ring-offset-1" : "",
+              ].join(" ")}
+              style={{ backgroundColor: c }}
+              onClick={() => onUpdate({ color: c })}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          className="h-8 flex-1 rounded-xl bg-white text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50 disabled:opacity-50"
+          disabled={!canMoveLeft}
+          onClick={() => onMove(-1)}
+        >
+          ← 左へ
+        </button>
+        <button
+          className="h-8 flex-1 rounded-xl bg-white text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50 disabled:opacity-50"
+          disabled={!canMoveRight}
+          onClick={() => onMove(1)}
+        >
+          右へ →
+        </button>
+      </div>
+
+      {taskCount > 0 && (
+        <div className="grid gap-1 border-t border-zinc-200 pt-3">
+          <span className="text-xs text-zinc-600">アーカイブ</span>
+          <div className="flex items-center gap-2 text-xs">
+            <input
+              type="number"
+              min={0}
+              className="h-8 w-16 rounded-xl border border-zinc-200 px-2 outline-none focus:ring-2 focus:ring-zinc-300"
+              value={archiveDays}
+              onChange={(e) => setArchiveDays(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+            />
+            <span className="text-zinc-600">日以上更新のないタスクを</span>
+            <button
+              className="h-8 rounded-xl bg-white px-3 font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+              onClick={() => onArchiveOlder(archiveDays)}
+            >
+              アーカイブ
+            </button>
+          </div>
+        </div>
+      )}
+
+      {otherColumns.length > 0 && (
+        <div className="grid gap-2 border-t border-zinc-200 pt-3">
+          {taskCount > 0 && (
+            <label className="grid gap-1">
+              <span className="text-xs text-zinc-600">この列の {taskCount} 件のタスクの移動先</span>
+              <select
+                className="h-8 rounded-xl border border-zinc-200 bg-white px-2 outline-none focus:ring-2 focus:ring-zinc-300"
+                value={moveTo}
+                onChange={(e) => setMoveTo(e.target.value)}
+              >
+                {otherColumns.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <button
+            className="h-8 rounded-xl bg-rose-600 text-xs font-medium text-white"
+            onClick={() => onDelete(taskCount > 0 ? moveTo : null)}
+          >
+            列を削除
+          </button>
+        </div>
+      )}
+
+      <button className="text-xs text-zinc-600 hover:underline" onClick={onClose}>
+        閉じる
+      </button>
+    </div>
+  );
+}
+
 function Column({
-  status,
+  column,
+  columns,
   tasks,
+  totalCount,
   membersById,
+  labelsById,
+  highlightTaskId,
+  selectedIds,
   onAddTask,
-  onOpenTask,
+  onClickTask,
+  onUpdateColumn,
+  onMoveColumn,
+  onArchiveOlder,
+  onDeleteColumn,
 }: {
-  status: TaskStatus;
+  column: BoardColumn;
+  columns: BoardColumn[];
   tasks: Task[];
+  totalCount: number;
   membersById: Map<string, Member>;
-  onAddTask: (title: string, status: TaskStatus) => void;
-  onOpenTask: (task: Task) => void;
+  labelsById: Map<string, Label>;
+  highlightTaskId: string | null;
+  selectedIds: Set<string>;
+  onAddTask: (title: string, columnId: string) => void;
+  onClickTask: (task: Task, e: ClickModifiers) => void;
+  onUpdateColumn: (columnId: string, patch: { name?: string; color?: string }) => void;
+  onMoveColumn: (columnId: string, dir: -1 | 1) => void;
+  onArchiveOlder: (columnId: string, days: number) => void;
+  onDeleteColumn: (columnId: string, moveTo: string | null) => void;
 }) {
   const [title, setTitle] = useState("");
-  const { setNodeRef, isOver } = useDroppable({ id: status });
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const { setNodeRef, isOver } = useDroppable({ id: column.id });
 
   const ids = useMemo(() => tasks.map((t) => t.id), [tasks]);
+  const index = columns.findIndex((c) => c.id === column.id);
 
   return (
     <div
       ref={setNodeRef}
       className={[
-        "flex h-full flex-col gap-3 rounded-2xl border p-3",
+        "flex h-full w-72 shrink-0 flex-col gap-3 rounded-2xl border p-3",
         isOver ? "border-zinc-400 bg-zinc-100" : "border-zinc-200 bg-zinc-50",
       ].join(" ")}
     >
-      <div className="flex items-center justify-between">
-        <div className="text-sm font-semibold text-zinc-800">{STATUS_LABEL[status]}</div>
-        <div className="text-xs text-zinc-500">{tasks.length}</div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: column.color }} />
+          <div className="truncate text-sm font-semibold text-zinc-800">{column.name}</div>
+        </div>
+        <div className="flex items-center gap-2 text-xs text-zinc-500">
+          {tasks.length === totalCount ? totalCount : `${tasks.length}/${totalCount}`}
+          <button className="hover:underline" onClick={() => setSettingsOpen((v) => !v)}>
+            設定
+          </button>
+        </div>
       </div>
 
+      {settingsOpen && (
+        <ColumnSettings
+          column={column}
+          otherColumns={columns.filter((c) => c.id !== column.id)}
+          taskCount={totalCount}
+          canMoveLeft={index > 0}
+          canMoveRight={index < columns.length - 1}
+          onUpdate={(patch) => onUpdateColumn(column.id, patch)}
+          onMove={(dir) => onMoveColumn(column.id, dir)}
+          onArchiveOlder={(days) => onArchiveOlder(column.id, days)}
+          onDelete={(moveTo) => onDeleteColumn(column.id, moveTo)}
+          onClose={() => setSettingsOpen(false)}
+        />
+      )}
+
       <SortableContext items={ids} strategy={verticalListSortingStrategy}>
         <div className="flex flex-1 flex-col gap-2 overflow-auto pb-1">
           {tasks.map((t) => (
@@ -182,12 +486,15 @@ function Column({
               key={t.id}
               task={t}
               assigneeName={t.assigneeId ? membersById.get(t.assigneeId)?.displayName ?? null : null}
-              onClick={() => onOpenTask(t)}
+              labels={t.labelIds.flatMap((id) => labelsById.get(id) ?? [])}
+              highlighted={t.id === highlightTaskId}
+              selected={selectedIds.has(t.id)}
+              onClick={(e) => onClickTask(t, e)}
             />
           ))}
           {tasks.length === 0 && (
             <div className="rounded-xl border border-dashed border-zinc-200 bg-white px-3 py-6 text-center text-xs text-zinc-500">
-              ドラッグ&ドロップでここに移動できます
+              {totalCount > 0 ? "条件に合うタスクはありません" : "ドラッグ&ドロップでここに移動できます"}
             </div>
           )}
         </div>
@@ -201,7 +508,7 @@ function Column({
           placeholder="タスクを追加"
           onKeyDown={(e) => {
             if (e.key === "Enter" && title.trim()) {
-              onAddTask(title.trim(), status);
+              onAddTask(title.trim(), column.id);
               setTitle("");
             }
           }}
@@ -211,7 +518,7 @@ function Column({
           disabled={!title.trim()}
           onClick={() => {
             if (!title.trim()) return;
-            onAddTask(title.trim(), status);
+            onAddTask(title.trim(), column.id);
             setTitle("");
           }}
         >
@@ -222,36 +529,129 @@ function Column({
   );
 }
 
+function AddColumn({ onAdd }: { onAdd: (name: string) => void }) {
+  const [name, setName] = useState("");
+  const submit = () => {
+    if (!name.trim()) return;
+    onAdd(name.trim());
+    setName("");
+  };
+  return (
+    <div className="grid h-fit w-72 shrink-0 gap-2 rounded-2xl border border-dashed border-zinc-300 p-3">
+      <input
+        className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-sm outline-none focus:ring-2 focus:ring-zinc-300"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="列を追加"
+        onKeyDown={(e) => {
+          if (e.key === "Enter") submit();
+        }}
+      />
+      <button
+        className="h-9 rounded-xl bg-white text-sm font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50 disabled:opacity-50"
+        disabled={!name.trim()}
+        onClick={submit}
+      >
+        列を追加
+      </button>
+    </div>
+  );
+}
+
+function ConflictNotice({
+  conflict,
+  membersById,
+  labelsById,
+  onOverwrite,
+  onReload,
+}: {
+  conflict: TaskConflict;
+  membersById: Map<string, Member>;
+  labelsById: Map<string, Label>;
+  onOverwrite: () => void;
+  onReload: () => void;
+}) {
+  const { server, edited, fields } = conflict;
+  const show = (f: EditableField, v: TaskFields) => {
+    if (f === "assigneeId") return v.assigneeId ? membersById.get(v.assigneeId)?.displayName ?? "?" : "未設定";
+    if (f === "dueDate") return fmtDate(v.dueDate) || "未設定";
+    if (f === "labelIds") return v.labelIds.map((id) => labelsById.get(id)?.name ?? "?").join(", ") || "なし";
+    return v[f] || "（空）";
+  };
+  return (
+    <div className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+      <div className="font-medium">
+        {edited
+          ? "このタスクは他のメンバーが先に更新しました。"
+          : "このタスクは削除前に他のメンバーが更新しました。"}
+      </div>
+      {edited && fields.length > 0 && (
+        <ul className="mt-2 grid gap-1 text-xs">
+          {fields.map((f) => (
+            <li key={f}>
+              {FIELD_LABEL[f]}: 最新「{show(f, server)}」 / あなた「{show(f, edited)}」
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button
+          className="h-8 rounded-xl bg-amber-600 px-3 text-xs font-medium text-white"
+          onClick={onOverwrite}
+        >
+          {edited ? "自分の変更で上書き" : "それでも削除"}
+        </button>
+        <button
+          className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+          onClick={onReload}
+        >
+          最新の内容を読み込む
+        </button>
+      </div>
+    </div>
+  );
+}
+
 function EditModal({
   open,
   task,
   members,
+  labels,
+  meId,
+  conflict,
   onClose,
   onSave,
   onDelete,
+  onArchive,
+  onResolveConflict,
+  onCommentCountChange,
+  onChecklistChange,
 }: {
   open: boolean;
   task: Task | null;
   members: Member[];
+  labels: Label[];
+  meId: string;
+  conflict: TaskConflict | null;
   onClose: () => void;
-  onSave: (patch: {
-    title: string;
-    description: string | null;
-    assigneeId: string | null;
-    dueDate: string | null;
-  }) => void;
+  onSave: (patch: TaskFields) => void;
   onDelete: () => void;
+  onArchive: () => void;
+  onResolveConflict: (choice: "overwrite" | "reload") => void;
+  onCommentCountChange: (count: number) => void;
+  onChecklistChange: (summary: ChecklistSummary) => void;
 }) {
   const [title, setTitle] = useState(() => task?.title ?? "");
   const [description, setDescription] = useState(() => task?.description ?? "");
   const [assigneeId, setAssigneeId] = useState<string>(() => task?.assigneeId ?? "");
   const [dueDate, setDueDate] = useState<string>(() => toDateInputValue(task?.dueDate ?? null));
+  const [labelIds, setLabelIds] = useState<string[]>(() => task?.labelIds ?? []);
 
   if (!open || !task) return null;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
-      <div className="w-full max-w-lg rounded-2xl border border-zinc-200 bg-white shadow-xl">
+      <div className="max-h-full w-full max-w-lg overflow-auto rounded-2xl border border-zinc-200 bg-white shadow-xl">
         <div className="flex items-center justify-between border-b border-zinc-200 px-5 py-4">
           <div className="text-sm font-semibold">タスク編集</div>
           <button className="text-sm text-zinc-600 hover:underline" onClick={onClose}>
@@ -260,6 +660,16 @@ function EditModal({
         </div>
 
         <div className="grid gap-3 px-5 py-4">
+          {conflict && (
+            <ConflictNotice
+              conflict={conflict}
+              membersById={new Map(members.map((m) => [m.id, m]))}
+              labelsById={new Map(labels.map((l) => [l.id, l]))}
+              onOverwrite={() => onResolveConflict("overwrite")}
+              onReload={() => onResolveConflict("reload")}
+            />
+          )}
+
           <label className="grid gap-1 text-sm">
             <span className="text-zinc-700">タイトル</span>
             <input
@@ -306,15 +716,53 @@ function EditModal({
               />
             </label>
           </div>
+
+          {labels.length > 0 && (
+            <div className="grid gap-1 text-sm">
+              <span className="text-zinc-700">ラベル</span>
+              <div className="flex flex-wrap gap-2">
+                {labels.map((l) => {
+                  const on = labelIds.includes(l.id);
+                  return (
+                    <button
+                      key={l.id}
+                      className={[
+                        "rounded-full px-3 py-1 text-xs font-medium",
+                        on ? "text-white" : "bg-white text-zinc-700 ring-1 ring-zinc-200",
+                      ].join(" ")}
+                      style={on ? { backgroundColor: l.color } : undefined}
+                      onClick={() =>
+                        setLabelIds((cur) => (on ? cur.filter((id) => id !== l.id) : [...cur, l.id]))
+                      }
+                    >
+                      {l.name}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <ChecklistEditor taskId={task.id} onSummaryChange={onChecklistChange} />
+
+          <CommentThread taskId={task.id} meId={meId} onCountChange={onCommentCountChange} />
         </div>
 
         <div className="flex flex-col gap-2 border-t border-zinc-200 px-5 py-4 md:flex-row md:items-center md:justify-between">
-          <button
-            className="h-10 rounded-xl bg-rose-600 px-4 text-sm font-medium text-white"
-            onClick={onDelete}
-          >
-            削除
-          </button>
+          <div className="flex gap-2">
+            <button
+              className="h-10 rounded-xl bg-rose-600 px-4 text-sm font-medium text-white"
+              onClick={onDelete}
+            >
+              削除
+            </button>
+            <button
+              className="h-10 rounded-xl bg-white px-4 text-sm font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+              onClick={onArchive}
+            >
+              アーカイブ
+            </button>
+          </div>
           <div className="flex gap-2">
             <button
               className="h-10 rounded-xl bg-white px-4 text-sm font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
@@ -331,6 +779,8 @@ function EditModal({
                   description: description.trim() ? description.trim() : null,
                   assigneeId: assigneeId || null,
                   dueDate: dueDate ? new Date(dueDate).toISOString() : null,
+                  // a label may have been deleted while the modal was open
+                  labelIds: labelIds.filter((id) => labels.some((l) => l.id === id)),
                 })
               }
             >
@@ -348,18 +798,41 @@ export default function BoardClient({ projectId }: { projectId: string }) {
   const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 6 } }));
 
   const [board, setBoard] = useState<BoardResponse | null>(null);
-  const [columns, setColumns] = useState<Record<TaskStatus, Task[]>>({
-    TODO: [],
-    DOING: [],
-    DONE: [],
-  });
+  const [columns, setColumns] = useState<Columns>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [editing, setEditing] = useState<Task | null>(null);
   const [savingBoard, setSavingBoard] = useState(false);
+  const [live, setLive] = useState(false);
+  const [taskConflict, setTaskConflict] = useState<TaskConflict | null>(null);
+  const [showActivity, setShowActivity] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [showTokens, setShowTokens] = useState(false);
+  // the last deleted task, offered for undo until the toast times out
+  const [undo, setUndo] = useState<{ taskId: string; title: string } | null>(null);
+  const [activityKey, setActivityKey] = useState(0);
+  const [filter, setFilter] = useState<TaskFilter>(EMPTY_FILTER);
+  const [highlightTaskId, setHighlightTaskId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [bulkBusy, setBulkBusy] = useState(false);
 
   const lastLoadedAt = useRef<number>(0);
   const savingRef = useRef<boolean>(false);
+  const draggingRef = useRef<boolean>(false);
+  // the dragged card as it was before the drag, to put back on cancel
+  const dragOriginRef = useRef<Task | null>(null);
+  const missedEventsRef = useRef<boolean>(false);
+  const streamConnectedRef = useRef<boolean>(false);
+  // applyEvent runs inside the stream effect's closure, so it can't read `board`
+  const meIdRef = useRef<string | null>(null);
+  // last board cursor; null forces the next refresh to load everything
+  const cursorRef = useRef<string | null>(null);
+  const highlightTimerRef = useRef<number | null>(null);
+  const undoTimerRef = useRef<number | null>(null);
+  // the card a shift-click range starts from
+  const selectAnchorRef = useRef<string | null>(null);
 
   const membersById = useMemo(() => {
     const m = new Map<string, Member>();
@@ -367,84 +840,243 @@ export default function BoardClient({ projectId }: { projectId: string }) {
     return m;
   }, [board?.members]);
 
-  function findContainer(id: string, col: Record<TaskStatus, Task[]>) {
-    if (STATUSES.includes(id as TaskStatus)) return id as TaskStatus;
-    for (const s of STATUSES) if (col[s].some((t) => t.id === id)) return s;
+  const labelsById = useMemo(
+    () => new Map((board?.labels ?? []).map((l) => [l.id, l])),
+    [board?.labels],
+  );
+
+  // ids of cards that left the board stay in the set harmlessly; only live ones are acted on
+  const selectedTasks = useMemo(
+    () => allTasks(columns).filter((t) => selectedIds.has(t.id)),
+    [columns, selectedIds],
+  );
+
+  // filtering is display-only: `columns` keeps every task so drag reorders stay complete
+  const visibleColumns = useMemo(() => {
+    if (!isFilterActive(filter)) return columns;
+    const now = new Date();
+    const out: Columns = {};
+    for (const [id, tasks] of Object.entries(columns)) {
+      out[id] = tasks.filter((t) => matchesFilter(t, filter, now));
+    }
+    return out;
+  }, [columns, filter]);
+
+  function findContainer(id: string, col: Columns) {
+    if (id in col) return id;
+    for (const [columnId, tasks] of Object.entries(col)) {
+      if (tasks.some((t) => t.id === id)) return columnId;
+    }
     return null;
   }
 
-  async function refresh() {
-    const memberId = getMemberId();
-    if (!memberId) {
-      router.push("/");
-      return;
-    }
+  /**
+   * Loads the board. After the first load only changes since the last cursor are
+   * fetched; pass `full` to discard local state that may have diverged (e.g. a
+   * failed save of an optimistic reorder).
+   */
+  async function refresh(full = false) {
+    if (full) cursorRef.current = null;
+    const since = cursorRef.current;
     try {
-      const res = await apiFetch<BoardResponse>(`/api/projects/${projectId}/board`, { method: "GET" });
+      const res = await api.board(projectId, since);
+      // a full load racing a delta must not be followed by an older cursor
+      if (cursorRef.current !== since) return;
+      cursorRef.current = res.cursor;
       setBoard(res);
-      setColumns(groupByStatus(res.tasks));
+      meIdRef.current = res.me.memberId;
+      const columnIds = res.columns.map((c) => c.id);
+      setColumns((prev) =>
+        res.full
+          ? groupByColumn(res.tasks, columnIds)
+          : mergeDelta(prev, res.tasks, res.deletedTaskIds, columnIds),
+      );
+      setActivityKey((k) => k + 1);
       setError(null);
       lastLoadedAt.current = Date.now();
     } catch (e) {
       const msg = (e as Error).message;
       setError(msg);
-      if (msg === "MISSING_MEMBER_ID" || msg === "FORBIDDEN") router.push("/");
+      if (msg === "UNAUTHENTICATED" || msg === "FORBIDDEN") router.push("/");
     } finally {
       setLoading(false);
     }
   }
 
+  function applyEvent(ev: BoardEvent) {
+    // local drag state wins; catch up once the drag has been saved
+    if (draggingRef.current || savingRef.current) {
+      missedEventsRef.current = true;
+      return;
+    }
+    setActivityKey((k) => k + 1);
+    switch (ev.type) {
+      case "task.created":
+      case "task.updated":
+        setColumns((prev) => upsertTask(prev, ev.task));
+        break;
+      case "task.deleted":
+        setColumns((prev) => removeTask(prev, ev.taskId));
+        break;
+      case "tasks.archived":
+        setColumns((prev) => ev.taskIds.reduce(removeTask, prev));
+        break;
+      case "comments.changed":
+        setColumns((prev) => patchTask(prev, ev.taskId, { commentCount: ev.commentCount }));
+        break;
+      case "checklist.changed":
+        setColumns((prev) => patchTask(prev, ev.taskId, { checklist: ev.checklist }));
+        break;
+      case "board.reordered":
+        setColumns((prev) => applyReorder(prev, ev.tasks));
+        break;
+      case "columns.changed":
+        applyColumns(ev.columns);
+        break;
+      case "labels.changed":
+        applyLabels(ev.labels);
+        break;
+      case "member.joined":
+        setBoard((prev) =>
+          prev && !prev.members.some((m) => m.id === ev.member.id)
+            ? { ...prev, members: [...prev.members, ev.member] }
+            : prev,
+        );
+        break;
+      case "member.updated":
+        setBoard((prev) =>
+          prev
+            ? { ...prev, members: prev.members.map((m) => (m.id === ev.member.id ? ev.member : m)) }
+            : prev,
+        );
+        break;
+      case "member.removed":
+        if (ev.memberId === meIdRef.current) {
+          router.push("/");
+          return;
+        }
+        setBoard((prev) =>
+          prev ? { ...prev, members: prev.members.filter((m) => m.id !== ev.memberId) } : prev,
+        );
+        break;
+      case "invite.changed":
+        setBoard((prev) => (prev ? { ...prev, invite: ev.invite } : prev));
+        break;
+      case "project.deleted":
+        router.push("/");
+        break;
+    }
+  }
+
   useEffect(() => {
-    refresh();
+    refresh(true);
     const t = window.setInterval(() => {
+      // the event stream keeps the board current; poll only while it is down
+      if (streamConnectedRef.current) return;
       // avoid hammering while the user is actively dragging/saving
       if (savingRef.current) return;
       if (document.visibilityState !== "visible") return;
-      // refresh at most every 5s
-      if (Date.now() - lastLoadedAt.current < 5000) return;
+      if (Date.now() - lastLoadedAt.current < POLL_MIN_GAP_MS) return;
       refresh();
-    }, 2000);
+    }, POLL_INTERVAL_MS);
     return () => window.clearInterval(t);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [projectId]);
 
-  async function addTask(title: string, status: TaskStatus) {
-    try {
-      const res = await apiFetch<{ task: Task }>(`/api/projects/${projectId}/tasks`, {
-        method: "POST",
-        json: { title, status },
-      });
-      setColumns((prev) => {
-        const next = { ...prev, [status]: [...prev[status], res.task] };
-        return normalizeOrders(next);
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let retryTimer: number | undefined;
+    let connectedOnce = false;
+    let disposed = false;
+
+    const connect = () => {
+      source = new EventSource(`/api/projects/${projectId}/events`);
+      source.addEventListener("ready", () => {
+        streamConnectedRef.current = true;
+        setLive(true);
+        // events may have been missed while disconnected
+        if (connectedOnce) refresh();
+        connectedOnce = true;
       });
+      source.onmessage = (e) => {
+        try {
+          applyEvent(JSON.parse(e.data) as BoardEvent);
+        } catch {
+          // ignore malformed events
+        }
+      };
+      source.onerror = () => {
+        streamConnectedRef.current = false;
+        setLive(false);
+        // EventSource retries by itself unless the server refused the stream
+        if (source?.readyState === EventSource.CLOSED && !disposed) {
+          source.close();
+          retryTimer = window.setTimeout(connect, STREAM_RETRY_MS);
+        }
+      };
+    };
+
+    connect();
+    return () => {
+      disposed = true;
+      window.clearTimeout(retryTimer);
+      source?.close();
+      streamConnectedRef.current = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setSelectedIds((prev) => (prev.size > 0 ? new Set() : prev));
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  async function addTask(title: string, columnId: string) {
+    try {
+      const res = await api.createTask(projectId, { title, columnId });
+      // the stream may have delivered this task already
+      setColumns((prev) => upsertTask(prev, res.task));
     } catch (e) {
       setError((e as Error).message);
     }
   }
 
-  async function persistBoardLayout(nextColumns: Record<TaskStatus, Task[]>) {
+  /** Saves a drop: only the moved card is written, plus any siblings the server respaced. */
+  async function moveTask(taskId: string, version: number, columnId: string, afterId: string | null) {
     savingRef.current = true;
     setSavingBoard(true);
     try {
-      await apiFetch<{ ok: true }>(`/api/projects/${projectId}/board`, {
-        method: "PUT",
-        json: { tasks: flattenUpdates(nextColumns) },
-      });
+      const res = await api.moveTask(taskId, { version, columnId, afterId });
+      setColumns((prev) => upsertTask(applyReorder(prev, res.rebalanced), res.task));
       setError(null);
     } catch (e) {
-      setError((e as Error).message);
-      // re-sync from server if saving failed
-      refresh();
+      const server = conflictPayload<Task>(e, "task");
+      if (server) {
+        // someone else moved or edited the card first; theirs stands
+        setColumns((prev) => upsertTask(prev, server));
+        setError("このタスクは他のメンバーが先に更新しました。");
+      } else {
+        setError((e as Error).message);
+        // the optimistic slot may be wrong (e.g. the card above it moved meanwhile); a delta wouldn't undo it
+        refresh(true);
+      }
     } finally {
       setSavingBoard(false);
       savingRef.current = false;
     }
+    if (missedEventsRef.current) {
+      missedEventsRef.current = false;
+      refresh();
+    }
   }
 
   function onDragStart(ev: DragStartEvent) {
-    // no-op (kept for future enhancements)
-    void ev;
+    const id = String(ev.active.id);
+    dragOriginRef.current = allTasks(columns).find((t) => t.id === id) ?? null;
+    draggingRef.current = true;
   }
 
   function onDragOver(ev: DragOverEvent) {
@@ -477,7 +1109,7 @@ export default function BoardClient({ projectId }: { projectId: string }) {
       const insertAt = overIndex >= 0 ? overIndex : prev[overContainer].length;
       const nextOver = [
         ...prev[overContainer].slice(0, insertAt),
-        { ...moving, status: overContainer },
+        { ...moving, columnId: overContainer },
         ...prev[overContainer].slice(insertAt),
       ];
 
@@ -489,69 +1121,384 @@ export default function BoardClient({ projectId }: { projectId: string }) {
     });
   }
 
+  // undoes the onDragOver preview and catches up on events held back during the drag
+  function revertDrag(origin: Task | null) {
+    if (origin) setColumns((prev) => upsertTask(prev, origin));
+    if (missedEventsRef.current) {
+      missedEventsRef.current = false;
+      refresh();
+    }
+  }
+
+  // Escape, a window resize or hiding the tab cancel the drag without an onDragEnd
+  function onDragCancel() {
+    const origin = dragOriginRef.current;
+    draggingRef.current = false;
+    dragOriginRef.current = null;
+    revertDrag(origin);
+  }
+
   function onDragEnd(ev: DragEndEvent) {
-    const { active, over } = ev;
-    if (!over) {
-      setColumns((prev) => normalizeOrders(prev));
+    const origin = dragOriginRef.current;
+    draggingRef.current = false;
+    dragOriginRef.current = null;
+
+    const columnId = origin && ev.over ? findContainer(origin.id, columns) : null;
+    const list = columnId ? columns[columnId] : [];
+    const index = list.findIndex((t) => t.id === origin?.id);
+    const before = list[index - 1] ?? null;
+    const after = list[index + 1] ?? null;
+    const unchanged =
+      !origin ||
+      !columnId ||
+      index < 0 ||
+      (origin.columnId === columnId &&
+        (!before || compareRanks(before, origin) < 0) &&
+        (!after || compareRanks(origin, after) < 0));
+
+    if (unchanged) {
+      // dropped outside a column or back where it started
+      revertDrag(origin);
       return;
     }
-    void active; // kept for future enhancements
+
+    // the preview already shows the card in place; give it a rank that agrees until the server answers
+    let rank = origin.rank;
+    try {
+      rank = rankBetween(before?.rank ?? null, after?.rank ?? null);
+    } catch {
+      // neighbours share a rank; the server respaces the column
+    }
+    setColumns((prev) => patchTask(prev, origin.id, { columnId, rank }));
+    void moveTask(origin.id, origin.version, columnId, before?.id ?? null);
+  }
+
+  function applyColumns(next: BoardColumn[]) {
+    setBoard((prev) => (prev ? { ...prev, columns: next } : prev));
+    setColumns((prev) => groupByColumn(allTasks(prev), next.map((c) => c.id)));
+  }
+
+  function applyLabels(next: Label[]) {
+    setBoard((prev) => (prev ? { ...prev, labels: next } : prev));
+    // deleted labels are detached server-side; mirror that locally
+    const ids = new Set(next.map((l) => l.id));
     setColumns((prev) => {
-      const next = normalizeOrders(prev);
-      void persistBoardLayout(next);
-      return next;
+      const out: Columns = {};
+      for (const [col, tasks] of Object.entries(prev)) {
+        out[col] = tasks.map((t) =>
+          t.labelIds.every((id) => ids.has(id)) ? t : { ...t, labelIds: t.labelIds.filter((id) => ids.has(id)) },
+        );
+      }
+      return out;
     });
+    setFilter((f) => (f.labelId && !ids.has(f.labelId) ? { ...f, labelId: "" } : f));
   }
 
-  async function saveTaskEdits(patch: {
-    title: string;
-    description: string | null;
-    assigneeId: string | null;
-    dueDate: string | null;
-  }) {
-    if (!editing) return;
+  async function createLabel(name: string, color: string) {
     try {
-      const res = await apiFetch<{ task: Task }>(`/api/tasks/${editing.id}`, {
-        method: "PATCH",
-        json: patch,
-      });
-      setColumns((prev) => {
-        const next: Record<TaskStatus, Task[]> = { TODO: [], DOING: [], DONE: [] };
-        for (const s of STATUSES) {
-          next[s] = prev[s].map((t) => (t.id === res.task.id ? { ...t, ...res.task } : t));
-        }
-        return next;
-      });
-      setEditing(null);
+      const res = await api.createLabel(projectId, { name, color });
+      if (board && !board.labels.some((l) => l.id === res.label.id)) {
+        applyLabels([...board.labels, res.label].sort((a, b) => a.name.localeCompare(b.name)));
+      }
       setError(null);
     } catch (e) {
       setError((e as Error).message);
     }
   }
 
-  async function deleteTask() {
-    if (!editing) return;
-    const id = editing.id;
+  async function updateLabel(labelId: string, patch: { name?: string; color?: string }) {
     try {
-      await apiFetch<{ ok: true }>(`/api/tasks/${id}`, { method: "DELETE" });
-      setColumns((prev) => {
-        const next: Record<TaskStatus, Task[]> = { TODO: [], DOING: [], DONE: [] };
-        for (const s of STATUSES) next[s] = prev[s].filter((t) => t.id !== id);
-        return normalizeOrders(next);
-      });
+      const res = await api.patchLabel(projectId, labelId, patch);
+      if (board) applyLabels(board.labels.map((l) => (l.id === labelId ? res.label : l)));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function deleteLabel(labelId: string) {
+    try {
+      await api.deleteLabel(projectId, labelId);
+      if (board) applyLabels(board.labels.filter((l) => l.id !== labelId));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function addColumn(name: string) {
+    try {
+      const res = await api.createColumn(projectId, { name });
+      if (board && !board.columns.some((c) => c.id === res.column.id)) {
+        applyColumns([...board.columns, res.column]);
+      }
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function updateColumn(columnId: string, patch: { name?: string; color?: string }) {
+    try {
+      const res = await api.patchColumn(projectId, columnId, patch);
+      if (board) applyColumns(board.columns.map((c) => (c.id === columnId ? res.column : c)));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function moveColumn(columnId: string, dir: -1 | 1) {
+    if (!board) return;
+    const ids = board.columns.map((c) => c.id);
+    const from = ids.indexOf(columnId);
+    const to = from + dir;
+    if (from < 0 || to < 0 || to >= ids.length) return;
+    try {
+      const res = await api.reorderColumns(projectId, arrayMove(ids, from, to));
+      applyColumns(res.columns);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+      refresh();
+    }
+  }
+
+  async function deleteColumn(columnId: string, moveTo: string | null) {
+    try {
+      await api.deleteColumn(projectId, columnId, moveTo);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+    // cards moved server-side; reload rather than replay the move locally
+    refresh();
+  }
+
+  async function saveTaskEdits(edited: TaskFields, base: Task) {
+    // only send what the user actually changed so concurrent edits to other fields survive
+    const fields = changedFields(base, edited);
+    if (fields.length === 0) {
+      setEditing(null);
+      setTaskConflict(null);
+      return;
+    }
+    try {
+      const res = await api.patchTask(base.id, { version: base.version, ...pickFields(edited, fields) });
+      setColumns((prev) => upsertTask(prev, res.task));
+      setEditing(null);
+      setTaskConflict(null);
+      setError(null);
+    } catch (e) {
+      const server = conflictPayload<Task>(e, "task");
+      if (!server) {
+        setError((e as Error).message);
+        return;
+      }
+      setColumns((prev) => upsertTask(prev, server));
+      const theirs = changedFields(base, server);
+      const differs = changedFields(server, edited);
+      const clashing = fields.filter((f) => theirs.includes(f) && differs.includes(f));
+      if (clashing.length === 0) {
+        // disjoint fields: merge automatically on top of the newer version
+        await saveTaskEdits({ ...server, ...pickFields(edited, fields) }, server);
+        return;
+      }
+      setTaskConflict({ server, edited, fields: clashing });
+    }
+  }
+
+  async function deleteTask(base: Task) {
+    const id = base.id;
+    try {
+      await api.deleteTask(id, base.version);
+      setColumns((prev) => removeTask(prev, id));
       setEditing(null);
+      setTaskConflict(null);
+      setError(null);
+      setUndo({ taskId: id, title: base.title });
+      if (undoTimerRef.current !== null) window.clearTimeout(undoTimerRef.current);
+      undoTimerRef.current = window.setTimeout(() => setUndo(null), UNDO_TOAST_MS);
+    } catch (e) {
+      const server = conflictPayload<Task>(e, "task");
+      if (!server) {
+        setError((e as Error).message);
+        return;
+      }
+      setColumns((prev) => upsertTask(prev, server));
+      setTaskConflict({ server, edited: null, fields: changedFields(base, server) });
+    }
+  }
+
+  async function archiveTasks(taskIds: string[]) {
+    try {
+      const res = await api.archiveTasks(projectId, { taskIds });
+      setColumns((prev) => res.archived.reduce(removeTask, prev));
+      if (editing && res.archived.includes(editing.id)) closeEditor();
       setError(null);
     } catch (e) {
       setError((e as Error).message);
     }
   }
 
+  async function archiveOlder(columnId: string, days: number) {
+    try {
+      const res = await api.archiveTasks(projectId, { columnId, olderThanDays: days });
+      setColumns((prev) => res.archived.reduce(removeTask, prev));
+      setError(res.archived.length === 0 ? "アーカイブ対象のタスクはありませんでした" : null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function restoreTask(taskId: string) {
+    setUndo((prev) => (prev?.taskId === taskId ? null : prev));
+    try {
+      const res = await api.restoreTask(projectId, taskId);
+      // it kept its rank, so it sorts back into its old slot
+      setColumns((prev) => upsertTask(prev, res.task));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  function resolveTaskConflict(choice: "overwrite" | "reload") {
+    if (!taskConflict) return;
+    const { server, edited } = taskConflict;
+    setTaskConflict(null);
+    if (choice === "reload") {
+      setEditing(server);
+      return;
+    }
+    if (edited) void saveTaskEdits(edited, server);
+    else void deleteTask(server);
+  }
+
+  function closeEditor() {
+    setEditing(null);
+    setTaskConflict(null);
+  }
+
+  async function changeRole(memberId: string, role: Role) {
+    try {
+      const res = await api.patchMember(projectId, memberId, { role });
+      setBoard((prev) =>
+        prev
+          ? { ...prev, members: prev.members.map((m) => (m.id === memberId ? res.member : m)) }
+          : prev,
+      );
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function removeMember(memberId: string) {
+    try {
+      await api.removeMember(projectId, memberId);
+      if (memberId === board?.me.memberId) {
+        router.push("/");
+        return;
+      }
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+    // their cards were unassigned server-side
+    refresh();
+  }
+
+  async function deleteProject() {
+    try {
+      await api.deleteProject(projectId);
+      router.push("/");
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
   async function copyInviteLink() {
-    if (!board) return;
-    const url = `${window.location.origin}/join?code=${encodeURIComponent(board.project.inviteCode)}`;
+    if (!board?.invite) return;
+    const url = `${window.location.origin}/join?code=${encodeURIComponent(board.invite.code)}`;
     await navigator.clipboard.writeText(url);
   }
 
+  function findTask(taskId: string) {
+    return allTasks(columns).find((t) => t.id === taskId) ?? null;
+  }
+
+  function jumpToTask(taskId: string) {
+    const task = findTask(taskId);
+    if (!task) {
+      setError("タスクが見つかりません（削除された可能性があります）");
+      return;
+    }
+    // a search hit hidden by the filter would scroll to nothing
+    if (isFilterActive(filter) && !matchesFilter(task, filter, new Date())) setFilter(EMPTY_FILTER);
+    setHighlightTaskId(taskId);
+    requestAnimationFrame(() => {
+      document
+        .getElementById(`task-${taskId}`)
+        ?.scrollIntoView({ block: "center", inline: "center", behavior: "smooth" });
+    });
+    if (highlightTimerRef.current !== null) window.clearTimeout(highlightTimerRef.current);
+    highlightTimerRef.current = window.setTimeout(() => setHighlightTaskId(null), 2500);
+  }
+
+  function clickTask(task: Task, e: ClickModifiers) {
+    if (!e.shiftKey && !e.ctrlKey && !e.metaKey) {
+      setSelectedIds(new Set());
+      setEditing(task);
+      return;
+    }
+    const list = visibleColumns[task.columnId] ?? [];
+    const from = list.findIndex((t) => t.id === selectAnchorRef.current);
+    const to = list.findIndex((t) => t.id === task.id);
+    if (e.shiftKey && from >= 0 && to >= 0) {
+      const range = list.slice(Math.min(from, to), Math.max(from, to) + 1).map((t) => t.id);
+      setSelectedIds((prev) => new Set([...prev, ...range]));
+      return;
+    }
+    selectAnchorRef.current = task.id;
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(task.id)) next.add(task.id);
+      return next;
+    });
+  }
+
+  async function applyBulk(action: BulkAction) {
+    const tasks = selectedTasks.map((t) => ({ id: t.id, version: t.version }));
+    if (tasks.length === 0) return;
+    setBulkBusy(true);
+    try {
+      const res = await api.bulkTasks(projectId, { tasks, action });
+      setColumns((prev) => {
+        let next = applyReorder(prev, res.rebalanced ?? []);
+        for (const t of res.tasks ?? []) next = upsertTask(next, t);
+        return (res.deleted ?? []).reduce(removeTask, next);
+      });
+      setSelectedIds(new Set());
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+      // TASKS_CHANGED: a selected card was edited or removed meanwhile; catch up before retrying
+      refresh();
+    } finally {
+      setBulkBusy(false);
+    }
+  }
+
+  function openTask(taskId: string) {
+    const task = findTask(taskId);
+    if (!task) {
+      setError("タスクが見つかりません（削除された可能性があります）");
+      return;
+    }
+    setEditing(task);
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-zinc-50">
@@ -589,7 +1536,23 @@ export default function BoardClient({ projectId }: { projectId: string }) {
           <div className="flex flex-col gap-2 md:items-end">
             <div className="flex flex-wrap items-center gap-2">
               <span className="rounded-full bg-white px-3 py-1 text-xs text-zinc-700 ring-1 ring-zinc-200">
-                招待コード: <span className="font-mono font-semibold">{board.project.inviteCode}</span>
+                招待コード:{" "}
+                {board.invite ? (
+                  <span className="font-mono font-semibold">{board.invite.code}</span>
+                ) : (
+                  "なし"
+                )}
+                {board.invite?.expiresAt && `（${fmtDate(board.invite.expiresAt)}まで）`}
+              </span>
+              <span
+                className={[
+                  "rounded-full px-3 py-1 text-xs ring-1",
+                  live
+                    ? "bg-emerald-50 text-emerald-700 ring-emerald-200"
+                    : "bg-white text-zinc-500 ring-zinc-200",
+                ].join(" ")}
+              >
+                {live ? "リアルタイム同期中" : "自動更新（ポーリング）"}
               </span>
               {savingBoard && (
                 <span className="rounded-full bg-amber-50 px-3 py-1 text-xs text-amber-700 ring-1 ring-amber-200">
@@ -597,24 +1560,76 @@ export default function BoardClient({ projectId }: { projectId: string }) {
                 </span>
               )}
               <button
-                className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+                className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50 disabled:opacity-50"
+                disabled={!board.invite}
                 onClick={() => void copyInviteLink()}
               >
                 招待リンクをコピー
               </button>
+              <button
+                className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+                onClick={() => setShowActivity((v) => !v)}
+              >
+                アクティビティ
+              </button>
+              <button
+                className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+                onClick={() => setShowTrash((v) => !v)}
+              >
+                ゴミ箱
+              </button>
+              <Link
+                className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+                href={`/p/${projectId}/archive`}
+              >
+                アーカイブ
+              </Link>
+              {/* the route sets Content-Disposition, so this downloads instead of navigating */}
+              <a
+                className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+                href={`/api/projects/${projectId}/export`}
+                download
+              >
+                エクスポート
+              </a>
+              <a
+                className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+                href={`/api/projects/${projectId}/tasks/csv`}
+                download
+              >
+                CSV出力
+              </a>
+              <button
+                className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+                onClick={() => setShowCsvImport(true)}
+              >
+                CSV取り込み
+              </button>
+              <button
+                className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+                onClick={() => setShowCalendar(true)}
+              >
+                カレンダー連携
+              </button>
+              <button
+                className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+                onClick={() => setShowTokens(true)}
+              >
+                APIトークン
+              </button>
               <Link className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50" href="/">
                 プロジェクト切替
               </Link>
             </div>
-            <div className="flex flex-wrap gap-2 text-xs text-zinc-600">
-              <span className="text-zinc-500">メンバー:</span>
-              {board.members.map((m) => (
-                <span key={m.id} className="rounded-full bg-zinc-100 px-2 py-0.5">
-                  {m.displayName}
-                  {m.role === "OWNER" ? " (Owner)" : ""}
-                </span>
-              ))}
-            </div>
+            <MemberStrip
+              projectId={projectId}
+              members={board.members}
+              meId={board.me.memberId}
+              onChangeRole={(id, role) => void changeRole(id, role)}
+              onRemove={(id) => void removeMember(id)}
+              onInvitesChanged={() => void refresh()}
+              onDeleteProject={() => void deleteProject()}
+            />
           </div>
         </header>
 
@@ -624,35 +1639,143 @@ export default function BoardClient({ projectId }: { projectId: string }) {
           </div>
         )}
 
-        <DndContext
-          sensors={sensors}
-          collisionDetection={closestCorners}
-          onDragStart={onDragStart}
-          onDragOver={onDragOver}
-          onDragEnd={onDragEnd}
-        >
-          <div className="grid h-[calc(100vh-220px)] gap-4 md:grid-cols-3">
-            {STATUSES.map((status) => (
-              <Column
-                key={status}
-                status={status}
-                tasks={columns[status]}
+        <SearchBox projectId={projectId} onJump={jumpToTask} onOpen={openTask} />
+
+        {selectedTasks.length > 0 && (
+          <BulkToolbar
+            count={selectedTasks.length}
+            columns={board.columns}
+            members={board.members}
+            labels={board.labels}
+            busy={bulkBusy}
+            onApply={(action) => void applyBulk(action)}
+            onClear={() => setSelectedIds(new Set())}
+          />
+        )}
+
+        <FilterBar
+          filter={filter}
+          labels={board.labels}
+          members={board.members}
+          onChange={setFilter}
+          onCreateLabel={(name, color) => void createLabel(name, color)}
+          onUpdateLabel={(id, patch) => void updateLabel(id, patch)}
+          onDeleteLabel={(id) => void deleteLabel(id)}
+        />
+
+        <div className="flex flex-col gap-4 md:flex-row">
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCorners}
+            onDragStart={onDragStart}
+            onDragOver={onDragOver}
+            onDragEnd={onDragEnd}
+            onDragCancel={onDragCancel}
+          >
+            <div className="flex h-[calc(100vh-220px)] flex-1 gap-4 overflow-x-auto pb-2">
+              {board.columns.map((column) => (
+                <Column
+                  key={column.id}
+                  column={column}
+                  columns={board.columns}
+                  tasks={visibleColumns[column.id] ?? []}
+                  totalCount={columns[column.id]?.length ?? 0}
+                  membersById={membersById}
+                  labelsById={labelsById}
+                  highlightTaskId={highlightTaskId}
+                  selectedIds={selectedIds}
+                  onAddTask={addTask}
+                  onClickTask={clickTask}
+                  onUpdateColumn={(id, patch) => void updateColumn(id, patch)}
+                  onMoveColumn={(id, dir) => void moveColumn(id, dir)}
+                  onArchiveOlder={(id, days) => void archiveOlder(id, days)}
+                  onDeleteColumn={(id, moveTo) => void deleteColumn(id, moveTo)}
+                />
+              ))}
+              <AddColumn onAdd={(name) => void addColumn(name)} />
+            </div>
+          </DndContext>
+
+          {showActivity && (
+            <div className="h-[calc(100vh-220px)]">
+              <ActivitySidebar
+                projectId={projectId}
                 membersById={membersById}
-                onAddTask={addTask}
-                onOpenTask={(t) => setEditing(t)}
+                refreshKey={activityKey}
+                onClose={() => setShowActivity(false)}
               />
-            ))}
+            </div>
+          )}
+
+          {showTrash && (
+            <div className="h-[calc(100vh-220px)]">
+              <TrashPanel
+                projectId={projectId}
+                columnName={(id) => board.columns.find((c) => c.id === id)?.name ?? "?"}
+                refreshKey={activityKey}
+                onRestore={restoreTask}
+                onClose={() => setShowTrash(false)}
+              />
+            </div>
+          )}
+        </div>
+
+        {undo && (
+          <div className="fixed bottom-6 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-xl bg-zinc-900 px-4 py-2.5 text-sm text-white shadow-lg">
+            <span className="max-w-xs truncate">「{undo.title}」をゴミ箱に移動しました</span>
+            <button className="font-medium text-amber-300 hover:underline" onClick={() => void restoreTask(undo.taskId)}>
+              元に戻す
+            </button>
           </div>
-        </DndContext>
+        )}
+
+        {showCsvImport && (
+          <CsvImport
+            projectId={projectId}
+            onClose={() => setShowCsvImport(false)}
+            onImported={() => {
+              setShowCsvImport(false);
+              refresh();
+            }}
+          />
+        )}
+
+        {showCalendar && (
+          <CalendarFeeds
+            projectId={projectId}
+            members={board.members}
+            meId={board.me.memberId}
+            onClose={() => setShowCalendar(false)}
+          />
+        )}
+
+        {showTokens && <ApiTokens projectId={projectId} onClose={() => setShowTokens(false)} />}
 
         <EditModal
-          key={editing?.id ?? "none"}
+          key={editing ? `${editing.id}:${editing.version}` : "none"}
           open={editing !== null}
           task={editing}
           members={board.members}
-          onClose={() => setEditing(null)}
-          onSave={(patch) => void saveTaskEdits(patch)}
-          onDelete={() => void deleteTask()}
+          labels={board.labels}
+          meId={board.me.memberId}
+          conflict={taskConflict}
+          onClose={closeEditor}
+          onSave={(patch) => {
+            if (editing) void saveTaskEdits(patch, editing);
+          }}
+          onDelete={() => {
+            if (editing) void deleteTask(editing);
+          }}
+          onArchive={() => {
+            if (editing) void archiveTasks([editing.id]);
+          }}
+          onResolveConflict={resolveTaskConflict}
+          onCommentCountChange={(count) => {
+            if (editing) setColumns((prev) => patchTask(prev, editing.id, { commentCount: count }));
+          }}
+          onChecklistChange={(checklist) => {
+            if (editing) setColumns((prev) => patchTask(prev, editing.id, { checklist }));
+          }}
         />
       </div>
     </div>
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import type { BulkAction } from "@/lib/schemas";
+
+type Column = { id: string; name: string };
+type Member = { id: string; displayName: string };
+type Label = { id: string; name: string; color: string };
+
+// sentinel option values; real ids are cuids and never collide with these
+const UNASSIGN = "__unassign__";
+
+/** Shown while cards are multi-selected (shift/ctrl-click); applies one change to all of them. */
+export default function BulkToolbar({
+  count,
+  columns,
+  members,
+  labels,
+  busy,
+  onApply,
+  onClear,
+}: {
+  count: number;
+  columns: Column[];
+  members: Member[];
+  labels: Label[];
+  busy: boolean;
+  onApply: (action: BulkAction) => void;
+  onClear: () => void;
+}) {
+  const [dueDate, setDueDate] = useState("");
+  const selectClass =
+    "h-8 rounded-xl border border-zinc-200 bg-white px-2 text-xs outline-none focus:ring-2 focus:ring-zinc-300 disabled:opacity-50";
+
+  return (
+    <div className="sticky top-2 z-30 flex flex-wrap items-center gap-2 rounded-xl border border-sky-200 bg-sky-50 px-3 py-2 text-xs text-sky-900 shadow-sm">
+      <span className="font-medium">{count}件を選択中</span>
+
+      <select
+        className={selectClass}
+        disabled={busy}
+        value=""
+        onChange={(e) => e.target.value && onApply({ type: "move", columnId: e.target.value })}
+      >
+        <option value="">列へ移動...</option>
+        {columns.map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.name}
+          </option>
+        ))}
+      </select>
+
+      <select
+        className={selectClass}
+        disabled={busy}
+        value=""
+        onChange={(e) => {
+          const v = e.target.value;
+          if (v) onApply({ type: "assign", assigneeId: v === UNASSIGN ? null : v });
+        }}
+      >
+        <option value="">担当者を変更...</option>
+        <option value={UNASSIGN}>(未割り当てにする)</option>
+        {members.map((m) => (
+          <option key={m.id} value={m.id}>
+            {m.displayName}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-1">
+        <input
+          className={selectClass}
+          type="date"
+          disabled={busy}
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+        />
+        <button
+          className="h-8 rounded-xl bg-white px-3 font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50 disabled:opacity-50"
+          disabled={busy || !dueDate}
+          onClick={() => onApply({ type: "dueDate", dueDate: new Date(dueDate).toISOString() })}
+        >
+          期限を設定
+        </button>
+        <button
+          className="h-8 rounded-xl bg-white px-3 font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50 disabled:opacity-50"
+          disabled={busy}
+          onClick={() => onApply({ type: "dueDate", dueDate: null })}
+        >
+          期限を外す
+        </button>
+      </div>
+
+      {labels.length > 0 && (
+        <>
+          <select
+            className={selectClass}
+            disabled={busy}
+            value=""
+            onChange={(e) => e.target.value && onApply({ type: "labels", add: [e.target.value], remove: [] })}
+          >
+            <option value="">ラベルを追加...</option>
+            {labels.map((l) => (
+              <option key={l.id} value={l.id}>
+                {l.name}
+              </option>
+            ))}
+          </select>
+          <select
+            className={selectClass}
+            disabled={busy}
+            value=""
+            onChange={(e) => e.target.value && onApply({ type: "labels", add: [], remove: [e.target.value] })}
+          >
+            <option value="">ラベルを外す...</option>
+            {labels.map((l) => (
+              <option key={l.id} value={l.id}>
+                {l.name}
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+
+      <button
+        className="h-8 rounded-xl bg-rose-600 px-3 font-medium text-white disabled:opacity-50"
+        disabled={busy}
+        onClick={() => {
+          if (window.confirm(`${count}件のタスクをゴミ箱に移動しますか？`)) onApply({ type: "delete" });
+        }}
+      >
+        削除
+      </button>
+
+      <button className="ml-auto hover:underline" onClick={onClear}>
+        選択を解除 (Esc)
+      </button>
+    </div>
+  );
+}
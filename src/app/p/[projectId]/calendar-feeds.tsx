@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/apiClient";
+import type { CalendarFeed } from "@/lib/schemas";
+
+type Member = { id: string; displayName: string };
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("ja-JP", { dateStyle: "short", timeStyle: "short" });
+}
+
+/**
+ * Subscription URLs for calendar apps. A URL is shown only right after it is
+ * issued (the server keeps just a hash); a lost one is revoked and reissued.
+ */
+export default function CalendarFeeds({
+  projectId,
+  members,
+  meId,
+  onClose,
+}: {
+  projectId: string;
+  members: Member[];
+  meId: string;
+  onClose: () => void;
+}) {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  // "" is the whole project
+  const [assigneeId, setAssigneeId] = useState(meId);
+  const [issuedUrl, setIssuedUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    try {
+      const res = await api.calendarFeeds(projectId);
+      setFeeds(res.feeds);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  async function issue() {
+    try {
+      const res = await api.createCalendarFeed(projectId, { assigneeId: assigneeId || null });
+      setIssuedUrl(`${window.location.origin}/api/calendar/${res.token}.ics`);
+      await load();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function revoke(id: string) {
+    if (!window.confirm("このURLを無効にしますか？購読中のカレンダーは更新されなくなります。")) return;
+    try {
+      await api.deleteCalendarFeed(projectId, id);
+      await load();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
+      <div className="max-h-full w-full max-w-lg overflow-auto rounded-2xl border border-zinc-200 bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b border-zinc-200 px-5 py-4">
+          <div className="text-sm font-semibold">カレンダー連携</div>
+          <button className="text-sm text-zinc-600 hover:underline" onClick={onClose}>
+            閉じる
+          </button>
+        </div>
+
+        <div className="grid gap-4 px-5 py-4 text-sm">
+          <p className="text-xs text-zinc-600">
+            期限のあるタスクを終日の予定として配信するURLです。Googleカレンダーなどの「URLで追加」に貼り付けてください。
+          </p>
+          {error && (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-rose-700">
+              エラー: {error}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              className="h-9 rounded-xl border border-zinc-200 bg-white px-2 text-sm outline-none focus:ring-2 focus:ring-zinc-300"
+              value={assigneeId}
+              onChange={(e) => setAssigneeId(e.target.value)}
+            >
+              <option value="">すべてのタスク</option>
+              {members.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.id === meId ? "自分" : m.displayName}の担当
+                </option>
+              ))}
+            </select>
+            <button
+              className="h-9 rounded-xl bg-zinc-900 px-3 text-sm font-medium text-white"
+              onClick={() => void issue()}
+            >
+              URLを発行
+            </button>
+          </div>
+
+          {issuedUrl && (
+            <div className="grid gap-2 rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-xs">
+              <div className="text-emerald-800">このURLは今だけ表示されます。他の人に知られないようにしてください。</div>
+              <div className="flex gap-2">
+                <input
+                  className="h-8 flex-1 rounded-lg border border-emerald-200 bg-white px-2 font-mono"
+                  readOnly
+                  value={issuedUrl}
+                  onFocus={(e) => e.target.select()}
+                />
+                <button
+                  className="h-8 rounded-lg bg-white px-3 font-medium ring-1 ring-emerald-200 hover:bg-emerald-100"
+                  onClick={() => void navigator.clipboard.writeText(issuedUrl)}
+                >
+                  コピー
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-1 text-xs">
+            <div className="text-zinc-700">発行済みのURL</div>
+            {feeds.length === 0 && <div className="text-zinc-500">まだありません</div>}
+            {feeds.map((f) => (
+              <div key={f.id} className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-zinc-800">
+                  {f.assignee ? `${f.assigneeId === meId ? "自分" : f.assignee.displayName}の担当` : "すべてのタスク"}
+                  <span className="ml-1 text-zinc-500">
+                    {fmtDateTime(f.createdAt)}発行 ・{" "}
+                    {f.lastUsedAt ? `最終取得 ${fmtDateTime(f.lastUsedAt)}` : "未取得"}
+                  </span>
+                </span>
+                <button className="text-rose-600 hover:underline" onClick={() => void revoke(f.id)}>
+                  無効化
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
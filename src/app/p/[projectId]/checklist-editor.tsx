@@ -0,0 +1,212 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/apiClient";
+import type { ChecklistItem, ChecklistSummary, PatchChecklistItemBody } from "@/lib/schemas";
+
+function ItemRow({
+  item,
+  first,
+  last,
+  onToggle,
+  onRename,
+  onMove,
+  onDelete,
+}: {
+  item: ChecklistItem;
+  first: boolean;
+  last: boolean;
+  onToggle: () => void;
+  onRename: (body: string) => void;
+  onMove: (dir: -1 | 1) => void;
+  onDelete: () => void;
+}) {
+  const [body, setBody] = useState(item.body);
+
+  return (
+    <div className="group flex items-center gap-2 rounded-xl px-2 py-1 text-sm hover:bg-zinc-50">
+      <input type="checkbox" className="h-4 w-4" checked={item.done} onChange={onToggle} />
+      <input
+        className={[
+          "h-7 min-w-0 flex-1 rounded-lg bg-transparent px-1 outline-none focus:bg-white focus:ring-2 focus:ring-zinc-300",
+          item.done ? "text-zinc-400 line-through" : "text-zinc-800",
+        ].join(" ")}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onBlur={() => {
+          if (!body.trim()) setBody(item.body);
+          else if (body.trim() !== item.body) onRename(body.trim());
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+      />
+      <span className="flex gap-1 text-xs text-zinc-500 opacity-0 transition-opacity group-hover:opacity-100">
+        <button className="hover:underline disabled:opacity-30" disabled={first} onClick={() => onMove(-1)}>
+          ↑
+        </button>
+        <button className="hover:underline disabled:opacity-30" disabled={last} onClick={() => onMove(1)}>
+          ↓
+        </button>
+        <button className="text-rose-600 hover:underline" onClick={onDelete}>
+          削除
+        </button>
+      </span>
+    </div>
+  );
+}
+
+export default function ChecklistEditor({
+  taskId,
+  onSummaryChange,
+}: {
+  taskId: string;
+  onSummaryChange: (summary: ChecklistSummary) => void;
+}) {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .checklist(taskId)
+      .then((res) => {
+        if (!cancelled) setItems(res.items);
+      })
+      .catch((e) => {
+        if (!cancelled) setError((e as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId]);
+
+  async function reload() {
+    try {
+      const res = await api.checklist(taskId);
+      setItems(res.items);
+    } catch {
+      // keep what we have; the error from the failed write is already shown
+    }
+  }
+
+  async function add() {
+    const body = draft.trim();
+    if (!body) return;
+    try {
+      const res = await api.createChecklistItem(taskId, { body });
+      setItems((prev) => [...prev, res.item]);
+      onSummaryChange(res.checklist);
+      setDraft("");
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function patch(id: string, data: PatchChecklistItemBody) {
+    // toggles apply immediately; the response brings the authoritative row
+    setItems((prev) => prev.map((i) => (i.id === id ? { ...i, ...data } : i)));
+    try {
+      const res = await api.patchChecklistItem(taskId, id, data);
+      setItems((prev) => prev.map((i) => (i.id === id ? res.item : i)));
+      onSummaryChange(res.checklist);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+      void reload();
+    }
+  }
+
+  async function move(index: number, dir: -1 | 1) {
+    const next = [...items];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + dir, 0, moved);
+    setItems(next);
+    try {
+      const res = await api.reorderChecklist(taskId, next.map((i) => i.id));
+      setItems(res.items);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+      void reload();
+    }
+  }
+
+  async function remove(id: string) {
+    try {
+      const res = await api.deleteChecklistItem(taskId, id);
+      setItems((prev) => prev.filter((i) => i.id !== id));
+      onSummaryChange(res.checklist);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  const done = items.filter((i) => i.done).length;
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center justify-between text-sm text-zinc-700">
+        <span>チェックリスト</span>
+        {items.length > 0 && (
+          <span className="text-xs text-zinc-500">
+            {done}/{items.length}
+          </span>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="h-1.5 overflow-hidden rounded-full bg-zinc-100">
+          <div
+            className="h-full rounded-full bg-emerald-500 transition-all"
+            style={{ width: `${(done / items.length) * 100}%` }}
+          />
+        </div>
+      )}
+
+      {error && <div className="text-xs text-rose-700">エラー: {error}</div>}
+      {loading && <div className="text-xs text-zinc-500">読み込み中...</div>}
+
+      <div className="grid">
+        {items.map((item, idx) => (
+          <ItemRow
+            key={`${item.id}:${item.body}`}
+            item={item}
+            first={idx === 0}
+            last={idx === items.length - 1}
+            onToggle={() => void patch(item.id, { done: !item.done })}
+            onRename={(body) => void patch(item.id, { body })}
+            onMove={(dir) => void move(idx, dir)}
+            onDelete={() => void remove(item.id)}
+          />
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          className="h-8 flex-1 rounded-xl border border-zinc-200 px-3 text-sm outline-none focus:ring-2 focus:ring-zinc-300"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="項目を追加"
+          onKeyDown={(e) => {
+            if (e.key === "Enter") void add();
+          }}
+        />
+        <button
+          className="h-8 rounded-xl bg-zinc-900 px-3 text-xs font-medium text-white disabled:opacity-50"
+          disabled={!draft.trim()}
+          onClick={() => void add()}
+        >
+          追加
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { api } from "@/lib/apiClient";
+import type { Comment } from "@/lib/schemas";
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("ja-JP", { dateStyle: "short", timeStyle: "short" });
+}
+
+function CommentItem({
+  comment,
+  meId,
+  onEdit,
+  onDelete,
+  onReply,
+}: {
+  comment: Comment;
+  meId: string;
+  onEdit: (body: string) => Promise<void>;
+  onDelete: () => void;
+  onReply?: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [body, setBody] = useState(comment.body);
+  const mine = comment.author.id === meId;
+
+  return (
+    <div className="grid gap-1 rounded-xl bg-zinc-50 px-3 py-2 text-sm">
+      <div className="flex items-center justify-between gap-2 text-xs text-zinc-500">
+        <span>
+          <span className="font-medium text-zinc-700">{comment.author.displayName}</span>{" "}
+          {fmtDateTime(comment.createdAt)}
+          {comment.updatedAt !== comment.createdAt ? "（編集済み）" : ""}
+        </span>
+        <span className="flex gap-2">
+          {onReply && (
+            <button className="hover:underline" onClick={onReply}>
+              返信
+            </button>
+          )}
+          {mine && !editing && (
+            <>
+              <button className="hover:underline" onClick={() => setEditing(true)}>
+                編集
+              </button>
+              <button className="text-rose-600 hover:underline" onClick={onDelete}>
+                削除
+              </button>
+            </>
+          )}
+        </span>
+      </div>
+      {editing ? (
+        <div className="grid gap-2">
+          <textarea
+            className="min-h-16 rounded-xl border border-zinc-200 bg-white px-3 py-2 outline-none focus:ring-2 focus:ring-zinc-300"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              className="h-8 rounded-xl bg-white px-3 text-xs font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+              onClick={() => {
+                setBody(comment.body);
+                setEditing(false);
+              }}
+            >
+              キャンセル
+            </button>
+            <button
+              className="h-8 rounded-xl bg-zinc-900 px-3 text-xs font-medium text-white disabled:opacity-50"
+              disabled={!body.trim()}
+              onClick={() => void onEdit(body.trim()).then(() => setEditing(false))}
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="whitespace-pre-wrap break-words text-zinc-800">{comment.body}</div>
+      )}
+    </div>
+  );
+}
+
+export default function CommentThread({
+  taskId,
+  meId,
+  onCountChange,
+}: {
+  taskId: string;
+  meId: string;
+  onCountChange: (count: number) => void;
+}) {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState("");
+
+  const threads = useMemo(() => {
+    const roots = comments.filter((c) => !c.parentId);
+    return roots.map((root) => ({
+      root,
+      replies: comments.filter((c) => c.parentId === root.id),
+    }));
+  }, [comments]);
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .comments(taskId)
+      .then((res) => {
+        if (!cancelled) setComments(res.comments);
+      })
+      .catch((e) => {
+        if (!cancelled) setError((e as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId]);
+
+  function update(next: Comment[]) {
+    setComments(next);
+    onCountChange(next.length);
+  }
+
+  async function post(body: string, parentId: string | null) {
+    try {
+      const res = await api.createComment(taskId, { body, parentId });
+      update([...comments, res.comment]);
+      setError(null);
+      return true;
+    } catch (e) {
+      setError((e as Error).message);
+      return false;
+    }
+  }
+
+  async function edit(id: string, body: string) {
+    try {
+      const res = await api.patchComment(taskId, id, { body });
+      setComments((prev) => prev.map((c) => (c.id === id ? res.comment : c)));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+      throw e;
+    }
+  }
+
+  async function remove(id: string) {
+    try {
+      await api.deleteComment(taskId, id);
+      update(comments.filter((c) => c.id !== id && c.parentId !== id));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  return (
+    <div className="grid gap-2">
+      <div className="text-sm text-zinc-700">コメント</div>
+
+      {error && <div className="text-xs text-rose-700">エラー: {error}</div>}
+      {loading && <div className="text-xs text-zinc-500">読み込み中...</div>}
+
+      <div className="grid max-h-64 gap-2 overflow-auto">
+        {threads.map(({ root, replies }) => (
+          <div key={root.id} className="grid gap-2">
+            <CommentItem
+              comment={root}
+              meId={meId}
+              onEdit={(body) => edit(root.id, body)}
+              onDelete={() => void remove(root.id)}
+              onReply={() => {
+                setReplyTo(root.id);
+                setReplyDraft("");
+              }}
+            />
+            {(replies.length > 0 || replyTo === root.id) && (
+              <div className="ml-4 grid gap-2 border-l border-zinc-200 pl-3">
+                {replies.map((r) => (
+                  <CommentItem
+                    key={r.id}
+                    comment={r}
+                    meId={meId}
+                    onEdit={(body) => edit(r.id, body)}
+                    onDelete={() => void remove(r.id)}
+                  />
+                ))}
+                {replyTo === root.id && (
+                  <div className="flex gap-2">
+                    <input
+                      className="h-8 flex-1 rounded-xl border border-zinc-200 px-3 text-sm outline-none focus:ring-2 focus:ring-zinc-300"
+                      value={replyDraft}
+                      onChange={(e) => setReplyDraft(e.target.value)}
+                      placeholder="返信を入力"
+                      autoFocus
+                    />
+                    <button
+                      className="h-8 rounded-xl bg-zinc-900 px-3 text-xs font-medium text-white disabled:opacity-50"
+                      disabled={!replyDraft.trim()}
+                      onClick={() =>
+                        void post(replyDraft.trim(), root.id).then((ok) => {
+                          if (ok) setReplyTo(null);
+                        })
+                      }
+                    >
+                      返信
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+        {!loading && comments.length === 0 && (
+          <div className="text-xs text-zinc-500">まだコメントはありません</div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <textarea
+          className="min-h-10 flex-1 rounded-xl border border-zinc-200 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-zinc-300"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="コメントを追加"
+        />
+        <button
+          className="h-10 self-end rounded-xl bg-zinc-900 px-4 text-sm font-medium text-white disabled:opacity-50"
+          disabled={!draft.trim()}
+          onClick={() =>
+            void post(draft.trim(), null).then((ok) => {
+              if (ok) setDraft("");
+            })
+          }
+        >
+          送信
+        </button>
+      </div>
+    </div>
+  );
+}
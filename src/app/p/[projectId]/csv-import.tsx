@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@/lib/apiClient";
+import { parseCsv } from "@/lib/csv";
+import type { CsvImportResponse, CsvRow, CsvRowError } from "@/lib/schemas";
+
+type Field = keyof CsvRow;
+
+const FIELDS: Array<{ key: Field; label: string; aliases: string[] }> = [
+  { key: "title", label: "タイトル（必須）", aliases: ["title", "タイトル", "件名", "name"] },
+  { key: "description", label: "説明", aliases: ["description", "説明", "詳細"] },
+  { key: "status", label: "列（空欄は先頭の列）", aliases: ["status", "column", "列", "ステータス", "状態"] },
+  { key: "dueDate", label: "期限", aliases: ["due_date", "due", "duedate", "期限", "期日"] },
+  { key: "assignee", label: "担当者（表示名）", aliases: ["assignee", "担当者", "担当"] },
+];
+
+const ERROR_TEXT: Record<CsvRowError["error"], string> = {
+  REQUIRED: "必須です",
+  TOO_LONG: "長すぎます",
+  INVALID: "不正な値です",
+  UNKNOWN_STATUS: "同じ名前の列がありません",
+  INVALID_DATE: "日付として読めません（例: 2025-03-01）",
+  UNKNOWN_ASSIGNEE: "同じ表示名のメンバーがいません",
+  AMBIGUOUS_ASSIGNEE: "同じ表示名のメンバーが複数います",
+};
+
+const MAX_ROWS = 2000;
+const PREVIEW_ROWS = 10;
+
+function guessMapping(header: string[]): Record<Field, number> {
+  const normalized = header.map((h) => h.trim().toLowerCase());
+  const out = {} as Record<Field, number>;
+  for (const f of FIELDS) out[f.key] = normalized.findIndex((h) => f.aliases.includes(h));
+  return out;
+}
+
+/**
+ * Board-side CSV import: pick a file, map its columns to task fields, check the
+ * rows with a dry run, then create the valid ones.
+ */
+export default function CsvImport({
+  projectId,
+  onClose,
+  onImported,
+}: {
+  projectId: string;
+  onClose: () => void;
+  onImported: (created: number) => void;
+}) {
+  const [header, setHeader] = useState<string[] | null>(null);
+  const [data, setData] = useState<string[][]>([]);
+  // column index per field; -1 leaves the field unmapped
+  const [mapping, setMapping] = useState<Record<Field, number>>(guessMapping([]));
+  const [checked, setChecked] = useState<CsvImportResponse | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadFile(file: File) {
+    const rows = parseCsv(await file.text());
+    setChecked(null);
+    if (rows.length < 2) {
+      setError("見出し行とデータ行のあるCSVを選んでください");
+      return;
+    }
+    if (rows.length - 1 > MAX_ROWS) {
+      setError(`一度に取り込めるのは${MAX_ROWS}行までです`);
+      return;
+    }
+    setError(null);
+    setHeader(rows[0]);
+    setData(rows.slice(1));
+    setMapping(guessMapping(rows[0]));
+  }
+
+  function mappedRows() {
+    return data.map((r) => {
+      const out: Partial<Record<Field, string>> = {};
+      for (const f of FIELDS) if (mapping[f.key] >= 0) out[f.key] = r[mapping[f.key]] ?? "";
+      return out;
+    });
+  }
+
+  async function submit(dryRun: boolean) {
+    setBusy(true);
+    try {
+      const res = await api.importCsv(projectId, { rows: mappedRows(), dryRun });
+      setError(null);
+      if (dryRun) setChecked(res);
+      else onImported(res.created);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const errorsByRow = new Map<number, CsvRowError[]>();
+  for (const e of checked?.errors ?? []) errorsByRow.set(e.row, [...(errorsByRow.get(e.row) ?? []), e]);
+  const preview = mappedRows().slice(0, PREVIEW_ROWS);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
+      <div className="max-h-full w-full max-w-3xl overflow-auto rounded-2xl border border-zinc-200 bg-white shadow-xl">
+        <div className="flex items-center justify-between border-b border-zinc-200 px-5 py-4">
+          <div className="text-sm font-semibold">CSVから取り込み</div>
+          <button className="text-sm text-zinc-600 hover:underline" onClick={onClose}>
+            閉じる
+          </button>
+        </div>
+
+        <div className="grid gap-4 px-5 py-4 text-sm">
+          <input
+            className="text-sm file:mr-3 file:h-9 file:rounded-xl file:border-0 file:bg-zinc-900 file:px-3 file:text-sm file:font-medium file:text-white"
+            type="file"
+            accept="text/csv,.csv"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void loadFile(file);
+            }}
+          />
+
+          {error && (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-rose-700">
+              エラー: {error}
+            </div>
+          )}
+
+          {header && (
+            <>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {FIELDS.map((f) => (
+                  <label key={f.key} className="grid gap-1">
+                    <span className="text-xs text-zinc-600">{f.label}</span>
+                    <select
+                      className="h-9 rounded-xl border border-zinc-200 bg-white px-2 text-sm outline-none focus:ring-2 focus:ring-zinc-300"
+                      value={mapping[f.key]}
+                      onChange={(e) => {
+                        setMapping({ ...mapping, [f.key]: Number(e.target.value) });
+                        setChecked(null);
+                      }}
+                    >
+                      <option value={-1}>(使わない)</option>
+                      {header.map((h, i) => (
+                        <option key={i} value={i}>
+                          {h || `${i + 1}列目`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-xs">
+                  <thead className="text-zinc-500">
+                    <tr>
+                      <th className="px-2 py-1">行</th>
+                      {FIELDS.map((f) => (
+                        <th key={f.key} className="px-2 py-1">
+                          {f.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map((r, i) => (
+                      <tr key={i} className={errorsByRow.has(i) ? "bg-rose-50" : ""}>
+                        {/* spreadsheet line numbers: the header is line 1 */}
+                        <td className="px-2 py-1 text-zinc-500">{i + 2}</td>
+                        {FIELDS.map((f) => (
+                          <td key={f.key} className="max-w-40 truncate px-2 py-1">
+                            {r[f.key] ?? ""}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {data.length > PREVIEW_ROWS && (
+                  <div className="mt-1 text-xs text-zinc-500">
+                    先頭{PREVIEW_ROWS}行を表示中（全{data.length}行）
+                  </div>
+                )}
+              </div>
+
+              {checked && checked.errors.length > 0 && (
+                <ul className="grid max-h-48 gap-1 overflow-auto rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-xs text-rose-700">
+                  {checked.errors.map((e, i) => (
+                    <li key={i}>
+                      {e.row + 2}行目 {FIELDS.find((f) => f.key === e.field)?.label}:{" "}
+                      {ERROR_TEXT[e.error] ?? e.error}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {checked && (
+                <div className="text-xs text-zinc-600">
+                  取り込めるのは{checked.valid}行です
+                  {checked.errors.length > 0 && "（エラーのある行はスキップされます）"}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-zinc-200 px-5 py-4">
+          <button
+            className="h-10 rounded-xl bg-white px-4 text-sm font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50 disabled:opacity-50"
+            disabled={!header || mapping.title < 0 || busy}
+            onClick={() => void submit(true)}
+          >
+            確認
+          </button>
+          <button
+            className="h-10 rounded-xl bg-zinc-900 px-4 text-sm font-medium text-white disabled:opacity-50"
+            disabled={!checked || checked.valid === 0 || busy}
+            onClick={() => void submit(false)}
+          >
+            {checked ? `${checked.valid}件を取り込む` : "取り込む"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
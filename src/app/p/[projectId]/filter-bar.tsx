@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+
+type Label = { id: string; name: string; color: string };
+type Member = { id: string; displayName: string };
+
+export type DueFilter = "" | "overdue" | "today" | "week" | "none";
+
+export type TaskFilter = {
+  labelId: string;
+  // member id, UNASSIGNED, or "" for everyone
+  assignee: string;
+  due: DueFilter;
+};
+
+export const UNASSIGNED = "__unassigned__";
+export const EMPTY_FILTER: TaskFilter = { labelId: "", assignee: "", due: "" };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isFilterActive(f: TaskFilter) {
+  return f.labelId !== "" || f.assignee !== "" || f.due !== "";
+}
+
+export function matchesFilter(
+  task: { assigneeId: string | null; dueDate: string | null; labelIds: string[] },
+  f: TaskFilter,
+  now = new Date(),
+) {
+  if (f.labelId && !task.labelIds.includes(f.labelId)) return false;
+  if (f.assignee === UNASSIGNED ? task.assigneeId !== null : f.assignee && task.assigneeId !== f.assignee) {
+    return false;
+  }
+  if (f.due) {
+    if (f.due === "none") return task.dueDate === null;
+    if (!task.dueDate) return false;
+    // due dates are stored as UTC midnight of the chosen day
+    const due = new Date(task.dueDate).getTime();
+    const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+    if (f.due === "overdue") return due < today;
+    if (f.due === "today") return due >= today && due < today + DAY_MS;
+    if (f.due === "week") return due >= today && due < today + 7 * DAY_MS;
+  }
+  return true;
+}
+
+const LABEL_COLORS = ["#71717a", "#0ea5e9", "#10b981", "#f59e0b", "#f43f5e", "#8b5cf6"];
+
+function LabelRow({
+  label,
+  onUpdate,
+  onDelete,
+}: {
+  label: Label;
+  onUpdate: (patch: { name?: string; color?: string }) => void;
+  onDelete: () => void;
+}) {
+  const [name, setName] = useState(label.name);
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        className="h-8 w-36 rounded-xl border border-zinc-200 px-3 text-xs outline-none focus:ring-2 focus:ring-zinc-300"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={() => {
+          if (name.trim() && name.trim() !== label.name) onUpdate({ name: name.trim() });
+        }}
+      />
+      {LABEL_COLORS.map((c) => (
+        <button
+          key={c}
+          aria-label={c}
+          className={["h-5 w-5 rounded-full", c === label.color ? "ring-2 ring-zinc-900 ring-offset-1" : ""].join(" ")}
+          style={{ backgroundColor: c }}
+          onClick={() => onUpdate({ color: c })}
+        />
+      ))}
+      <button className="text-xs text-rose-600 hover:underline" onClick={onDelete}>
+        削除
+      </button>
+    </div>
+  );
+}
+
+function LabelManager({
+  labels,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: {
+  labels: Label[];
+  onCreate: (name: string, color: string) => void;
+  onUpdate: (labelId: string, patch: { name?: string; color?: string }) => void;
+  onDelete: (labelId: string) => void;
+}) {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(LABEL_COLORS[1]);
+
+  return (
+    <div className="grid gap-2 rounded-xl border border-zinc-200 bg-white p-3">
+      {labels.map((l) => (
+        <LabelRow
+          key={`${l.id}:${l.name}`}
+          label={l}
+          onUpdate={(patch) => onUpdate(l.id, patch)}
+          onDelete={() => onDelete(l.id)}
+        />
+      ))}
+      <div className="flex flex-wrap items-center gap-2 border-t border-zinc-200 pt-2">
+        <input
+          className="h-8 w-36 rounded-xl border border-zinc-200 px-3 text-xs outline-none focus:ring-2 focus:ring-zinc-300"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="新しいラベル"
+        />
+        {LABEL_COLORS.map((c) => (
+          <button
+            key={c}
+            aria-label={c}
+            className={["h-5 w-5 rounded-full", c === color ? "ring-2 ring-zinc-900 ring-offset-1" : ""].join(" ")}
+            style={{ backgroundColor: c }}
+            onClick={() => setColor(c)}
+          />
+        ))}
+        <button
+          className="h-8 rounded-xl bg-zinc-900 px-3 text-xs font-medium text-white disabled:opacity-50"
+          disabled={!name.trim()}
+          onClick={() => {
+            onCreate(name.trim(), color);
+            setName("");
+          }}
+        >
+          追加
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function FilterBar({
+  filter,
+  labels,
+  members,
+  onChange,
+  onCreateLabel,
+  onUpdateLabel,
+  onDeleteLabel,
+}: {
+  filter: TaskFilter;
+  labels: Label[];
+  members: Member[];
+  onChange: (next: TaskFilter) => void;
+  onCreateLabel: (name: string, color: string) => void;
+  onUpdateLabel: (labelId: string, patch: { name?: string; color?: string }) => void;
+  onDeleteLabel: (labelId: string) => void;
+}) {
+  const [managing, setManaging] = useState(false);
+  const selectClass =
+    "h-8 rounded-xl border border-zinc-200 bg-white px-2 text-xs outline-none focus:ring-2 focus:ring-zinc-300";
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-600">
+        <span className="text-zinc-500">絞り込み:</span>
+        <select
+          className={selectClass}
+          value={filter.labelId}
+          onChange={(e) => onChange({ ...filter, labelId: e.target.value })}
+        >
+          <option value="">すべてのラベル</option>
+          {labels.map((l) => (
+            <option key={l.id} value={l.id}>
+              {l.name}
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClass}
+          value={filter.assignee}
+          onChange={(e) => onChange({ ...filter, assignee: e.target.value })}
+        >
+          <option value="">すべての担当者</option>
+          <option value={UNASSIGNED}>未設定</option>
+          {members.map((m) => (
+            <option key={m.id} value={m.id}>
+              {m.displayName}
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClass}
+          value={filter.due}
+          onChange={(e) => onChange({ ...filter, due: e.target.value as DueFilter })}
+        >
+          <option value="">すべての期限</option>
+          <option value="overdue">期限切れ</option>
+          <option value="today">今日まで</option>
+          <option value="week">7日以内</option>
+          <option value="none">期限なし</option>
+        </select>
+        {isFilterActive(filter) && (
+          <button className="hover:underline" onClick={() => onChange(EMPTY_FILTER)}>
+            クリア
+          </button>
+        )}
+        <button className="ml-auto hover:underline" onClick={() => setManaging((v) => !v)}>
+          {managing ? "ラベル管理を閉じる" : "ラベル管理"}
+        </button>
+      </div>
+      {managing && (
+        <LabelManager
+          labels={labels}
+          onCreate={onCreateLabel}
+          onUpdate={onUpdateLabel}
+          onDelete={onDeleteLabel}
+        />
+      )}
+    </div>
+  );
+}
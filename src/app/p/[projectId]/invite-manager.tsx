@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/apiClient";
+import type { Invite } from "@/lib/schemas";
+
+const STATUS_LABEL: Record<Invite["status"], string> = {
+  ACTIVE: "有効",
+  REVOKED: "無効化済み",
+  EXPIRED: "期限切れ",
+  EXHAUSTED: "上限到達",
+};
+
+const EXPIRY_OPTIONS = [
+  { label: "無期限", hours: null },
+  { label: "1日", hours: 24 },
+  { label: "7日", hours: 24 * 7 },
+  { label: "30日", hours: 24 * 30 },
+];
+
+const MAX_USES_OPTIONS = [null, 1, 5, 10, 50];
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("ja-JP", { dateStyle: "short", timeStyle: "short" });
+}
+
+export default function InviteManager({
+  projectId,
+  onChanged,
+}: {
+  projectId: string;
+  onChanged: () => void;
+}) {
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [expiresInHours, setExpiresInHours] = useState<number | null>(24 * 7);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
+
+  async function load() {
+    try {
+      const res = await api.invites(projectId);
+      setInvites(res.invites);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  async function issue(revokeExisting: boolean) {
+    try {
+      await api.createInvite(projectId, { expiresInHours, maxUses, revokeExisting });
+      await load();
+      onChanged();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function revoke(id: string) {
+    try {
+      await api.revokeInvite(projectId, id);
+      await load();
+      onChanged();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  const selectClass =
+    "h-8 rounded-xl border border-zinc-200 bg-white px-2 outline-none focus:ring-2 focus:ring-zinc-300";
+
+  return (
+    <div className="grid gap-2">
+      <div className="text-zinc-700">招待コード</div>
+      {error && <div className="text-rose-700">エラー: {error}</div>}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className={selectClass}
+          value={expiresInHours ?? ""}
+          onChange={(e) => setExpiresInHours(e.target.value ? Number(e.target.value) : null)}
+        >
+          {EXPIRY_OPTIONS.map((o) => (
+            <option key={o.label} value={o.hours ?? ""}>
+              有効期限: {o.label}
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClass}
+          value={maxUses ?? ""}
+          onChange={(e) => setMaxUses(e.target.value ? Number(e.target.value) : null)}
+        >
+          {MAX_USES_OPTIONS.map((n) => (
+            <option key={n ?? "none"} value={n ?? ""}>
+              利用回数: {n === null ? "無制限" : `${n}回まで`}
+            </option>
+          ))}
+        </select>
+        <button
+          className="h-8 rounded-xl bg-white px-3 font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+          onClick={() => void issue(false)}
+        >
+          発行
+        </button>
+        <button
+          className="h-8 rounded-xl bg-white px-3 font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50"
+          onClick={() => {
+            if (window.confirm("新しいコードを発行し、他の有効なコードをすべて無効にしますか？")) void issue(true);
+          }}
+        >
+          再発行（他を無効化）
+        </button>
+      </div>
+
+      <div className="grid max-h-48 gap-1 overflow-auto">
+        {invites.map((i) => (
+          <div key={i.id} className="flex flex-wrap items-center justify-between gap-2">
+            <span className={i.status === "ACTIVE" ? "text-zinc-800" : "text-zinc-400"}>
+              <span className="font-mono font-semibold">{i.code}</span>{" "}
+              {STATUS_LABEL[i.status]} ・ {i.useCount}
+              {i.maxUses !== null ? `/${i.maxUses}` : ""}回使用
+              {i.expiresAt ? ` ・ ${fmtDateTime(i.expiresAt)}まで` : ""}
+            </span>
+            {i.status === "ACTIVE" && (
+              <button className="text-rose-600 hover:underline" onClick={() => void revoke(i.id)}>
+                無効化
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
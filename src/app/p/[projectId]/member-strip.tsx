@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import InviteManager from "./invite-manager";
+import WebhookManager from "./webhook-manager";
+
+type Role = "OWNER" | "MEMBER";
+type Member = { id: string; displayName: string; role: Role };
+
+export default function MemberStrip({
+  projectId,
+  members,
+  meId,
+  onChangeRole,
+  onRemove,
+  onInvitesChanged,
+  onDeleteProject,
+}: {
+  projectId: string;
+  members: Member[];
+  meId: string;
+  onChangeRole: (memberId: string, role: Role) => void;
+  onRemove: (memberId: string) => void;
+  onInvitesChanged: () => void;
+  onDeleteProject: () => void;
+}) {
+  const [managing, setManaging] = useState(false);
+  const isOwner = members.some((m) => m.id === meId && m.role === "OWNER");
+  const ownerCount = members.filter((m) => m.role === "OWNER").length;
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-600">
+        <span className="text-zinc-500">メンバー:</span>
+        {members.map((m) => (
+          <span key={m.id} className="rounded-full bg-zinc-100 px-2 py-0.5">
+            {m.displayName}
+            {m.role === "OWNER" ? " (Owner)" : ""}
+          </span>
+        ))}
+        <button className="hover:underline" onClick={() => setManaging((v) => !v)}>
+          {managing ? "閉じる" : isOwner ? "管理" : "退出"}
+        </button>
+      </div>
+
+      {managing && (
+        <div className="grid gap-2 rounded-xl border border-zinc-200 bg-white p-3 text-xs">
+          {members.map((m) => {
+            const self = m.id === meId;
+            // the server rejects leaving the project without an owner; mirror that here
+            const lastOwner = m.role === "OWNER" && ownerCount <= 1;
+            if (!isOwner && !self) return null;
+            return (
+              <div key={m.id} className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-zinc-800">
+                  {m.displayName}
+                  {self ? "（あなた）" : ""}
+                  <span className="ml-1 text-zinc-500">{m.role === "OWNER" ? "オーナー" : "メンバー"}</span>
+                </span>
+                <span className="flex gap-2">
+                  {isOwner && (
+                    <button
+                      className="hover:underline disabled:opacity-40"
+                      disabled={lastOwner}
+                      onClick={() => onChangeRole(m.id, m.role === "OWNER" ? "MEMBER" : "OWNER")}
+                    >
+                      {m.role === "OWNER" ? "メンバーにする" : "オーナーにする"}
+                    </button>
+                  )}
+                  <button
+                    className="text-rose-600 hover:underline disabled:opacity-40"
+                    disabled={lastOwner}
+                    onClick={() => {
+                      const msg = self
+                        ? "このプロジェクトから退出しますか？"
+                        : `${m.displayName} をプロジェクトから外しますか？担当タスクは未設定になります。`;
+                      if (window.confirm(msg)) onRemove(m.id);
+                    }}
+                  >
+                    {self ? "退出" : "外す"}
+                  </button>
+                </span>
+              </div>
+            );
+          })}
+
+          {isOwner && (
+            <>
+              <div className="border-t border-zinc-200 pt-2">
+                <InviteManager projectId={projectId} onChanged={onInvitesChanged} />
+              </div>
+              <div className="border-t border-zinc-200 pt-2">
+                <WebhookManager projectId={projectId} />
+              </div>
+              <div className="flex flex-wrap gap-2 border-t border-zinc-200 pt-2">
+                <button
+                  className="h-8 rounded-xl bg-rose-600 px-3 font-medium text-white"
+                  onClick={() => {
+                    if (window.confirm("プロジェクトを削除しますか？すべてのタスクが失われます。")) onDeleteProject();
+                  }}
+                >
+                  プロジェクトを削除
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
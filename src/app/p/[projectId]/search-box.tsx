@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { api } from "@/lib/apiClient";
+import type { SearchResult, SearchSegment } from "@/lib/schemas";
+
+const DEBOUNCE_MS = 250;
+
+function Highlighted({ segments }: { segments: SearchSegment[] }) {
+  return (
+    <>
+      {segments.map((s, i) =>
+        s.hit ? (
+          <mark key={i} className="rounded bg-amber-200 px-0.5 text-inherit">
+            {s.text}
+          </mark>
+        ) : (
+          <span key={i}>{s.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+export default function SearchBox({
+  projectId,
+  onJump,
+  onOpen,
+}: {
+  projectId: string;
+  onJump: (taskId: string) => void;
+  onOpen: (taskId: string) => void;
+}) {
+  const [q, setQ] = useState("");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [active, setActive] = useState(0);
+  const seqRef = useRef(0);
+
+  useEffect(() => {
+    const query = q.trim();
+    const seq = ++seqRef.current;
+    if (!query) return;
+    const t = window.setTimeout(() => {
+      api
+        .search(projectId, query)
+        .then((res) => {
+          // a slower response for an older query must not overwrite a newer one
+          if (seq !== seqRef.current) return;
+          setResults(res.results);
+          setActive(0);
+          setError(null);
+        })
+        .catch((e) => {
+          if (seq === seqRef.current) setError((e as Error).message);
+        });
+    }, DEBOUNCE_MS);
+    return () => window.clearTimeout(t);
+  }, [q, projectId]);
+
+  function close() {
+    setQ("");
+    setResults(null);
+  }
+
+  return (
+    <div className="relative w-full max-w-sm">
+      <input
+        className="h-8 w-full rounded-xl border border-zinc-200 bg-white px-3 text-xs outline-none focus:ring-2 focus:ring-zinc-300"
+        value={q}
+        onChange={(e) => {
+          setQ(e.target.value);
+          if (!e.target.value.trim()) {
+            setResults(null);
+            setError(null);
+          }
+        }}
+        placeholder="タスク・コメントを検索"
+        onKeyDown={(e) => {
+          if (!results || results.length === 0) {
+            if (e.key === "Escape") close();
+            return;
+          }
+          if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setActive((i) => Math.min(i + 1, results.length - 1));
+          } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setActive((i) => Math.max(i - 1, 0));
+          } else if (e.key === "Enter") {
+            const hit = results[active];
+            // Enter jumps to the card, Shift+Enter opens it
+            if (e.shiftKey) onOpen(hit.taskId);
+            else onJump(hit.taskId);
+            close();
+          } else if (e.key === "Escape") {
+            close();
+          }
+        }}
+      />
+
+      {(results !== null || error) && (
+        <div className="absolute left-0 right-0 top-9 z-40 grid max-h-96 gap-1 overflow-auto rounded-xl border border-zinc-200 bg-white p-2 text-xs shadow-lg">
+          {error && <div className="px-2 py-1 text-rose-700">エラー: {error}</div>}
+          {results?.length === 0 && <div className="px-2 py-1 text-zinc-500">見つかりませんでした</div>}
+          {results?.map((r, i) => (
+            <div
+              key={r.taskId}
+              className={[
+                "grid gap-0.5 rounded-lg px-2 py-1.5",
+                i === active ? "bg-zinc-100" : "hover:bg-zinc-50",
+              ].join(" ")}
+              onMouseEnter={() => setActive(i)}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  className="min-w-0 truncate text-left font-medium text-zinc-900"
+                  onClick={() => {
+                    onJump(r.taskId);
+                    close();
+                  }}
+                >
+                  <Highlighted segments={r.title} />
+                </button>
+                <button
+                  className="shrink-0 text-zinc-500 hover:underline"
+                  onClick={() => {
+                    onOpen(r.taskId);
+                    close();
+                  }}
+                >
+                  開く
+                </button>
+              </div>
+              {r.snippet.some((s) => s.text.trim()) && (
+                <div className="line-clamp-2 text-zinc-600">
+                  {r.source === "comment" && <span className="mr-1 text-zinc-400">コメント:</span>}
+                  <Highlighted segments={r.snippet} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/apiClient";
+import type { TrashResponse } from "@/lib/schemas";
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("ja-JP", { dateStyle: "short", timeStyle: "short" });
+}
+
+function daysLeft(iso: string) {
+  return Math.max(0, Math.ceil((new Date(iso).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
+export default function TrashPanel({
+  projectId,
+  columnName,
+  refreshKey,
+  onRestore,
+  onClose,
+}: {
+  projectId: string;
+  columnName: (id: string) => string;
+  refreshKey: number;
+  onRestore: (taskId: string) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [trash, setTrash] = useState<TrashResponse | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    try {
+      setTrash(await api.trash(projectId));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId, refreshKey]);
+
+  async function restore(id: string) {
+    setBusyId(id);
+    try {
+      await onRestore(id);
+      await load();
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function purge(id: string) {
+    setBusyId(id);
+    try {
+      await api.purgeTask(projectId, id);
+      await load();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <aside className="flex h-full w-full flex-col gap-3 rounded-2xl border border-zinc-200 bg-white p-4 md:w-80">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-semibold">ゴミ箱</div>
+        <button className="text-xs text-zinc-600 hover:underline" onClick={onClose}>
+          閉じる
+        </button>
+      </div>
+
+      {trash && (
+        <div className="text-xs text-zinc-500">
+          削除したタスクは {trash.retentionDays} 日後に完全に削除されます
+        </div>
+      )}
+      {error && <div className="text-xs text-rose-700">エラー: {error}</div>}
+
+      <ol className="flex flex-1 flex-col gap-3 overflow-auto">
+        {trash?.tasks.map((t) => (
+          <li key={t.id} className="grid gap-1 text-xs">
+            <div className="truncate font-medium text-zinc-800">{t.title}</div>
+            <div className="text-zinc-500">
+              {columnName(t.columnId)} ・ {t.deletedBy?.displayName ?? "(退出したメンバー)"} が{" "}
+              {fmtDateTime(t.deletedAt)} に削除 ・ あと {daysLeft(t.purgeAt)} 日
+            </div>
+            <div className="flex gap-3">
+              <button
+                className="hover:underline disabled:opacity-40"
+                disabled={busyId !== null}
+                onClick={() => void restore(t.id)}
+              >
+                復元
+              </button>
+              <button
+                className="text-rose-600 hover:underline disabled:opacity-40"
+                disabled={busyId !== null}
+                onClick={() => {
+                  if (window.confirm(`「${t.title}」を完全に削除しますか？元に戻せません。`)) void purge(t.id);
+                }}
+              >
+                完全に削除
+              </button>
+            </div>
+          </li>
+        ))}
+        {trash?.tasks.length === 0 && <li className="text-xs text-zinc-500">ゴミ箱は空です</li>}
+      </ol>
+    </aside>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/lib/apiClient";
+import type { PatchWebhookBody, Webhook, WebhookDelivery, WebhookEvent } from "@/lib/schemas";
+
+type Status = WebhookDelivery["status"];
+
+const STATUS_LABEL: Record<Status, string> = {
+  PENDING: "送信待ち",
+  SUCCEEDED: "成功",
+  FAILED: "失敗",
+};
+
+const STATUS_CLASS: Record<Status, string> = {
+  PENDING: "text-amber-700",
+  SUCCEEDED: "text-emerald-700",
+  FAILED: "text-rose-700",
+};
+
+function fmtDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("ja-JP", { dateStyle: "short", timeStyle: "medium" });
+}
+
+export default function WebhookManager({ projectId }: { projectId: string }) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [eventNames, setEventNames] = useState<WebhookEvent[]>([]);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  // shown once, right after the secret is created or rotated
+  const [secret, setSecret] = useState<{ webhookId: string; value: string } | null>(null);
+  const [logFor, setLogFor] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [maxAttempts, setMaxAttempts] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    try {
+      const res = await api.webhooks(projectId);
+      setWebhooks(res.webhooks);
+      setEventNames(res.events);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function loadLog(webhookId: string) {
+    try {
+      const res = await api.webhookDeliveries(projectId, webhookId);
+      setDeliveries(res.deliveries);
+      setMaxAttempts(res.maxAttempts);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  async function run(fn: () => Promise<void>) {
+    try {
+      await fn();
+      await load();
+      if (logFor) await loadLog(logFor);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  const add = () =>
+    run(async () => {
+      const res = await api.createWebhook(projectId, { url: url.trim(), events });
+      setSecret({ webhookId: res.webhook.id, value: res.secret });
+      setUrl("");
+      setEvents([]);
+    });
+
+  const update = (id: string, patch: PatchWebhookBody) =>
+    run(async () => {
+      const res = await api.patchWebhook(projectId, id, patch);
+      if (res.secret) setSecret({ webhookId: id, value: res.secret });
+    });
+
+  const remove = (id: string) =>
+    run(async () => {
+      await api.deleteWebhook(projectId, id);
+      if (logFor === id) setLogFor(null);
+    });
+
+  const ping = (id: string) =>
+    run(async () => {
+      await api.pingWebhook(projectId, id);
+      setLogFor(id);
+      await loadLog(id);
+    });
+
+  const redeliver = (webhookId: string, deliveryId: string) =>
+    run(async () => {
+      await api.redeliver(projectId, webhookId, deliveryId);
+    });
+
+  function toggleLog(id: string) {
+    if (logFor === id) {
+      setLogFor(null);
+      return;
+    }
+    setLogFor(id);
+    setDeliveries([]);
+    void loadLog(id);
+  }
+
+  const inputClass =
+    "h-8 rounded-xl border border-zinc-200 bg-white px-2 outline-none focus:ring-2 focus:ring-zinc-300";
+
+  return (
+    <div className="grid gap-2">
+      <div className="text-zinc-700">Webhook</div>
+      {error && <div className="text-rose-700">エラー: {error}</div>}
+
+      <div className="grid gap-2">
+        <input
+          className={inputClass}
+          placeholder="https://example.com/hooks/simple-trello"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          {eventNames.map((name) => (
+            <label key={name} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={events.includes(name)}
+                onChange={(e) =>
+                  setEvents(e.target.checked ? [...events, name] : events.filter((n) => n !== name))
+                }
+              />
+              <span className="font-mono">{name}</span>
+            </label>
+          ))}
+          <button
+            className="h-8 rounded-xl bg-white px-3 font-medium text-zinc-900 ring-1 ring-zinc-200 hover:bg-zinc-50 disabled:opacity-50"
+            disabled={!url.trim() || events.length === 0}
+            onClick={() => void add()}
+          >
+            追加
+          </button>
+        </div>
+      </div>
+
+      {webhooks.map((w) => (
+        <div key={w.id} className="grid gap-1 rounded-xl border border-zinc-200 p-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className={w.active ? "break-all text-zinc-800" : "break-all text-zinc-400"}>
+              <span className="font-mono">{w.url}</span>
+              {!w.active && "（停止中）"}
+            </span>
+            <span className="flex flex-wrap gap-2">
+              <button className="hover:underline" onClick={() => void ping(w.id)}>
+                テスト送信
+              </button>
+              <button className="hover:underline" onClick={() => toggleLog(w.id)}>
+                {logFor === w.id ? "履歴を閉じる" : "配信履歴"}
+              </button>
+              <button className="hover:underline" onClick={() => void update(w.id, { active: !w.active })}>
+                {w.active ? "停止" : "再開"}
+              </button>
+              <button
+                className="hover:underline"
+                onClick={() => {
+                  if (window.confirm("シークレットを再発行しますか？受信側の設定も更新が必要です。")) {
+                    void update(w.id, { rotateSecret: true });
+                  }
+                }}
+              >
+                シークレット再発行
+              </button>
+              <button
+                className="text-rose-600 hover:underline"
+                onClick={() => {
+                  if (window.confirm("このWebhookと配信履歴を削除しますか？")) void remove(w.id);
+                }}
+              >
+                削除
+              </button>
+            </span>
+          </div>
+          <div className="text-zinc-500">
+            <span className="font-mono">{w.events.join(", ")}</span> ・ シークレット …{w.secretHint}
+            {w.lastDelivery && (
+              <>
+                {" "}
+                ・ 直近:{" "}
+                <span className={STATUS_CLASS[w.lastDelivery.status]}>{STATUS_LABEL[w.lastDelivery.status]}</span>
+              </>
+            )}
+          </div>
+
+          {secret?.webhookId === w.id && (
+            <div className="grid gap-1 rounded-lg border border-emerald-200 bg-emerald-50 px-2 py-1.5">
+              <span className="text-emerald-800">
+                署名用シークレット（今だけ表示されます）。受信側で x-webhook-signature の検証に使います:
+              </span>
+              <input
+                className="h-7 rounded-md border border-emerald-200 bg-white px-2 font-mono"
+                readOnly
+                value={secret.value}
+                onFocus={(e) => e.target.select()}
+              />
+            </div>
+          )}
+
+          {logFor === w.id && (
+            <div className="grid max-h-64 gap-1 overflow-auto border-t border-zinc-100 pt-1">
+              <div className="flex justify-between text-zinc-500">
+                <span>直近50件（失敗時は最大{maxAttempts}回まで間隔を空けて再送します）</span>
+                <button className="hover:underline" onClick={() => void loadLog(w.id)}>
+                  更新
+                </button>
+              </div>
+              {deliveries.length === 0 && <div className="text-zinc-500">まだ配信はありません</div>}
+              {deliveries.map((d) => (
+                <details key={d.id}>
+                  <summary className="cursor-pointer">
+                    <span className="font-mono">{d.event}</span>{" "}
+                    <span className={STATUS_CLASS[d.status]}>{STATUS_LABEL[d.status]}</span> ・ {d.attempts}回
+                    {d.responseStatus !== null && ` ・ HTTP ${d.responseStatus}`}
+                    {d.error && d.responseStatus === null && ` ・ ${d.error}`}
+                    <span className="ml-1 text-zinc-500">{fmtDateTime(d.createdAt)}</span>
+                    {d.status === "PENDING" && d.nextAttemptAt && d.attempts > 0 && (
+                      <span className="ml-1 text-zinc-500">次回 {fmtDateTime(d.nextAttemptAt)}</span>
+                    )}
+                  </summary>
+                  <div className="mt-1 grid gap-1 pl-3">
+                    {d.status !== "PENDING" && (
+                      <button className="justify-self-start hover:underline" onClick={() => void redeliver(w.id, d.id)}>
+                        再送
+                      </button>
+                    )}
+                    <pre className="overflow-x-auto rounded-lg bg-zinc-50 p-2 font-mono text-[11px]">
+                      {JSON.stringify(d.payload, null, 2)}
+                    </pre>
+                  </div>
+                </details>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,41 +2,70 @@
 
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useMemo, useState } from "react";
-import { apiFetch } from "@/lib/apiClient";
-import { clearMemberId, setMemberId } from "@/lib/clientStore";
+import { useEffect, useMemo, useState } from "react";
+import { ApiError, api } from "@/lib/apiClient";
+import { joinErrorMessage } from "@/lib/joinErrors";
+import type { ErrorResponse, ImportTrelloResponse, MyProjectsResponse } from "@/lib/schemas";
 
-type Project = { id: string; name: string; inviteCode: string };
-type Member = { id: string; displayName: string };
+type Member = MyProjectsResponse["me"];
+type MyProject = MyProjectsResponse["projects"][number];
+type ImportIssue = NonNullable<ErrorResponse["issues"]>[number];
+
+const UNMAPPED_TEXT: Record<string, string> = {
+  CLOSED_LISTS: "アーカイブ済みのリスト",
+  TOO_MANY_LISTS: "上限（50列）を超えたリスト",
+  SKIPPED_CARDS: "取り込まなかったリスト上のカード",
+  MULTIPLE_ASSIGNEES: "担当者が複数いたカード（先頭の1人のみ）",
+  MULTIPLE_CHECKLISTS: "チェックリストが複数あったカード（1つにまとめました）",
+  ATTACHMENTS: "添付ファイル",
+  CUSTOM_FIELDS: "カスタムフィールドのあるカード",
+  START_DATES: "開始日",
+  DUE_COMPLETE: "期限の完了チェック",
+  TRUNCATED_TEXT: "長さの上限で切り詰めたテキスト",
+};
 
 export default function HomePage() {
   const router = useRouter();
   const [displayName, setDisplayNameState] = useState("");
   const [projectName, setProjectName] = useState("");
   const [inviteCode, setInviteCode] = useState("");
-  const [busy, setBusy] = useState<"create" | "join" | null>(null);
+  const [busy, setBusy] = useState<"create" | "join" | "import" | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // null until loaded or when this browser has no session yet
+  const [me, setMe] = useState<Member | null>(null);
+  const [projects, setProjects] = useState<MyProject[]>([]);
+  const [importIssues, setImportIssues] = useState<ImportIssue[]>([]);
+  const [trelloImport, setTrelloImport] = useState<ImportTrelloResponse | null>(null);
+
+  useEffect(() => {
+    api
+      .myProjects()
+      .then((res) => {
+        setMe(res.me);
+        setProjects(res.projects);
+      })
+      .catch(() => {
+        // signed out: the forms below create the identity
+      });
+  }, []);
 
+  // a signed-in browser reuses its name; only new browsers have to enter one
+  const hasName = me !== null || displayName.trim().length > 0;
   const canCreate = useMemo(
-    () => displayName.trim().length > 0 && projectName.trim().length > 0,
-    [displayName, projectName],
+    () => hasName && projectName.trim().length > 0,
+    [hasName, projectName],
   );
   const canJoin = useMemo(
-    () => displayName.trim().length > 0 && inviteCode.trim().length > 0,
-    [displayName, inviteCode],
+    () => hasName && inviteCode.trim().length > 0,
+    [hasName, inviteCode],
   );
 
   async function createProject() {
     if (!canCreate || busy) return;
     setBusy("create");
     setError(null);
-    clearMemberId();
     try {
-      const res = await apiFetch<{ project: Project; member: Member }>("/api/projects", {
-        method: "POST",
-        json: { projectName, displayName },
-      });
-      setMemberId(res.member.id);
+      const res = await api.createProject({ projectName, displayName: me ? undefined : displayName });
       router.push(`/p/${res.project.id}`);
     } catch (e) {
       setError((e as Error).message);
@@ -49,16 +78,45 @@ export default function HomePage() {
     if (!canJoin || busy) return;
     setBusy("join");
     setError(null);
-    clearMemberId();
     try {
-      const res = await apiFetch<{ project: Project; member: Member }>("/api/projects/join", {
-        method: "POST",
-        json: { inviteCode, displayName },
-      });
-      setMemberId(res.member.id);
+      const res = await api.joinProject({ inviteCode, displayName: me ? undefined : displayName });
+      router.push(`/p/${res.project.id}`);
+    } catch (e) {
+      setError(joinErrorMessage((e as Error).message));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function importProject(file: File) {
+    if (!hasName || busy) return;
+    setBusy("import");
+    setError(null);
+    setImportIssues([]);
+    setTrelloImport(null);
+    try {
+      let document: unknown;
+      try {
+        document = JSON.parse(await file.text());
+      } catch {
+        setError("ファイルをJSONとして読み込めませんでした");
+        return;
+      }
+      // Trello's board export has no format marker, but always has lists and cards
+      const doc = document as { format?: unknown; lists?: unknown; cards?: unknown } | null;
+      if (doc?.format === undefined && Array.isArray(doc?.lists) && Array.isArray(doc?.cards)) {
+        const res = await api.importTrello({ board: document, displayName: me ? undefined : displayName });
+        // stay here so the user sees what was left behind
+        setTrelloImport(res);
+        return;
+      }
+      const res = await api.importProject({ document, displayName: me ? undefined : displayName });
       router.push(`/p/${res.project.id}`);
     } catch (e) {
       setError((e as Error).message);
+      if (e instanceof ApiError && (e.message === "INVALID_EXPORT" || e.message === "INVALID_TRELLO_EXPORT")) {
+        setImportIssues((e.payload as ErrorResponse | null)?.issues ?? []);
+      }
     } finally {
       setBusy(null);
     }
@@ -80,6 +138,34 @@ export default function HomePage() {
           </div>
         )}
 
+        {projects.length > 0 && (
+          <section className="grid gap-3">
+            <h2 className="text-base font-semibold">参加中のプロジェクト</h2>
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {projects.map((p) => (
+                <Link
+                  key={p.id}
+                  href={`/p/${p.id}`}
+                  className="grid gap-2 rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm hover:border-zinc-300 hover:bg-zinc-50"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate text-sm font-semibold">{p.name}</span>
+                    {p.role === "OWNER" && (
+                      <span className="shrink-0 rounded-full bg-zinc-100 px-2 py-0.5 text-xs text-zinc-600">
+                        Owner
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex gap-3 text-xs text-zinc-600">
+                    <span>タスク {p.taskCount}</span>
+                    <span>メンバー {p.memberCount}</span>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+
         <section className="grid gap-6 md:grid-cols-2">
           <div className="rounded-2xl border border-zinc-200 bg-white p-5 shadow-sm">
             <h2 className="text-base font-semibold">新規プロジェクトを作成</h2>
@@ -88,15 +174,21 @@ export default function HomePage() {
             </p>
 
             <div className="mt-4 grid gap-3">
-              <label className="grid gap-1 text-sm">
-                <span className="text-zinc-700">あなたの名前</span>
-                <input
-                  className="h-10 rounded-xl border border-zinc-200 px-3 outline-none focus:ring-2 focus:ring-zinc-300"
-                  value={displayName}
-                  onChange={(e) => setDisplayNameState(e.target.value)}
-                  placeholder="例: Mori"
-                />
-              </label>
+              {me ? (
+                <div className="text-sm text-zinc-600">
+                  <span className="font-medium text-zinc-900">{me.displayName}</span> として
+                </div>
+              ) : (
+                <label className="grid gap-1 text-sm">
+                  <span className="text-zinc-700">あなたの名前</span>
+                  <input
+                    className="h-10 rounded-xl border border-zinc-200 px-3 outline-none focus:ring-2 focus:ring-zinc-300"
+                    value={displayName}
+                    onChange={(e) => setDisplayNameState(e.target.value)}
+                    placeholder="例: Mori"
+                  />
+                </label>
+              )}
               <label className="grid gap-1 text-sm">
                 <span className="text-zinc-700">プロジェクト名</span>
                 <input
@@ -123,15 +215,21 @@ export default function HomePage() {
             </p>
 
             <div className="mt-4 grid gap-3">
-              <label className="grid gap-1 text-sm">
-                <span className="text-zinc-700">あなたの名前</span>
-                <input
-                  className="h-10 rounded-xl border border-zinc-200 px-3 outline-none focus:ring-2 focus:ring-zinc-300"
-                  value={displayName}
-                  onChange={(e) => setDisplayNameState(e.target.value)}
-                  placeholder="例: Mori"
-                />
-              </label>
+              {me ? (
+                <div className="text-sm text-zinc-600">
+                  <span className="font-medium text-zinc-900">{me.displayName}</span> として
+                </div>
+              ) : (
+                <label className="grid gap-1 text-sm">
+                  <span className="text-zinc-700">あなたの名前</span>
+                  <input
+                    className="h-10 rounded-xl border border-zinc-200 px-3 outline-none focus:ring-2 focus:ring-zinc-300"
+                    value={displayName}
+                    onChange={(e) => setDisplayNameState(e.target.value)}
+                    placeholder="例: Mori"
+                  />
+                </label>
+              )}
               <label className="grid gap-1 text-sm">
                 <span className="text-zinc-700">招待コード</span>
                 <input
@@ -159,8 +257,71 @@ export default function HomePage() {
           </div>
         </section>
 
+        <section className="rounded-2xl border border-zinc-200 bg-white p-5 shadow-sm">
+          <h2 className="text-base font-semibold">エクスポートから作成</h2>
+          <p className="mt-1 text-sm text-zinc-600">
+            ボードの「エクスポート」で保存したJSONファイルから、新しいプロジェクトを作成します（バックアップの復元や、別環境への移行・複製に使えます）。TrelloボードのJSONエクスポートも読み込めます。
+          </p>
+          <div className="mt-4 grid gap-3">
+            {!me && (
+              <div className="text-xs text-zinc-600">
+                先に上の「あなたの名前」を入力してください。
+              </div>
+            )}
+            <input
+              className="text-sm file:mr-3 file:h-9 file:rounded-xl file:border-0 file:bg-zinc-900 file:px-3 file:text-sm file:font-medium file:text-white disabled:opacity-50"
+              type="file"
+              accept="application/json,.json"
+              disabled={!hasName || busy !== null}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void importProject(file);
+              }}
+            />
+            {busy === "import" && <div className="text-sm text-zinc-600">読み込み中...</div>}
+            {importIssues.length > 0 && (
+              <ul className="grid max-h-48 gap-1 overflow-auto rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-xs text-rose-700">
+                {importIssues.map((i, idx) => (
+                  <li key={idx}>
+                    <code className="font-mono">{i.path || "(ファイル全体)"}</code>: {i.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {trelloImport && (
+              <div className="grid gap-2 rounded-xl border border-zinc-200 bg-zinc-50 px-4 py-3 text-sm">
+                <div>
+                  「{trelloImport.project.name}」を作成しました（列 {trelloImport.summary.columns}・タスク{" "}
+                  {trelloImport.summary.tasks}・コメント {trelloImport.summary.comments}）
+                </div>
+                {trelloImport.summary.placeholders.length > 0 && (
+                  <div className="text-xs text-zinc-600">
+                    仮メンバーとして追加: {trelloImport.summary.placeholders.join("、")}
+                  </div>
+                )}
+                {trelloImport.summary.unmapped.length > 0 && (
+                  <div className="text-xs text-zinc-600">
+                    取り込めなかったもの:
+                    <ul className="mt-1 list-disc pl-5">
+                      {trelloImport.summary.unmapped.map((u) => (
+                        <li key={u.code}>
+                          {UNMAPPED_TEXT[u.code] ?? u.code}: {u.count}件
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <Link className="text-sm font-medium underline" href={`/p/${trelloImport.project.id}`}>
+                  ボードを開く
+                </Link>
+              </div>
+            )}
+          </div>
+        </section>
+
         <footer className="text-xs text-zinc-500">
-          ログイン無しの簡易版です（ブラウザごとにメンバーIDを保存します）。
+          会員登録は不要です（このブラウザに保存されたセッションで、参加中のすべてのプロジェクトを開けます）。
         </footer>
       </main>
     </div>
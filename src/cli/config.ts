@@ -0,0 +1,42 @@
+import { chmod, readFile, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+
+export const DEFAULT_SERVER = "http://localhost:3000";
+
+/** What the CLI remembers between runs, in `~/.simple-trello.json`. */
+export type CliConfig = {
+  server: string;
+  // a session token from create/join, or a personal API token (`st_pat_...`) from `login`
+  token?: string;
+  // the project commands act on unless `--project` says otherwise
+  projectId?: string;
+  projectName?: string;
+  memberId?: string;
+  displayName?: string;
+};
+
+export function configPath() {
+  return process.env.SIMPLE_TRELLO_CONFIG ?? join(homedir(), ".simple-trello.json");
+}
+
+export async function loadConfig(): Promise<CliConfig> {
+  let raw: string;
+  try {
+    raw = await readFile(configPath(), "utf8");
+  } catch {
+    return { server: DEFAULT_SERVER };
+  }
+  try {
+    return { server: DEFAULT_SERVER, ...(JSON.parse(raw) as Partial<CliConfig>) };
+  } catch {
+    throw new Error(`設定ファイルを読み込めませんでした: ${configPath()}`);
+  }
+}
+
+export async function saveConfig(config: CliConfig) {
+  const path = configPath();
+  // the token is as good as a password
+  await writeFile(path, JSON.stringify(config, null, 2) + "\n", { mode: 0o600 });
+  await chmod(path, 0o600);
+}
@@ -0,0 +1,83 @@
+import type { BoardResponse } from "@/lib/schemas";
+
+// East Asian wide and fullwidth characters take two terminal cells
+function charWidth(cp: number) {
+  return (cp >= 0x1100 && cp <= 0x115f) ||
+    (cp >= 0x2e80 && cp <= 0xa4cf) ||
+    (cp >= 0xac00 && cp <= 0xd7a3) ||
+    (cp >= 0xf900 && cp <= 0xfaff) ||
+    (cp >= 0xfe30 && cp <= 0xfe4f) ||
+    (cp >= 0xff00 && cp <= 0xff60) ||
+    (cp >= 0xffe0 && cp <= 0xffe6) ||
+    (cp >= 0x1f300 && cp <= 0x1faff) ||
+    (cp >= 0x20000 && cp <= 0x3fffd)
+    ? 2
+    : 1;
+}
+
+function width(s: string) {
+  let w = 0;
+  for (const ch of s) w += charWidth(ch.codePointAt(0)!);
+  return w;
+}
+
+function truncate(s: string, max: number) {
+  if (width(s) <= max) return s;
+  let out = "";
+  let w = 0;
+  for (const ch of s) {
+    const cw = charWidth(ch.codePointAt(0)!);
+    if (w + cw > max - 1) break;
+    out += ch;
+    w += cw;
+  }
+  return out + "…";
+}
+
+function pad(s: string, w: number) {
+  return s + " ".repeat(Math.max(0, w - width(s)));
+}
+
+/** Renders rows as left-aligned columns separated by two spaces. */
+export function table(header: string[], rows: string[][]) {
+  const widths = header.map((h, i) => Math.max(width(h), ...rows.map((r) => width(r[i] ?? ""))));
+  const line = (cells: string[]) =>
+    cells
+      .map((c, i) => (i === cells.length - 1 ? c : pad(c, widths[i])))
+      .join("  ")
+      .trimEnd();
+  return [line(header), line(widths.map((w) => "-".repeat(w))), ...rows.map(line)].join("\n");
+}
+
+// cuids share their leading (time-based) characters, so the tail is what tells tasks apart
+export const SHORT_ID_LENGTH = 8;
+
+export function shortId(id: string) {
+  return id.slice(-SHORT_ID_LENGTH);
+}
+
+export function formatDue(dueDate: string | null) {
+  return dueDate ? dueDate.slice(0, 10) : "";
+}
+
+const TITLE_WIDTH = 48;
+
+/** The board as one table per column, in board order. */
+export function formatBoard(board: BoardResponse) {
+  const members = new Map(board.members.map((m) => [m.id, m.displayName]));
+  const labels = new Map(board.labels.map((l) => [l.id, l.name]));
+  const sections = board.columns.map((column) => {
+    const tasks = board.tasks.filter((t) => t.columnId === column.id);
+    const rows = tasks.map((t) => [
+      shortId(t.id),
+      truncate(t.title, TITLE_WIDTH),
+      t.assigneeId ? (members.get(t.assigneeId) ?? "?") : "",
+      formatDue(t.dueDate),
+      t.labelIds.map((id) => labels.get(id) ?? "?").join(", "),
+    ]);
+    const heading = `${column.name} (${tasks.length})`;
+    if (rows.length === 0) return `${heading}\n  (タスクなし)`;
+    return `${heading}\n${table(["ID", "タイトル", "担当", "期限", "ラベル"], rows)}`;
+  });
+  return [`${board.project.name}`, ...sections].join("\n\n");
+}
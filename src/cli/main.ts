@@ -0,0 +1,354 @@
+import { parseArgs } from "util";
+import { z } from "zod";
+import { ApiError, createApiClient } from "@/lib/apiClient";
+import type { ApiClient } from "@/lib/apiClient";
+import { joinErrorMessage } from "@/lib/joinErrors";
+import {
+  CreateProjectSchema,
+  CreateTaskSchema,
+  JoinProjectSchema,
+  MoveTaskSchema,
+  PatchTaskSchema,
+} from "@/lib/schemas";
+import type { BoardResponse, BoardTask, ErrorResponse } from "@/lib/schemas";
+import { configPath, loadConfig, saveConfig } from "./config";
+import type { CliConfig } from "./config";
+import { formatBoard, formatDue, shortId, table } from "./format";
+
+const USAGE = `使い方: simple-trello <コマンド> [オプション]
+
+  create <プロジェクト名> [--name <表示名>]     プロジェクトを作成して既定にする
+  join <招待コード> [--name <表示名>]            招待コードで参加して既定にする
+  login --token <トークン> --project <ID>        ボードで発行したAPIトークンを使う
+  projects                                       参加しているプロジェクトの一覧
+  use <プロジェクトID>                            既定のプロジェクトを切り替える
+  board                                          ボードを列ごとの表で表示する
+  add <タイトル> [--column <列>] [--assignee <メンバー>] [--due <YYYY-MM-DD>] [--description <説明>]
+                                                 タスクを追加する（既定は先頭の列）
+  move <タスク> <列>                             タスクを別の列の末尾へ移動する
+  assign <タスク> <メンバー|none>                担当者を設定する（none で解除）
+  due <タスク> <YYYY-MM-DD|none>                 期限を設定する（none で解除）
+  delete <タスク>                                タスクをゴミ箱へ移動する
+
+共通オプション:
+  --json             結果をAPIのJSONのまま出力する（パイプ向け）
+  --server <URL>     接続先（既定: 設定ファイルの値、なければ http://localhost:3000）
+  --project <ID>     このコマンドだけ別のプロジェクトを使う
+
+<タスク> はタスクID、board に表示される末尾8文字、またはタイトル。
+<列> と <メンバー> は名前かID（メンバーは me も可）。
+設定は ~/.simple-trello.json（環境変数 SIMPLE_TRELLO_CONFIG で変更可）に保存されます。`;
+
+type Context = {
+  config: CliConfig;
+  client: ApiClient;
+  // create/join answer with a session cookie rather than a token in the body
+  issuedSession: () => string | null;
+  projectId: string | undefined;
+  json: boolean;
+  options: { name?: string; token?: string; column?: string; assignee?: string; due?: string; description?: string };
+};
+
+// the cookie the routes set on create/join (SESSION_COOKIE in src/lib/session.ts)
+const SESSION_COOKIE_RE = /^st_session=([^;]+)/;
+
+function makeClient(config: CliConfig) {
+  let issued: string | null = null;
+  const client = createApiClient({
+    baseUrl: config.server.replace(/\/+$/, ""),
+    token: config.token,
+    fetch: async (input, init) => {
+      const res = await fetch(input, init);
+      for (const cookie of res.headers.getSetCookie()) {
+        const match = cookie.match(SESSION_COOKIE_RE);
+        if (match) issued = decodeURIComponent(match[1]);
+      }
+      return res;
+    },
+  });
+  return { client, issuedSession: () => issued };
+}
+
+/** Checks a body against the schema its route validates with, so mistakes are reported before any request. */
+function checked<S extends z.ZodType>(schema: S, body: z.input<S>): z.input<S> {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) throw new Error(`入力が正しくありません\n${z.prettifyError(parsed.error)}`);
+  return body;
+}
+
+function output(ctx: Context, data: unknown, text: string) {
+  console.log(ctx.json ? JSON.stringify(data, null, 2) : text);
+}
+
+function requireProject(ctx: Context) {
+  if (!ctx.projectId) {
+    throw new Error("プロジェクトが選ばれていません。create / join / use を実行するか --project を指定してください");
+  }
+  return ctx.projectId;
+}
+
+function findTask(board: BoardResponse, ref: string): BoardTask {
+  const exact = board.tasks.find((t) => t.id === ref);
+  if (exact) return exact;
+  const bySuffix = board.tasks.filter((t) => t.id.endsWith(ref));
+  const hits = bySuffix.length > 0 ? bySuffix : board.tasks.filter((t) => t.title === ref);
+  if (hits.length === 1) return hits[0];
+  if (hits.length === 0) throw new Error(`タスクが見つかりません: ${ref}`);
+  throw new Error(`「${ref}」に当てはまるタスクが複数あります: ${hits.map((t) => shortId(t.id)).join(", ")}`);
+}
+
+function findColumn(board: BoardResponse, ref: string) {
+  const lower = ref.toLowerCase();
+  const column = board.columns.find((c) => c.id === ref) ?? board.columns.find((c) => c.name.toLowerCase() === lower);
+  if (!column) {
+    throw new Error(`列が見つかりません: ${ref}（${board.columns.map((c) => c.name).join(" / ")}）`);
+  }
+  return column;
+}
+
+function findMemberId(board: BoardResponse, ref: string) {
+  if (ref === "me") return board.me.memberId;
+  const lower = ref.toLowerCase();
+  const member =
+    board.members.find((m) => m.id === ref) ?? board.members.find((m) => m.displayName.toLowerCase() === lower);
+  if (!member) {
+    throw new Error(`メンバーが見つかりません: ${ref}（${board.members.map((m) => m.displayName).join(" / ")}）`);
+  }
+  return member.id;
+}
+
+// due dates are whole days, stored as UTC midnight like the board's date picker does
+function parseDue(value: string) {
+  if (value === "none") return null;
+  const invalid = new Error(`期限は YYYY-MM-DD で指定してください: ${value}`);
+  const m = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) throw invalid;
+  const date = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  // Date.UTC rolls 2025-02-30 over into March; reject that instead
+  if (date.getUTCMonth() !== Number(m[2]) - 1 || date.getUTCDate() !== Number(m[3])) throw invalid;
+  return date.toISOString();
+}
+
+function arg(args: string[], index: number, name: string) {
+  const value = args[index];
+  if (value === undefined) throw new Error(`${name} を指定してください\n\n${USAGE}`);
+  return value;
+}
+
+async function remember(ctx: Context, res: { project: { id: string; name: string }; member: { id: string; displayName: string } }) {
+  const token = ctx.issuedSession() ?? ctx.config.token;
+  ctx.config = {
+    ...ctx.config,
+    token,
+    projectId: res.project.id,
+    projectName: res.project.name,
+    memberId: res.member.id,
+    displayName: res.member.displayName,
+  };
+  await saveConfig(ctx.config);
+}
+
+const COMMANDS: Record<string, (ctx: Context, args: string[]) => Promise<void>> = {
+  async create(ctx, args) {
+    const body = checked(CreateProjectSchema, { projectName: arg(args, 0, "プロジェクト名"), displayName: ctx.options.name });
+    const res = await ctx.client.createProject(body);
+    await remember(ctx, res);
+    output(ctx, res, `「${res.project.name}」を作成しました（${res.project.id}）\n招待コード: ${res.project.inviteCode}`);
+  },
+
+  async join(ctx, args) {
+    const body = checked(JoinProjectSchema, { inviteCode: arg(args, 0, "招待コード"), displayName: ctx.options.name });
+    let res;
+    try {
+      res = await ctx.client.joinProject(body);
+    } catch (e) {
+      if (e instanceof ApiError && !ctx.json) throw new Error(joinErrorMessage(e.message));
+      throw e;
+    }
+    await remember(ctx, res);
+    output(ctx, res, `「${res.project.name}」に ${res.member.displayName} として参加しました（${res.project.id}）`);
+  },
+
+  async login(ctx) {
+    const { token } = ctx.options;
+    if (!token) throw new Error("--token を指定してください");
+    const projectId = requireProject(ctx);
+    // checks the token and the project before saving them
+    const { client } = makeClient({ ...ctx.config, token });
+    const board = await client.board(projectId);
+    ctx.config = {
+      ...ctx.config,
+      token,
+      projectId,
+      projectName: board.project.name,
+      memberId: board.me.memberId,
+      displayName: board.members.find((m) => m.id === board.me.memberId)?.displayName,
+    };
+    await saveConfig(ctx.config);
+    output(ctx, { project: board.project, me: board.me }, `「${board.project.name}」にログインしました（${configPath()} に保存）`);
+  },
+
+  async projects(ctx) {
+    const res = await ctx.client.myProjects();
+    const rows = res.projects.map((p) => [
+      p.id === ctx.config.projectId ? "*" : "",
+      p.id,
+      p.name,
+      p.role === "OWNER" ? "オーナー" : "メンバー",
+      String(p.taskCount),
+      String(p.memberCount),
+    ]);
+    output(ctx, res, rows.length ? table(["", "ID", "名前", "権限", "タスク", "メンバー"], rows) : "参加しているプロジェクトはありません");
+  },
+
+  async use(ctx, args) {
+    const projectId = arg(args, 0, "プロジェクトID");
+    const board = await ctx.client.board(projectId);
+    ctx.config = { ...ctx.config, projectId, projectName: board.project.name, memberId: board.me.memberId };
+    await saveConfig(ctx.config);
+    output(ctx, { project: board.project }, `既定のプロジェクトを「${board.project.name}」にしました`);
+  },
+
+  async board(ctx) {
+    const board = await ctx.client.board(requireProject(ctx));
+    output(ctx, board, formatBoard(board));
+  },
+
+  async add(ctx, args) {
+    const projectId = requireProject(ctx);
+    const { column, assignee, due, description } = ctx.options;
+    const needsBoard = column !== undefined || assignee !== undefined;
+    const board = needsBoard ? await ctx.client.board(projectId) : null;
+    const body = checked(CreateTaskSchema, {
+      title: arg(args, 0, "タイトル"),
+      description,
+      columnId: board && column !== undefined ? findColumn(board, column).id : undefined,
+      assigneeId: board && assignee !== undefined && assignee !== "none" ? findMemberId(board, assignee) : undefined,
+      dueDate: due !== undefined ? parseDue(due) : undefined,
+    });
+    const res = await ctx.client.createTask(projectId, body);
+    output(ctx, res, `追加しました: ${shortId(res.task.id)} ${res.task.title}`);
+  },
+
+  async move(ctx, args) {
+    const board = await ctx.client.board(requireProject(ctx));
+    const task = findTask(board, arg(args, 0, "タスク"));
+    const column = findColumn(board, arg(args, 1, "列"));
+    // the bottom of the column, like dropping a card below the last one
+    const last = board.tasks.filter((t) => t.columnId === column.id && t.id !== task.id).at(-1);
+    const res = await ctx.client.moveTask(
+      task.id,
+      checked(MoveTaskSchema, { version: task.version, columnId: column.id, afterId: last?.id ?? null }),
+    );
+    output(ctx, res, `${shortId(task.id)} ${task.title} → ${column.name}`);
+  },
+
+  async assign(ctx, args) {
+    const board = await ctx.client.board(requireProject(ctx));
+    const task = findTask(board, arg(args, 0, "タスク"));
+    const ref = arg(args, 1, "メンバー");
+    const assigneeId = ref === "none" ? null : findMemberId(board, ref);
+    const res = await ctx.client.patchTask(task.id, checked(PatchTaskSchema, { version: task.version, assigneeId }));
+    const name = board.members.find((m) => m.id === assigneeId)?.displayName;
+    output(ctx, res, `${shortId(task.id)} ${task.title}: 担当 ${name ?? "なし"}`);
+  },
+
+  async due(ctx, args) {
+    const board = await ctx.client.board(requireProject(ctx));
+    const task = findTask(board, arg(args, 0, "タスク"));
+    const dueDate = parseDue(arg(args, 1, "期限"));
+    const res = await ctx.client.patchTask(task.id, checked(PatchTaskSchema, { version: task.version, dueDate }));
+    output(ctx, res, `${shortId(task.id)} ${task.title}: 期限 ${formatDue(dueDate) || "なし"}`);
+  },
+
+  async delete(ctx, args) {
+    const board = await ctx.client.board(requireProject(ctx));
+    const task = findTask(board, arg(args, 0, "タスク"));
+    const res = await ctx.client.deleteTask(task.id, task.version);
+    output(ctx, res, `ゴミ箱へ移動しました: ${shortId(task.id)} ${task.title}（ボードのゴミ箱から戻せます）`);
+  },
+};
+
+function describeError(e: unknown, server: string) {
+  // undici reports refused connections, DNS failures etc. this way
+  if (e instanceof TypeError && e.message === "fetch failed") return `${server} に接続できません`;
+  if (!(e instanceof ApiError)) return (e as Error).message;
+  const payload = e.payload as ErrorResponse | null;
+  if (e.message === "VERSION_CONFLICT") return "ほかのメンバーが先に変更しました。もう一度実行してください";
+  if (e.message === "UNAUTHENTICATED") return "ログインしていません。create / join / login を実行してください";
+  const details = payload?.details ? `\n${JSON.stringify(payload.details, null, 2)}` : "";
+  return `${e.message} (HTTP ${e.status})${details}`;
+}
+
+function report(e: unknown, json: boolean, server: string) {
+  if (json) {
+    const payload = e instanceof ApiError ? e.payload : null;
+    console.error(JSON.stringify(payload ?? { error: (e as Error).message }, null, 2));
+  } else {
+    console.error(`エラー: ${describeError(e, server)}`);
+  }
+  return 1;
+}
+
+function parse(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+      server: { type: "string" },
+      project: { type: "string" },
+      name: { type: "string" },
+      token: { type: "string" },
+      column: { type: "string" },
+      assignee: { type: "string" },
+      due: { type: "string" },
+      description: { type: "string" },
+    },
+  });
+}
+
+export async function main(argv: string[]) {
+  let parsed: ReturnType<typeof parse>;
+  try {
+    parsed = parse(argv);
+  } catch (e) {
+    // an unknown flag or one missing its value; --json may be among the flags that did parse
+    const json = argv.includes("--json");
+    return report(json ? e : new Error(`${(e as Error).message}\n\n${USAGE}`), json, "");
+  }
+  const { values, positionals } = parsed;
+
+  const [command, ...args] = positionals;
+  // own keys only: `constructor` and friends are not commands
+  const run = command && Object.hasOwn(COMMANDS, command) ? COMMANDS[command] : undefined;
+  if (values.help || !run) {
+    console.log(USAGE);
+    return command && !values.help ? 1 : 0;
+  }
+
+  let stored: CliConfig;
+  try {
+    stored = await loadConfig();
+  } catch (e) {
+    return report(e, values.json, "");
+  }
+  // a different server means a different identity
+  const config =
+    values.server && values.server !== stored.server ? { server: values.server } : stored;
+  const ctx: Context = {
+    config,
+    ...makeClient(config),
+    projectId: values.project ?? config.projectId,
+    json: values.json,
+    options: values,
+  };
+
+  try {
+    await run(ctx, args);
+    return 0;
+  } catch (e) {
+    return report(e, ctx.json, ctx.config.server);
+  }
+}
@@ -0,0 +1,81 @@
+import type { Prisma } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { queueWebhooks } from "@/lib/webhooks";
+
+export type ActivityAction =
+  | "project.created"
+  | "member.joined"
+  | "member.updated"
+  | "member.removed"
+  | "invite.created"
+  | "invite.revoked"
+  | "task.created"
+  | "task.updated"
+  | "task.moved"
+  | "task.deleted"
+  | "task.restored"
+  | "task.purged"
+  | "task.archived"
+  | "task.unarchived"
+  | "comment.created"
+  | "comment.updated"
+  | "comment.deleted"
+  | "checklist.created"
+  | "checklist.updated"
+  | "checklist.deleted"
+  | "column.created"
+  | "column.updated"
+  | "column.deleted"
+  | "label.created"
+  | "label.updated"
+  | "label.deleted";
+
+export type ActivityEntry = {
+  projectId: string;
+  actorId: string | null;
+  action: ActivityAction;
+  taskId?: string | null;
+  taskTitle?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+};
+
+function toJson(values: Record<string, unknown> | null | undefined) {
+  if (!values) return undefined;
+  // Dates become ISO strings, matching what the API returns elsewhere
+  return JSON.parse(JSON.stringify(values)) as Prisma.InputJsonObject;
+}
+
+/** Keeps only the keys whose values differ between the two snapshots. */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const b: Record<string, unknown> = {};
+  const a: Record<string, unknown> = {};
+  for (const key of Object.keys(after)) {
+    // JSON form compares dates and arrays by value
+    if (JSON.stringify(before[key]) === JSON.stringify(after[key])) continue;
+    b[key] = before[key];
+    a[key] = after[key];
+  }
+  return { before: b, after: a };
+}
+
+export async function recordActivity(entries: ActivityEntry | ActivityEntry[]) {
+  const list = Array.isArray(entries) ? entries : [entries];
+  if (list.length === 0) return;
+  await getPrisma().activity.createMany({
+    data: list.map((e) => ({
+      projectId: e.projectId,
+      actorId: e.actorId,
+      action: e.action,
+      taskId: e.taskId ?? null,
+      taskTitle: e.taskTitle ?? null,
+      before: toJson(e.before),
+      after: toJson(e.after),
+    })),
+  });
+  // best effort: a webhook problem must not fail a change that is already saved
+  await queueWebhooks(list).catch((e) => console.error("queueing webhooks failed", e));
+}
@@ -1,22 +1,100 @@
-import { getMemberId } from "@/lib/clientStore";
+import type {
+  ActivityPage,
+  ApiTokensResponse,
+  ArchivePage,
+  ArchiveResponse,
+  ArchiveTasksBody,
+  BoardResponse,
+  BoardTaskResponse,
+  BulkTaskBody,
+  BulkTaskResponse,
+  CalendarFeedsResponse,
+  ChecklistDeleteResponse,
+  ChecklistItemResponse,
+  ChecklistReorderResponse,
+  ChecklistResponse,
+  ColumnResponse,
+  ColumnsResponse,
+  CommentResponse,
+  CommentsResponse,
+  CreateApiTokenBody,
+  CreateApiTokenResponse,
+  CreateCalendarFeedBody,
+  CreateCalendarFeedResponse,
+  CreateChecklistItemBody,
+  CreateColumnBody,
+  CreateCommentBody,
+  CreateInviteBody,
+  CreateLabelBody,
+  CreateProjectBody,
+  CreateTaskBody,
+  CreateWebhookBody,
+  CreateWebhookResponse,
+  CsvImportBody,
+  CsvImportResponse,
+  DeleteColumnResponse,
+  DeliveryQueuedResponse,
+  ImportProjectBody,
+  ImportProjectResponse,
+  ImportTrelloBody,
+  ImportTrelloResponse,
+  InviteResponse,
+  InvitesResponse,
+  JoinProjectBody,
+  LabelResponse,
+  LabelsResponse,
+  MemberResponse,
+  MembersResponse,
+  MoveTaskBody,
+  MyProjectsResponse,
+  OkResponse,
+  PatchChecklistItemBody,
+  PatchColumnBody,
+  PatchCommentBody,
+  PatchLabelBody,
+  PatchMemberBody,
+  PatchTaskBody,
+  PatchWebhookBody,
+  ProjectSessionResponse,
+  RemoveMemberResponse,
+  SearchResponse,
+  TaskResponse,
+  TaskWriteResponse,
+  TrashResponse,
+  WebhookDeliveriesResponse,
+  WebhookResponse,
+  WebhooksResponse,
+} from "@/lib/schemas";
+
+/** Thrown for non-2xx responses; `message` is the API error code. */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly payload: unknown,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+type FetchInit = RequestInit & { json?: unknown; fetch?: typeof fetch };
 
 export async function apiFetch<T>(
   input: string,
-  init: RequestInit & { json?: unknown } = {},
+  { json, fetch: fetchImpl = fetch, ...init }: FetchInit = {},
 ): Promise<T> {
   const headers = new Headers(init.headers);
   headers.set("accept", "application/json");
 
-  const memberId = getMemberId();
-  if (memberId) headers.set("x-member-id", memberId);
-
   let body = init.body;
-  if (init.json !== undefined) {
+  if (json !== undefined) {
     headers.set("content-type", "application/json");
-    body = JSON.stringify(init.json);
+    body = JSON.stringify(json);
   }
 
-  const res = await fetch(input, { ...init, headers, body });
+  // the HttpOnly session cookie identifies the member
+  const res = await fetchImpl(input, { credentials: "same-origin", ...init, headers, body });
   if (!res.ok) {
     let payload: unknown = null;
     try {
@@ -31,8 +109,173 @@ export async function apiFetch<T>(
       typeof (payload as { error?: unknown }).error !== "undefined"
         ? String((payload as { error?: unknown }).error)
         : `HTTP_${res.status}`;
-    throw new Error(msg);
+    throw new ApiError(msg, res.status, payload);
   }
   return (await res.json()) as T;
 }
 
+type ClientOptions = {
+  // prepended to every path; empty in the browser, the server's URL elsewhere
+  baseUrl?: string;
+  // sent as a bearer credential by clients without the session cookie
+  token?: string;
+  // e.g. to read the session cookie off create/join responses outside the browser
+  fetch?: typeof fetch;
+};
+
+/**
+ * Typed wrappers around the documented routes (see `/api/openapi.json`). The
+ * types come from `@/lib/schemas`, the same schemas the routes validate with.
+ */
+export function createApiClient({ baseUrl = "", token, fetch }: ClientOptions = {}) {
+  const call = <T>(path: string, init: FetchInit = {}) =>
+    apiFetch<T>(baseUrl + path, {
+      ...init,
+      ...(token ? { headers: { authorization: `Bearer ${token}` } } : {}),
+      fetch,
+    });
+  const id = encodeURIComponent;
+  const project = (projectId: string) => `/api/projects/${id(projectId)}`;
+  const task = (taskId: string) => `/api/tasks/${id(taskId)}`;
+  // absent and empty parameters are left out
+  const query = (params: Record<string, string | number | null | undefined>) => {
+    const qs = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== null && value !== "") qs.set(key, String(value));
+    }
+    const str = qs.toString();
+    return str ? `?${str}` : "";
+  };
+
+  return {
+    myProjects: () => call<MyProjectsResponse>("/api/me/projects"),
+    createProject: (body: CreateProjectBody) =>
+      call<ProjectSessionResponse>("/api/projects", { method: "POST", json: body }),
+    joinProject: (body: JoinProjectBody) =>
+      call<ProjectSessionResponse>("/api/projects/join", { method: "POST", json: body }),
+    importProject: (body: ImportProjectBody) =>
+      call<ImportProjectResponse>("/api/projects/import", { method: "POST", json: body }),
+    importTrello: (body: ImportTrelloBody) =>
+      call<ImportTrelloResponse>("/api/projects/import/trello", { method: "POST", json: body }),
+    deleteProject: (projectId: string) => call<OkResponse>(project(projectId), { method: "DELETE" }),
+
+    // `since` is the cursor of an earlier response; omit it for the whole board
+    board: (projectId: string, since?: string | null) =>
+      call<BoardResponse>(`${project(projectId)}/board${since ? `?since=${id(since)}` : ""}`),
+
+    createTask: (projectId: string, body: CreateTaskBody) =>
+      call<TaskWriteResponse>(`${project(projectId)}/tasks`, { method: "POST", json: body }),
+    patchTask: (taskId: string, body: PatchTaskBody) =>
+      call<TaskWriteResponse>(task(taskId), { method: "PATCH", json: body }),
+    moveTask: (taskId: string, body: MoveTaskBody) =>
+      call<TaskWriteResponse>(`${task(taskId)}/move`, { method: "POST", json: body }),
+    deleteTask: (taskId: string, version: number) =>
+      call<OkResponse>(`${task(taskId)}?version=${version}`, { method: "DELETE" }),
+    bulkTasks: (projectId: string, body: BulkTaskBody) =>
+      call<BulkTaskResponse>(`${project(projectId)}/tasks/bulk`, { method: "POST", json: body }),
+    archiveTasks: (projectId: string, body: ArchiveTasksBody) =>
+      call<ArchiveResponse>(`${project(projectId)}/archive`, { method: "POST", json: body }),
+    importCsv: (projectId: string, body: CsvImportBody) =>
+      call<CsvImportResponse>(`${project(projectId)}/tasks/csv`, { method: "POST", json: body }),
+    archive: (projectId: string, params: { q?: string; cursor?: string | null; limit?: number } = {}) =>
+      call<ArchivePage>(`${project(projectId)}/archive${query(params)}`),
+    unarchiveTask: (projectId: string, taskId: string) =>
+      call<BoardTaskResponse>(`${project(projectId)}/archive/${id(taskId)}/unarchive`, { method: "POST" }),
+    trash: (projectId: string) => call<TrashResponse>(`${project(projectId)}/trash`),
+    restoreTask: (projectId: string, taskId: string) =>
+      call<TaskResponse>(`${project(projectId)}/trash/${id(taskId)}/restore`, { method: "POST" }),
+    purgeTask: (projectId: string, taskId: string) =>
+      call<OkResponse>(`${project(projectId)}/trash/${id(taskId)}`, { method: "DELETE" }),
+
+    comments: (taskId: string) => call<CommentsResponse>(`${task(taskId)}/comments`),
+    createComment: (taskId: string, body: CreateCommentBody) =>
+      call<CommentResponse>(`${task(taskId)}/comments`, { method: "POST", json: body }),
+    patchComment: (taskId: string, commentId: string, body: PatchCommentBody) =>
+      call<CommentResponse>(`${task(taskId)}/comments/${id(commentId)}`, { method: "PATCH", json: body }),
+    deleteComment: (taskId: string, commentId: string) =>
+      call<OkResponse>(`${task(taskId)}/comments/${id(commentId)}`, { method: "DELETE" }),
+
+    checklist: (taskId: string) => call<ChecklistResponse>(`${task(taskId)}/checklist`),
+    createChecklistItem: (taskId: string, body: CreateChecklistItemBody) =>
+      call<ChecklistItemResponse>(`${task(taskId)}/checklist`, { method: "POST", json: body }),
+    reorderChecklist: (taskId: string, itemIds: string[]) =>
+      call<ChecklistReorderResponse>(`${task(taskId)}/checklist`, { method: "PUT", json: { itemIds } }),
+    patchChecklistItem: (taskId: string, itemId: string, body: PatchChecklistItemBody) =>
+      call<ChecklistItemResponse>(`${task(taskId)}/checklist/${id(itemId)}`, { method: "PATCH", json: body }),
+    deleteChecklistItem: (taskId: string, itemId: string) =>
+      call<ChecklistDeleteResponse>(`${task(taskId)}/checklist/${id(itemId)}`, { method: "DELETE" }),
+
+    columns: (projectId: string) => call<ColumnsResponse>(`${project(projectId)}/columns`),
+    createColumn: (projectId: string, body: CreateColumnBody) =>
+      call<ColumnResponse>(`${project(projectId)}/columns`, { method: "POST", json: body }),
+    reorderColumns: (projectId: string, columnIds: string[]) =>
+      call<ColumnsResponse>(`${project(projectId)}/columns`, { method: "PUT", json: { columnIds } }),
+    patchColumn: (projectId: string, columnId: string, body: PatchColumnBody) =>
+      call<ColumnResponse>(`${project(projectId)}/columns/${id(columnId)}`, { method: "PATCH", json: body }),
+    // `moveTo` receives the column's tasks; required unless it is empty
+    deleteColumn: (projectId: string, columnId: string, moveTo?: string | null) =>
+      call<DeleteColumnResponse>(
+        `${project(projectId)}/columns/${id(columnId)}${moveTo ? `?moveTo=${id(moveTo)}` : ""}`,
+        { method: "DELETE" },
+      ),
+
+    labels: (projectId: string) => call<LabelsResponse>(`${project(projectId)}/labels`),
+    createLabel: (projectId: string, body: CreateLabelBody) =>
+      call<LabelResponse>(`${project(projectId)}/labels`, { method: "POST", json: body }),
+    patchLabel: (projectId: string, labelId: string, body: PatchLabelBody) =>
+      call<LabelResponse>(`${project(projectId)}/labels/${id(labelId)}`, { method: "PATCH", json: body }),
+    deleteLabel: (projectId: string, labelId: string) =>
+      call<OkResponse>(`${project(projectId)}/labels/${id(labelId)}`, { method: "DELETE" }),
+
+    members: (projectId: string) => call<MembersResponse>(`${project(projectId)}/members`),
+    patchMember: (projectId: string, memberId: string, body: PatchMemberBody) =>
+      call<MemberResponse>(`${project(projectId)}/members/${id(memberId)}`, { method: "PATCH", json: body }),
+    removeMember: (projectId: string, memberId: string) =>
+      call<RemoveMemberResponse>(`${project(projectId)}/members/${id(memberId)}`, { method: "DELETE" }),
+    invites: (projectId: string) => call<InvitesResponse>(`${project(projectId)}/invites`),
+    createInvite: (projectId: string, body: CreateInviteBody = {}) =>
+      call<InviteResponse>(`${project(projectId)}/invites`, { method: "POST", json: body }),
+    revokeInvite: (projectId: string, inviteId: string) =>
+      call<InviteResponse>(`${project(projectId)}/invites/${id(inviteId)}`, { method: "DELETE" }),
+
+    activity: (projectId: string, params: { cursor?: string | null; taskId?: string; limit?: number } = {}) =>
+      call<ActivityPage>(`${project(projectId)}/activity${query(params)}`),
+    search: (projectId: string, q: string, limit?: number) =>
+      call<SearchResponse>(`${project(projectId)}/search${query({ q, limit })}`),
+
+    // API tokens can't manage tokens; these need the session
+    apiTokens: (projectId: string) => call<ApiTokensResponse>(`${project(projectId)}/tokens`),
+    createApiToken: (projectId: string, body: CreateApiTokenBody) =>
+      call<CreateApiTokenResponse>(`${project(projectId)}/tokens`, { method: "POST", json: body }),
+    deleteApiToken: (projectId: string, tokenId: string) =>
+      call<OkResponse>(`${project(projectId)}/tokens/${id(tokenId)}`, { method: "DELETE" }),
+
+    calendarFeeds: (projectId: string) => call<CalendarFeedsResponse>(`${project(projectId)}/calendar-feeds`),
+    createCalendarFeed: (projectId: string, body: CreateCalendarFeedBody) =>
+      call<CreateCalendarFeedResponse>(`${project(projectId)}/calendar-feeds`, { method: "POST", json: body }),
+    deleteCalendarFeed: (projectId: string, feedId: string) =>
+      call<OkResponse>(`${project(projectId)}/calendar-feeds/${id(feedId)}`, { method: "DELETE" }),
+
+    webhooks: (projectId: string) => call<WebhooksResponse>(`${project(projectId)}/webhooks`),
+    createWebhook: (projectId: string, body: CreateWebhookBody) =>
+      call<CreateWebhookResponse>(`${project(projectId)}/webhooks`, { method: "POST", json: body }),
+    patchWebhook: (projectId: string, webhookId: string, body: PatchWebhookBody) =>
+      call<WebhookResponse>(`${project(projectId)}/webhooks/${id(webhookId)}`, { method: "PATCH", json: body }),
+    deleteWebhook: (projectId: string, webhookId: string) =>
+      call<OkResponse>(`${project(projectId)}/webhooks/${id(webhookId)}`, { method: "DELETE" }),
+    pingWebhook: (projectId: string, webhookId: string) =>
+      call<DeliveryQueuedResponse>(`${project(projectId)}/webhooks/${id(webhookId)}/ping`, { method: "POST" }),
+    webhookDeliveries: (projectId: string, webhookId: string) =>
+      call<WebhookDeliveriesResponse>(`${project(projectId)}/webhooks/${id(webhookId)}/deliveries`),
+    redeliver: (projectId: string, webhookId: string, deliveryId: string) =>
+      call<DeliveryQueuedResponse>(
+        `${project(projectId)}/webhooks/${id(webhookId)}/deliveries/${id(deliveryId)}/redeliver`,
+        { method: "POST" },
+      ),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+/** The browser's client: same origin, authenticated by the session cookie. */
+export const api = createApiClient();
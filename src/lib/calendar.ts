@@ -0,0 +1,85 @@
+/**
+ * Minimal RFC 5545 output for the due-date feed: all-day VEVENTs only, which
+ * every calendar app that subscribes to URLs understands.
+ */
+
+export type CalendarEvent = {
+  uid: string;
+  // UTC midnight of the day, as due dates are stored
+  date: Date;
+  summary: string;
+  description: string;
+  url: string;
+  categories: string[];
+  updatedAt: Date;
+  // bumps on every change so clients replace their copy
+  sequence: number;
+};
+
+function escapeText(s: string) {
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function fmtDate(d: Date) {
+  return d.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function fmtTimestamp(d: Date) {
+  return d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Folds a content line at 75 octets without splitting a multi-byte character. */
+function fold(line: string) {
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch);
+    // continuation lines start with a space, which counts towards their 75
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += ch;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+export function toICalendar(calendar: { name: string; events: CalendarEvent[] }): string {
+  const now = fmtTimestamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Simple Trello//Due dates//JA",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    // a hint only; most clients poll on their own schedule
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+  for (const e of calendar.events) {
+    const end = new Date(e.date.getTime() + 24 * 60 * 60 * 1000);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${e.uid}`,
+      `DTSTAMP:${now}`,
+      `LAST-MODIFIED:${fmtTimestamp(e.updatedAt)}`,
+      `SEQUENCE:${e.sequence}`,
+      `DTSTART;VALUE=DATE:${fmtDate(e.date)}`,
+      `DTEND;VALUE=DATE:${fmtDate(end)}`,
+      `SUMMARY:${escapeText(e.summary)}`,
+      `DESCRIPTION:${escapeText(e.description)}`,
+      `URL:${e.url}`,
+      ...(e.categories.length > 0 ? [`CATEGORIES:${e.categories.map(escapeText).join(",")}`] : []),
+      // a deadline shouldn't block the day as busy
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
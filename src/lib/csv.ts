@@ -0,0 +1,65 @@
+/**
+ * Minimal RFC 4180 CSV, shared by the task export route and the browser-side
+ * import preview. Fields are quoted only when they need to be.
+ */
+
+/** Parses CSV text into rows of fields; a leading BOM and a trailing newline are ignored. */
+export function parseCsv(text: string): string[][] {
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c !== '"') field += c;
+      else if (src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else quoted = false;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // blank lines (e.g. at the end of a spreadsheet export) carry no data
+  return rows.filter((r) => r.length > 1 || r[0] !== "");
+}
+
+function quote(field: string) {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/** Serializes rows with CRLF line endings, which Excel and Sheets both expect. */
+export function toCsv(rows: string[][]): string {
+  return rows.map((r) => r.map(quote).join(",")).join("\r\n") + "\r\n";
+}
+
+// spreadsheet apps run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/** Prefixes a quote so a task titled "=HYPERLINK(...)" stays text when the export is opened. */
+export function guardFormula(field: string) {
+  return FORMULA_START.test(field) ? `'${field}` : field;
+}
+
+/** Undoes `guardFormula`, so exported files import back unchanged. */
+export function unguardFormula(field: string) {
+  return field.startsWith("'") && FORMULA_START.test(field.slice(1)) ? field.slice(1) : field;
+}
@@ -1,4 +1,6 @@
 import { randomBytes } from "crypto";
+import { Prisma } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
 
 export function generateInviteCode(length = 8): string {
   // 32 chars alphabet (no I/O to reduce confusion)
@@ -9,3 +11,76 @@ export function generateInviteCode(length = 8): string {
   return out;
 }
 
+export const INVITE_SELECT = {
+  id: true,
+  code: true,
+  expiresAt: true,
+  maxUses: true,
+  useCount: true,
+  revokedAt: true,
+  createdAt: true,
+} satisfies Prisma.InviteSelect;
+
+type InviteRow = Prisma.InviteGetPayload<{ select: typeof INVITE_SELECT }>;
+
+export type InviteStatus = "ACTIVE" | "REVOKED" | "EXPIRED" | "EXHAUSTED";
+
+export function inviteStatus(
+  invite: Pick<InviteRow, "expiresAt" | "maxUses" | "useCount" | "revokedAt">,
+  now = new Date(),
+): InviteStatus {
+  if (invite.revokedAt) return "REVOKED";
+  if (invite.expiresAt && invite.expiresAt <= now) return "EXPIRED";
+  if (invite.maxUses !== null && invite.useCount >= invite.maxUses) return "EXHAUSTED";
+  return "ACTIVE";
+}
+
+export function toInvitePayload(invite: InviteRow, now = new Date()) {
+  return { ...invite, status: inviteStatus(invite, now) };
+}
+
+export type InvitePayload = ReturnType<typeof toInvitePayload>;
+
+/** The newest invite that can still be used, which the board shows to every member. */
+export async function getActiveInvite(projectId: string) {
+  const prisma = getPrisma();
+  const now = new Date();
+  const invite = await prisma.invite.findFirst({
+    where: {
+      projectId,
+      revokedAt: null,
+      AND: [
+        { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+        { OR: [{ maxUses: null }, { useCount: { lt: prisma.invite.fields.maxUses } }] },
+      ],
+    },
+    orderBy: { createdAt: "desc" },
+    select: INVITE_SELECT,
+  });
+  return invite ? toInvitePayload(invite, now) : null;
+}
+
+/**
+ * Creates an invite with a fresh code, retrying on the (unlikely) unique collision.
+ * Not for use inside a transaction: a failed insert aborts it.
+ */
+export async function createInvite(data: {
+  projectId: string;
+  createdById: string | null;
+  expiresAt?: Date | null;
+  maxUses?: number | null;
+}): Promise<InviteRow | null> {
+  const prisma = getPrisma();
+  for (let attempt = 0; attempt < 8; attempt++) {
+    try {
+      return await prisma.invite.create({
+        data: { ...data, code: generateInviteCode() },
+        select: INVITE_SELECT,
+      });
+    } catch (e) {
+      if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002") continue;
+      throw e;
+    }
+  }
+  return null;
+}
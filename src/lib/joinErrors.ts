@@ -0,0 +1,11 @@
+// Messages for the error codes POST /api/projects/join can return.
+const JOIN_ERROR_MESSAGE: Record<string, string> = {
+  INVITE_NOT_FOUND: "招待コードが見つかりません。コードを確認してください。",
+  INVITE_REVOKED: "この招待コードは無効化されています。オーナーに新しいコードを依頼してください。",
+  INVITE_EXPIRED: "この招待コードは有効期限が切れています。オーナーに新しいコードを依頼してください。",
+  INVITE_EXHAUSTED: "この招待コードは利用回数の上限に達しています。オーナーに新しいコードを依頼してください。",
+};
+
+export function joinErrorMessage(code: string) {
+  return JOIN_ERROR_MESSAGE[code] ?? code;
+}
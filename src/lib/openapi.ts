@@ -0,0 +1,778 @@
+import { z } from "zod";
+import { ERROR_CODES, apiSchemas } from "@/lib/schemas";
+import type { ErrorCode } from "@/lib/schemas";
+import { SESSION_COOKIE } from "@/lib/session";
+
+type Method = "get" | "post" | "put" | "patch" | "delete";
+
+type Operation = {
+  summary: string;
+  description?: string;
+  tag: string;
+  query?: Array<{ name: string; description: string; required?: boolean; schema: object }>;
+  // component ids from `apiSchemas`
+  body?: string;
+  // a component id, or the media type of a response that isn't JSON
+  response: string | { mediaType: string; description: string };
+  // besides the auth errors every signed-in operation can answer with
+  errors: ErrorCode[];
+  // create/join/import also serve signed-out callers
+  public?: boolean;
+  // API tokens are refused; only a browser session will do
+  sessionOnly?: boolean;
+  // no member at all: the secret in the path, or CRON_SECRET, is the credential
+  credential?: "path" | "cronSecret";
+};
+
+const VERSION_QUERY = {
+  name: "version",
+  description: "The task version the client last saw.",
+  required: true,
+  schema: { type: "integer", minimum: 0 },
+};
+
+/** The documented operations; keep in step with the route handlers. */
+const OPERATIONS: Record<string, Partial<Record<Method, Operation>>> = {
+  "/api/projects": {
+    post: {
+      tag: "projects",
+      summary: "Create a project",
+      description: "The caller becomes its owner; a signed-out caller is signed in as a new member.",
+      body: "CreateProjectBody",
+      response: "ProjectSessionResponse",
+      errors: ["INVALID_BODY", "DISPLAY_NAME_REQUIRED", "INVITE_CODE_GENERATION_FAILED"],
+      public: true,
+    },
+  },
+  "/api/projects/join": {
+    post: {
+      tag: "projects",
+      summary: "Join a project with an invite code",
+      body: "JoinProjectBody",
+      response: "ProjectSessionResponse",
+      errors: [
+        "INVALID_BODY",
+        "DISPLAY_NAME_REQUIRED",
+        "INVITE_NOT_FOUND",
+        "INVITE_REVOKED",
+        "INVITE_EXPIRED",
+        "INVITE_EXHAUSTED",
+      ],
+      public: true,
+    },
+  },
+  "/api/projects/import": {
+    post: {
+      tag: "projects",
+      summary: "Create a project from an export file",
+      body: "ImportProjectBody",
+      response: "ImportProjectResponse",
+      errors: ["INVALID_BODY", "INVALID_EXPORT", "DISPLAY_NAME_REQUIRED", "INVITE_CODE_GENERATION_FAILED"],
+      public: true,
+    },
+  },
+  "/api/projects/import/trello": {
+    post: {
+      tag: "projects",
+      summary: "Create a project from a Trello board export",
+      body: "ImportTrelloBody",
+      response: "ImportTrelloResponse",
+      errors: ["INVALID_BODY", "INVALID_TRELLO_EXPORT", "DISPLAY_NAME_REQUIRED", "INVITE_CODE_GENERATION_FAILED"],
+      public: true,
+    },
+  },
+  "/api/me/projects": {
+    get: {
+      tag: "projects",
+      summary: "List the caller's projects",
+      response: "MyProjectsResponse",
+      errors: [],
+    },
+  },
+  "/api/projects/{projectId}": {
+    delete: {
+      tag: "projects",
+      summary: "Delete a project with everything in it",
+      response: "OkResponse",
+      errors: ["FORBIDDEN", "OWNER_ONLY"],
+    },
+  },
+  "/api/projects/{projectId}/export": {
+    get: {
+      tag: "projects",
+      summary: "Download the project as an export file",
+      description: "Served as an attachment; `POST /api/projects/import` turns it back into a project.",
+      response: "ProjectExport",
+      errors: ["FORBIDDEN", "PROJECT_NOT_FOUND"],
+    },
+  },
+  "/api/projects/{projectId}/board": {
+    get: {
+      tag: "board",
+      summary: "Load the board",
+      description:
+        "Without `since` the whole board; with the `cursor` of an earlier response only tasks changed since then " +
+        "plus `deletedTaskIds` (`full` is false). Members, columns and labels always come in full.",
+      query: [
+        {
+          name: "since",
+          description: "`cursor` of an earlier response.",
+          schema: { type: "integer", minimum: 0 },
+        },
+      ],
+      response: "BoardResponse",
+      errors: ["FORBIDDEN", "INVALID_QUERY", "PROJECT_NOT_FOUND"],
+    },
+  },
+  "/api/projects/{projectId}/events": {
+    get: {
+      tag: "board",
+      summary: "Follow changes to the board",
+      description:
+        "Server-sent events: `ready` once connected, then one `data:` JSON message per change with a `type` " +
+        "such as `task.updated` or `columns.changed`. The stream ends when the caller is removed from the " +
+        "project or the project is deleted; after a reconnect, catch up with the board's `since`.",
+      response: { mediaType: "text/event-stream", description: "An endless event stream." },
+      errors: ["FORBIDDEN"],
+    },
+  },
+  "/api/projects/{projectId}/tasks": {
+    post: {
+      tag: "tasks",
+      summary: "Create a task at the bottom of a column",
+      body: "CreateTaskBody",
+      response: "TaskWriteResponse",
+      errors: [
+        "FORBIDDEN",
+        "INVALID_BODY",
+        "COLUMN_NOT_IN_PROJECT",
+        "ASSIGNEE_NOT_IN_PROJECT",
+        "LABEL_NOT_IN_PROJECT",
+      ],
+    },
+  },
+  "/api/projects/{projectId}/tasks/csv": {
+    get: {
+      tag: "tasks",
+      summary: "Download the board as CSV",
+      description: "One row per card, columns in board order and cards top to bottom.",
+      response: { mediaType: "text/csv", description: "UTF-8 with a BOM, so spreadsheet apps read it right." },
+      errors: ["FORBIDDEN"],
+    },
+    post: {
+      tag: "tasks",
+      summary: "Create tasks from spreadsheet rows",
+      description: "Appended to the bottom of their columns in row order.",
+      body: "CsvImportBody",
+      response: "CsvImportResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY"],
+    },
+  },
+  "/api/projects/{projectId}/tasks/bulk": {
+    post: {
+      tag: "tasks",
+      summary: "Change many tasks at once",
+      description: "Every task carries the version the client last saw. Either every task changes or none does.",
+      body: "BulkTaskBody",
+      response: "BulkTaskResponse",
+      errors: [
+        "FORBIDDEN",
+        "INVALID_BODY",
+        "TASKS_NOT_IN_PROJECT",
+        "COLUMN_NOT_IN_PROJECT",
+        "ASSIGNEE_NOT_IN_PROJECT",
+        "LABEL_NOT_IN_PROJECT",
+        "TASKS_CHANGED",
+      ],
+    },
+  },
+  "/api/projects/{projectId}/archive": {
+    get: {
+      tag: "tasks",
+      summary: "List archived tasks",
+      query: [
+        { name: "q", description: "Only tasks whose title or description contains this.", schema: { type: "string", maxLength: 200 } },
+        { name: "cursor", description: "`nextCursor` of the previous page.", schema: { type: "string" } },
+        {
+          name: "limit",
+          description: "Page size, at most 100.",
+          schema: { type: "integer", minimum: 1, maximum: 100, default: 30 },
+        },
+      ],
+      response: "ArchivePage",
+      errors: ["FORBIDDEN", "INVALID_QUERY"],
+    },
+    post: {
+      tag: "tasks",
+      summary: "Archive tasks",
+      body: "ArchiveTasksBody",
+      response: "ArchiveResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY", "COLUMN_NOT_IN_PROJECT"],
+    },
+  },
+  "/api/projects/{projectId}/archive/{taskId}/unarchive": {
+    post: {
+      tag: "tasks",
+      summary: "Put an archived task back at the bottom of its column",
+      response: "BoardTaskResponse",
+      errors: ["FORBIDDEN", "TASK_NOT_FOUND", "TASK_NOT_ARCHIVED"],
+    },
+  },
+  "/api/projects/{projectId}/trash": {
+    get: {
+      tag: "tasks",
+      summary: "List deleted tasks",
+      description: "Tasks stay in the trash for `retentionDays`, then are purged for good.",
+      response: "TrashResponse",
+      errors: ["FORBIDDEN"],
+    },
+  },
+  "/api/projects/{projectId}/trash/{taskId}": {
+    delete: {
+      tag: "tasks",
+      summary: "Delete a task in the trash for good",
+      description: "Deleting a task that is already gone succeeds.",
+      response: "OkResponse",
+      errors: ["FORBIDDEN", "TASK_NOT_IN_TRASH"],
+    },
+  },
+  "/api/projects/{projectId}/trash/{taskId}/restore": {
+    post: {
+      tag: "tasks",
+      summary: "Restore a deleted task to its old slot",
+      response: "TaskResponse",
+      errors: ["FORBIDDEN", "TASK_NOT_FOUND", "TASK_NOT_IN_TRASH"],
+    },
+  },
+  "/api/tasks/{taskId}": {
+    patch: {
+      tag: "tasks",
+      summary: "Edit a task",
+      body: "PatchTaskBody",
+      response: "TaskWriteResponse",
+      errors: [
+        "FORBIDDEN",
+        "INVALID_BODY",
+        "TASK_NOT_FOUND",
+        "COLUMN_NOT_IN_PROJECT",
+        "ASSIGNEE_NOT_IN_PROJECT",
+        "LABEL_NOT_IN_PROJECT",
+        "VERSION_CONFLICT",
+      ],
+    },
+    delete: {
+      tag: "tasks",
+      summary: "Move a task to the trash",
+      description: "Deleting a task that is already gone succeeds.",
+      query: [VERSION_QUERY],
+      response: "OkResponse",
+      errors: ["FORBIDDEN", "INVALID_VERSION", "VERSION_CONFLICT"],
+    },
+  },
+  "/api/tasks/{taskId}/move": {
+    post: {
+      tag: "tasks",
+      summary: "Drop a task into a column slot",
+      body: "MoveTaskBody",
+      response: "TaskWriteResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY", "TASK_NOT_FOUND", "VERSION_CONFLICT", "COLUMN_NOT_IN_PROJECT", "AFTER_NOT_IN_COLUMN"],
+    },
+  },
+  "/api/tasks/{taskId}/comments": {
+    get: {
+      tag: "comments",
+      summary: "List a task's comments",
+      response: "CommentsResponse",
+      errors: ["FORBIDDEN", "TASK_NOT_FOUND"],
+    },
+    post: {
+      tag: "comments",
+      summary: "Comment on a task, or reply to a comment",
+      body: "CreateCommentBody",
+      response: "CommentResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY", "TASK_NOT_FOUND", "PARENT_COMMENT_NOT_FOUND", "PARENT_IS_REPLY"],
+    },
+  },
+  "/api/tasks/{taskId}/comments/{commentId}": {
+    patch: {
+      tag: "comments",
+      summary: "Edit a comment",
+      body: "PatchCommentBody",
+      response: "CommentResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY", "TASK_NOT_FOUND", "COMMENT_NOT_FOUND", "NOT_COMMENT_AUTHOR"],
+    },
+    delete: {
+      tag: "comments",
+      summary: "Delete a comment with its replies",
+      description: "Deleting a comment that is already gone succeeds.",
+      response: "OkResponse",
+      errors: ["FORBIDDEN", "TASK_NOT_FOUND", "NOT_COMMENT_AUTHOR"],
+    },
+  },
+  "/api/tasks/{taskId}/checklist": {
+    get: {
+      tag: "checklist",
+      summary: "List a task's checklist",
+      response: "ChecklistResponse",
+      errors: ["FORBIDDEN", "TASK_NOT_FOUND"],
+    },
+    post: {
+      tag: "checklist",
+      summary: "Add a checklist item at the end",
+      body: "CreateChecklistItemBody",
+      response: "ChecklistItemResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY", "TASK_NOT_FOUND"],
+    },
+    put: {
+      tag: "checklist",
+      summary: "Reorder the checklist",
+      body: "ReorderChecklistBody",
+      response: "ChecklistReorderResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY", "TASK_NOT_FOUND", "CHECKLIST_MISMATCH"],
+    },
+  },
+  "/api/tasks/{taskId}/checklist/{itemId}": {
+    patch: {
+      tag: "checklist",
+      summary: "Edit or tick a checklist item",
+      body: "PatchChecklistItemBody",
+      response: "ChecklistItemResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY", "TASK_NOT_FOUND", "CHECKLIST_ITEM_NOT_FOUND"],
+    },
+    delete: {
+      tag: "checklist",
+      summary: "Remove a checklist item",
+      description: "Removing an item that is already gone succeeds.",
+      response: "ChecklistDeleteResponse",
+      errors: ["FORBIDDEN", "TASK_NOT_FOUND"],
+    },
+  },
+  "/api/projects/{projectId}/columns": {
+    get: {
+      tag: "columns",
+      summary: "List the columns in board order",
+      response: "ColumnsResponse",
+      errors: ["FORBIDDEN"],
+    },
+    post: {
+      tag: "columns",
+      summary: "Add a column at the right end",
+      body: "CreateColumnBody",
+      response: "ColumnResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY"],
+    },
+    put: {
+      tag: "columns",
+      summary: "Reorder the columns",
+      body: "ReorderColumnsBody",
+      response: "ColumnsResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY", "COLUMNS_MISMATCH"],
+    },
+  },
+  "/api/projects/{projectId}/columns/{columnId}": {
+    patch: {
+      tag: "columns",
+      summary: "Rename or recolor a column",
+      body: "PatchColumnBody",
+      response: "ColumnResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY", "COLUMN_NOT_FOUND"],
+    },
+    delete: {
+      tag: "columns",
+      summary: "Delete a column",
+      query: [
+        {
+          name: "moveTo",
+          description: "Column that receives the tasks; required unless the column is empty.",
+          schema: { type: "string" },
+        },
+      ],
+      response: "DeleteColumnResponse",
+      errors: ["FORBIDDEN", "LAST_COLUMN", "COLUMN_NOT_EMPTY", "INVALID_MOVE_TARGET"],
+    },
+  },
+  "/api/projects/{projectId}/labels": {
+    get: {
+      tag: "labels",
+      summary: "List the labels",
+      response: "LabelsResponse",
+      errors: ["FORBIDDEN"],
+    },
+    post: {
+      tag: "labels",
+      summary: "Create a label",
+      body: "CreateLabelBody",
+      response: "LabelResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY", "LABEL_NAME_TAKEN"],
+    },
+  },
+  "/api/projects/{projectId}/labels/{labelId}": {
+    patch: {
+      tag: "labels",
+      summary: "Rename or recolor a label",
+      body: "PatchLabelBody",
+      response: "LabelResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY", "LABEL_NOT_FOUND", "LABEL_NAME_TAKEN"],
+    },
+    delete: {
+      tag: "labels",
+      summary: "Delete a label and take it off every task",
+      response: "OkResponse",
+      errors: ["FORBIDDEN"],
+    },
+  },
+  "/api/projects/{projectId}/members": {
+    get: {
+      tag: "members",
+      summary: "List the members",
+      description: "In the order they joined.",
+      response: "MembersResponse",
+      errors: ["FORBIDDEN"],
+    },
+  },
+  "/api/projects/{projectId}/members/{memberId}": {
+    patch: {
+      tag: "members",
+      summary: "Change a member's role",
+      body: "PatchMemberBody",
+      response: "MemberResponse",
+      errors: ["FORBIDDEN", "OWNER_ONLY", "INVALID_BODY", "MEMBER_NOT_FOUND", "LAST_OWNER"],
+    },
+    delete: {
+      tag: "members",
+      summary: "Remove a member, or leave the project",
+      description: "Owners can remove anyone; members can only remove themselves.",
+      response: "RemoveMemberResponse",
+      errors: ["FORBIDDEN", "OWNER_ONLY", "LAST_OWNER"],
+    },
+  },
+  "/api/projects/{projectId}/invites": {
+    get: {
+      tag: "members",
+      summary: "List invite codes",
+      response: "InvitesResponse",
+      errors: ["FORBIDDEN", "OWNER_ONLY"],
+    },
+    post: {
+      tag: "members",
+      summary: "Issue an invite code",
+      body: "CreateInviteBody",
+      response: "InviteResponse",
+      errors: ["FORBIDDEN", "OWNER_ONLY", "INVALID_BODY", "INVITE_CODE_GENERATION_FAILED"],
+    },
+  },
+  "/api/projects/{projectId}/invites/{inviteId}": {
+    delete: {
+      tag: "members",
+      summary: "Revoke an invite code",
+      description: "Revoking a code twice succeeds.",
+      response: "InviteResponse",
+      errors: ["FORBIDDEN", "OWNER_ONLY", "INVITE_NOT_FOUND"],
+    },
+  },
+  "/api/projects/{projectId}/activity": {
+    get: {
+      tag: "activity",
+      summary: "Read the activity log",
+      query: [
+        { name: "cursor", description: "`nextCursor` of the previous page.", schema: { type: "string" } },
+        { name: "taskId", description: "Only entries about this task.", schema: { type: "string" } },
+        {
+          name: "limit",
+          description: "Page size, at most 100.",
+          schema: { type: "integer", minimum: 1, maximum: 100, default: 30 },
+        },
+      ],
+      response: "ActivityPage",
+      errors: ["FORBIDDEN", "INVALID_QUERY"],
+    },
+  },
+  "/api/projects/{projectId}/search": {
+    get: {
+      tag: "search",
+      summary: "Search task titles, descriptions and comments",
+      description: "Archived and deleted tasks are left out. Every word must match, as a prefix or substring.",
+      query: [
+        {
+          name: "q",
+          description: "Words to look for.",
+          required: true,
+          schema: { type: "string", minLength: 1, maxLength: 200 },
+        },
+        {
+          name: "limit",
+          description: "Page size, at most 50.",
+          schema: { type: "integer", minimum: 1, maximum: 50, default: 20 },
+        },
+      ],
+      response: "SearchResponse",
+      errors: ["FORBIDDEN", "INVALID_QUERY"],
+    },
+  },
+  "/api/projects/{projectId}/tokens": {
+    get: {
+      tag: "tokens",
+      summary: "List the caller's API tokens for this project",
+      response: "ApiTokensResponse",
+      errors: ["FORBIDDEN"],
+      sessionOnly: true,
+    },
+    post: {
+      tag: "tokens",
+      summary: "Create an API token",
+      body: "CreateApiTokenBody",
+      response: "CreateApiTokenResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY", "TOO_MANY_TOKENS"],
+      sessionOnly: true,
+    },
+  },
+  "/api/projects/{projectId}/tokens/{tokenId}": {
+    delete: {
+      tag: "tokens",
+      summary: "Revoke an API token",
+      response: "OkResponse",
+      errors: ["TOKEN_NOT_FOUND"],
+      sessionOnly: true,
+    },
+  },
+  "/api/projects/{projectId}/calendar-feeds": {
+    get: {
+      tag: "calendar",
+      summary: "List the caller's calendar feeds",
+      response: "CalendarFeedsResponse",
+      errors: ["FORBIDDEN"],
+    },
+    post: {
+      tag: "calendar",
+      summary: "Create a calendar subscription URL",
+      body: "CreateCalendarFeedBody",
+      response: "CreateCalendarFeedResponse",
+      errors: ["FORBIDDEN", "INVALID_BODY", "ASSIGNEE_NOT_IN_PROJECT"],
+    },
+  },
+  "/api/projects/{projectId}/calendar-feeds/{feedId}": {
+    delete: {
+      tag: "calendar",
+      summary: "Revoke a calendar feed",
+      response: "OkResponse",
+      errors: ["FORBIDDEN", "FEED_NOT_FOUND"],
+    },
+  },
+  "/api/calendar/{token}": {
+    get: {
+      tag: "calendar",
+      summary: "Read a calendar feed",
+      description: "`token` may end in `.ics`. Every task with a due date, as an all-day event.",
+      response: { mediaType: "text/calendar", description: "An iCalendar document." },
+      errors: ["FEED_NOT_FOUND"],
+      credential: "path",
+    },
+  },
+  "/api/projects/{projectId}/webhooks": {
+    get: {
+      tag: "webhooks",
+      summary: "List the project's webhooks",
+      response: "WebhooksResponse",
+      errors: ["FORBIDDEN", "OWNER_ONLY"],
+    },
+    post: {
+      tag: "webhooks",
+      summary: "Add a webhook",
+      description: "Each delivery is signed with the secret in the `x-webhook-signature` header.",
+      body: "CreateWebhookBody",
+      response: "CreateWebhookResponse",
+      errors: ["FORBIDDEN", "OWNER_ONLY", "INVALID_BODY", "WEBHOOK_URL_NOT_ALLOWED", "TOO_MANY_WEBHOOKS"],
+    },
+  },
+  "/api/projects/{projectId}/webhooks/{webhookId}": {
+    patch: {
+      tag: "webhooks",
+      summary: "Change, pause or re-key a webhook",
+      body: "PatchWebhookBody",
+      response: "WebhookResponse",
+      errors: ["FORBIDDEN", "OWNER_ONLY", "INVALID_BODY", "WEBHOOK_URL_NOT_ALLOWED", "WEBHOOK_NOT_FOUND"],
+    },
+    delete: {
+      tag: "webhooks",
+      summary: "Remove a webhook with its delivery log",
+      response: "OkResponse",
+      errors: ["FORBIDDEN", "OWNER_ONLY", "WEBHOOK_NOT_FOUND"],
+    },
+  },
+  "/api/projects/{projectId}/webhooks/{webhookId}/ping": {
+    post: {
+      tag: "webhooks",
+      summary: "Send a test event",
+      response: "DeliveryQueuedResponse",
+      errors: ["FORBIDDEN", "OWNER_ONLY", "WEBHOOK_NOT_FOUND"],
+    },
+  },
+  "/api/projects/{projectId}/webhooks/{webhookId}/deliveries": {
+    get: {
+      tag: "webhooks",
+      summary: "Read a webhook's delivery log",
+      response: "WebhookDeliveriesResponse",
+      errors: ["FORBIDDEN", "OWNER_ONLY", "WEBHOOK_NOT_FOUND"],
+    },
+  },
+  "/api/projects/{projectId}/webhooks/{webhookId}/deliveries/{deliveryId}/redeliver": {
+    post: {
+      tag: "webhooks",
+      summary: "Send a logged delivery again",
+      description: "As a new delivery with the same payload and event id.",
+      response: "DeliveryQueuedResponse",
+      errors: ["FORBIDDEN", "OWNER_ONLY", "DELIVERY_NOT_FOUND"],
+    },
+  },
+  "/api/webhooks/sweep": {
+    get: {
+      tag: "webhooks",
+      summary: "Send overdue deliveries and retries",
+      description: "For a scheduler on serverless hosts; answers 401 until `CRON_SECRET` is set.",
+      response: "SweepResponse",
+      errors: [],
+      credential: "cronSecret",
+    },
+  },
+};
+
+const MAX_SAFE = Number.MAX_SAFE_INTEGER;
+
+function componentSchemas() {
+  const { schemas } = z.toJSONSchema(apiSchemas, {
+    target: "draft-2020-12",
+    // bodies are documented as sent; responses have no transforms or defaults, so this suits both
+    io: "input",
+    uri: (id) => `#/components/schemas/${id}`,
+    // drop the date-time regex and safe-integer bounds zod adds; they only bury the real constraints
+    override: ({ jsonSchema }) => {
+      if (jsonSchema.format === "date-time") delete jsonSchema.pattern;
+      if (jsonSchema.type === "integer") {
+        if (jsonSchema.minimum === -MAX_SAFE) delete jsonSchema.minimum;
+        if (jsonSchema.maximum === MAX_SAFE) delete jsonSchema.maximum;
+      }
+    },
+  });
+  // the components live inside one document, so per-schema ids and dialects only get in the way
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+  return schemas;
+}
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` });
+
+function errorResponses(codes: ErrorCode[]) {
+  const byStatus = new Map<number, ErrorCode[]>();
+  for (const code of codes) {
+    const { status } = ERROR_CODES[code];
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+  return Object.fromEntries(
+    [...byStatus].map(([status, list]) => [
+      String(status),
+      {
+        description: list.map((code) => `\`${code}\`: ${ERROR_CODES[code].description}`).join("\n\n"),
+        content: { "application/json": { schema: ref("Error") } },
+      },
+    ]),
+  );
+}
+
+function authErrors(method: Method, op: Operation): ErrorCode[] {
+  if (op.public || op.credential === "path") return [];
+  if (op.credential === "cronSecret") return ["UNAUTHENTICATED"];
+  if (op.sessionOnly) return ["UNAUTHENTICATED", "SESSION_REQUIRED"];
+  return ["UNAUTHENTICATED", "TOKEN_SCOPE", ...(method === "get" ? [] : (["READ_ONLY_TOKEN"] as const))];
+}
+
+function security(op: Operation) {
+  // signed-out callers are fine too
+  if (op.public) return { security: [{}, { sessionCookie: [] }, { bearerToken: [] }] };
+  if (op.credential === "path") return { security: [] };
+  if (op.credential === "cronSecret") return { security: [{ cronSecret: [] }] };
+  return {};
+}
+
+function successResponse(response: Operation["response"]) {
+  if (typeof response === "string") {
+    return { description: "OK", content: { "application/json": { schema: ref(response) } } };
+  }
+  return {
+    description: response.description,
+    content: { [response.mediaType]: { schema: { type: "string" } } },
+  };
+}
+
+function toOperation(path: string, method: Method, op: Operation) {
+  const pathParams = [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+  const queryParams = (op.query ?? []).map(({ required = false, ...q }) => ({ ...q, in: "query", required }));
+
+  return {
+    tags: [op.tag],
+    summary: op.summary,
+    ...(op.description ? { description: op.description } : {}),
+    ...(pathParams.length + queryParams.length > 0 ? { parameters: [...pathParams, ...queryParams] } : {}),
+    ...(op.body
+      ? { requestBody: { required: true, content: { "application/json": { schema: ref(op.body) } } } }
+      : {}),
+    ...security(op),
+    responses: {
+      "200": successResponse(op.response),
+      ...errorResponses([...authErrors(method, op), ...op.errors]),
+    },
+  };
+}
+
+let components: ReturnType<typeof componentSchemas> | null = null;
+
+/** The OpenAPI 3.1 document served at `/api/openapi.json`. */
+export function buildOpenApiDocument(origin: string) {
+  components ??= componentSchemas();
+  return {
+    openapi: "3.1.0",
+    jsonSchemaDialect: "https://json-schema.org/draft/2020-12/schema",
+    info: {
+      title: "Simple Trello API",
+      // bump when a documented shape changes incompatibly
+      version: "1",
+      description:
+        "Errors are JSON objects whose `error` field holds a stable code; each operation lists the codes it " +
+        "can answer with. Writes to tasks carry the `version` the client last saw and fail with " +
+        "`VERSION_CONFLICT` when someone else got there first.",
+    },
+    servers: [{ url: origin }],
+    security: [{ sessionCookie: [] }, { bearerToken: [] }],
+    paths: Object.fromEntries(
+      Object.entries(OPERATIONS).map(([path, methods]) => [
+        path,
+        Object.fromEntries(
+          Object.entries(methods).map(([method, op]) => [method, toOperation(path, method as Method, op)]),
+        ),
+      ]),
+    ),
+    components: {
+      schemas: components,
+      securitySchemes: {
+        sessionCookie: { type: "apiKey", in: "cookie", name: SESSION_COOKIE },
+        bearerToken: {
+          type: "http",
+          scheme: "bearer",
+          description:
+            "A session token, or a personal API token (`st_pat_...`) limited to the project it was issued for.",
+        },
+        cronSecret: {
+          type: "http",
+          scheme: "bearer",
+          description: "The server's `CRON_SECRET`, for schedulers.",
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,210 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { getPrisma } from "@/lib/prisma";
+import { spacedRanks } from "@/lib/rank";
+import { EXPORT_FORMAT, EXPORT_VERSION } from "@/lib/schemas";
+import type { ImportSummary, ProjectExport } from "@/lib/schemas";
+
+/** zod issues as `{ path: "tasks.3.columnId", message }`, precise enough to fix a file by hand. */
+export function describeIssues(error: z.ZodError) {
+  return error.issues.map((i) => ({ path: i.path.join("."), message: i.message }));
+}
+
+/** Everything on the board plus archived tasks; the trash, activity log and invites stay behind. */
+export async function buildProjectExport(projectId: string): Promise<ProjectExport | null> {
+  const prisma = getPrisma();
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      name: true,
+      members: { orderBy: { joinedAt: "asc" }, select: { role: true, memberId: true } },
+      columns: {
+        orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+        select: { id: true, name: true, color: true, position: true },
+      },
+      labels: { orderBy: { name: "asc" }, select: { id: true, name: true, color: true } },
+      tasks: {
+        where: { deletedAt: null },
+        orderBy: [{ columnId: "asc" }, { rank: "asc" }, { id: "asc" }],
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          columnId: true,
+          rank: true,
+          dueDate: true,
+          assigneeId: true,
+          creatorId: true,
+          createdAt: true,
+          archivedAt: true,
+          labels: { select: { labelId: true } },
+          checklist: { orderBy: { position: "asc" }, select: { body: true, done: true } },
+          comments: {
+            orderBy: { createdAt: "asc" },
+            select: { id: true, parentId: true, authorId: true, body: true, createdAt: true },
+          },
+        },
+      },
+    },
+  });
+  if (!project) return null;
+
+  // authors who have since left the project are exported too, so their work keeps a name
+  const roles = new Map(project.members.map((m) => [m.memberId, m.role]));
+  const memberIds = new Set(roles.keys());
+  for (const t of project.tasks) {
+    memberIds.add(t.creatorId);
+    for (const c of t.comments) memberIds.add(c.authorId);
+  }
+  const members = await prisma.member.findMany({
+    where: { id: { in: [...memberIds] } },
+    select: { id: true, displayName: true },
+  });
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { name: project.name },
+    members: members.map((m) => ({ ...m, role: roles.get(m.id) ?? null })),
+    columns: project.columns,
+    labels: project.labels,
+    tasks: project.tasks.map(({ labels, checklist, comments, ...t }) => ({
+      ...t,
+      dueDate: t.dueDate?.toISOString() ?? null,
+      createdAt: t.createdAt.toISOString(),
+      archivedAt: t.archivedAt?.toISOString() ?? null,
+      labelIds: labels.map((l) => l.labelId),
+      checklist,
+      comments: comments.map((c) => ({ ...c, createdAt: c.createdAt.toISOString() })),
+    })),
+  };
+}
+
+/**
+ * Creates a new project from an export, owned by `ownerId`. The importer's own
+ * entry (same id) is mapped to them; every other exported member becomes a new
+ * placeholder member, since nobody else agreed to join the new project.
+ */
+export async function importProject(
+  doc: ProjectExport,
+  ownerId: string,
+  projectName = doc.project.name,
+): Promise<{ projectId: string; summary: ImportSummary }> {
+  const prisma = getPrisma();
+
+  // ids are assigned up front so related rows can be inserted with createMany
+  const memberMap = new Map<string, string>();
+  const placeholders: Array<{ id: string; displayName: string }> = [];
+  for (const m of doc.members) {
+    if (m.id === ownerId) {
+      memberMap.set(m.id, ownerId);
+    } else {
+      const placeholder = { id: randomUUID(), displayName: m.displayName };
+      placeholders.push(placeholder);
+      memberMap.set(m.id, placeholder.id);
+    }
+  }
+  const projectId = randomUUID();
+  const columnMap = new Map(doc.columns.map((c) => [c.id, randomUUID()]));
+  const labelMap = new Map(doc.labels.map((l) => [l.id, randomUUID()]));
+  const taskMap = new Map(doc.tasks.map((t) => [t.id, randomUUID()]));
+
+  // files without ranks keep their array order within each column
+  const fallbackRanks = new Map<string, string>();
+  for (const columnId of columnMap.keys()) {
+    const tasks = doc.tasks.filter((t) => t.columnId === columnId);
+    const ranks = spacedRanks(tasks.length);
+    tasks.forEach((t, i) => fallbackRanks.set(t.id, ranks[i]));
+  }
+
+  const memberships = new Map<string, "OWNER" | "MEMBER">([[ownerId, "OWNER"]]);
+  for (const m of doc.members) {
+    const target = memberMap.get(m.id)!;
+    if (m.role === null || memberships.has(target)) continue;
+    // the importer is the only owner of the new project
+    memberships.set(target, "MEMBER");
+  }
+
+  const comments = doc.tasks.flatMap((t) => {
+    const commentMap = new Map(t.comments.map((c) => [c.id, randomUUID()]));
+    return t.comments.map((c) => ({
+      id: commentMap.get(c.id)!,
+      taskId: taskMap.get(t.id)!,
+      authorId: memberMap.get(c.authorId)!,
+      parentId: c.parentId === null ? null : commentMap.get(c.parentId)!,
+      body: c.body,
+      createdAt: new Date(c.createdAt),
+    }));
+  });
+
+  await prisma.$transaction(
+    async (tx) => {
+      if (placeholders.length > 0) await tx.member.createMany({ data: placeholders });
+      await tx.project.create({
+        data: { id: projectId, name: projectName },
+        select: { id: true },
+      });
+      await tx.projectMember.createMany({
+        data: [...memberships].map(([memberId, role]) => ({ projectId, memberId, role })),
+      });
+      await tx.boardColumn.createMany({
+        data: doc.columns.map((c) => ({
+          id: columnMap.get(c.id)!,
+          projectId,
+          name: c.name,
+          color: c.color,
+          position: c.position,
+        })),
+      });
+      if (doc.labels.length > 0) {
+        await tx.label.createMany({
+          data: doc.labels.map((l) => ({ id: labelMap.get(l.id)!, projectId, name: l.name, color: l.color })),
+        });
+      }
+      if (doc.tasks.length === 0) return;
+      await tx.task.createMany({
+        data: doc.tasks.map((t) => ({
+          id: taskMap.get(t.id)!,
+          projectId,
+          title: t.title,
+          description: t.description,
+          columnId: columnMap.get(t.columnId)!,
+          rank: t.rank ?? fallbackRanks.get(t.id)!,
+          dueDate: t.dueDate ? new Date(t.dueDate) : null,
+          assigneeId: t.assigneeId ? memberMap.get(t.assigneeId)! : null,
+          creatorId: memberMap.get(t.creatorId)!,
+          createdAt: new Date(t.createdAt),
+          archivedAt: t.archivedAt ? new Date(t.archivedAt) : null,
+        })),
+      });
+      const taskLabels = doc.tasks.flatMap((t) =>
+        [...new Set(t.labelIds)].map((labelId) => ({
+          taskId: taskMap.get(t.id)!,
+          labelId: labelMap.get(labelId)!,
+        })),
+      );
+      if (taskLabels.length > 0) await tx.taskLabel.createMany({ data: taskLabels });
+      const checklist = doc.tasks.flatMap((t) =>
+        t.checklist.map((item, position) => ({ taskId: taskMap.get(t.id)!, ...item, position })),
+      );
+      if (checklist.length > 0) await tx.checklistItem.createMany({ data: checklist });
+      // parents first: replies reference them
+      const ordered = [...comments].sort((a, b) => Number(a.parentId !== null) - Number(b.parentId !== null));
+      if (ordered.length > 0) await tx.comment.createMany({ data: ordered });
+    },
+    // large boards are a handful of bulk inserts, but Neon round trips add up
+    { timeout: 60_000 },
+  );
+
+  return {
+    projectId,
+    summary: {
+      columns: doc.columns.length,
+      labels: doc.labels.length,
+      tasks: doc.tasks.length,
+      comments: comments.length,
+      placeholders: placeholders.map((p) => p.displayName),
+    },
+  };
+}
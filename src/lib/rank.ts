@@ -0,0 +1,66 @@
+/**
+ * Fractional ranks for ordering tasks within a column.
+ *
+ * A rank is a base-36 string compared bytewise (the DB column uses
+ * COLLATE "C"), so there is always a key between two neighbours and a move
+ * only rewrites the moved task. Keys never end in "0": that keeps the space
+ * between any two distinct keys non-empty.
+ */
+
+const DIGITS = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+/** Past this length the server respaces the column instead of growing keys further. */
+export const MAX_RANK_LENGTH = 24;
+
+function digit(c: string) {
+  return DIGITS.indexOf(c);
+}
+
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // shared prefix (a is padded with zeros) carries over unchanged
+    let n = 0;
+    while ((a[n] ?? "0") === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+  const digitA = a ? digit(a[0]) : 0;
+  const digitB = b !== null ? digit(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)];
+  // adjacent digits: b's first digit alone is already between them when b is longer
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+// appending is the common case; bumping the first non-"z" digit keeps keys short
+function increment(a: string): string {
+  for (let i = 0; i < a.length; i++) {
+    const d = digit(a[i]);
+    if (d < DIGITS.length - 1) return a.slice(0, i) + DIGITS[d + 1];
+  }
+  return a + midpoint("", null);
+}
+
+/**
+ * A rank strictly between `before` and `after`; null means the top or bottom of
+ * the column. Throws when `before` does not sort before `after` (e.g. two
+ * tasks that ended up with the same rank), which callers resolve by respacing.
+ */
+export function rankBetween(before: string | null, after: string | null): string {
+  if (before !== null && after !== null && before >= after) {
+    throw new RangeError(`rank ${before} does not sort before ${after}`);
+  }
+  if (after === null) return before === null ? midpoint("", null) : increment(before);
+  return midpoint(before ?? "", after);
+}
+
+/** `count` ascending ranks with plenty of room between them (migration 0014 uses the same shape). */
+export function spacedRanks(count: number): string[] {
+  const width = Math.max(6, String(count).length);
+  return Array.from({ length: count }, (_, i) => `${String(i + 1).padStart(width, "0")}1`);
+}
+
+export function compareRanks(a: { rank: string; id: string }, b: { rank: string; id: string }) {
+  if (a.rank !== b.rank) return a.rank < b.rank ? -1 : 1;
+  // equal ranks can come out of concurrent moves; the id keeps the order stable
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
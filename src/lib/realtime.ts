@@ -0,0 +1,53 @@
+import { EventEmitter } from "events";
+import type { ProjectRole } from "@prisma/client";
+import type { InvitePayload } from "@/lib/invite";
+import type { TaskPayload, TaskPosition } from "@/lib/tasks";
+
+export type ColumnPayload = { id: string; name: string; color: string; position: number };
+export type LabelPayload = { id: string; name: string; color: string };
+export type ChecklistSummary = { done: number; total: number };
+export type MemberPayload = { id: string; displayName: string; role: ProjectRole };
+
+export type BoardEvent =
+  | { type: "task.created"; task: TaskPayload }
+  | { type: "task.updated"; task: TaskPayload }
+  | { type: "task.deleted"; taskId: string }
+  | { type: "tasks.archived"; taskIds: string[] }
+  | { type: "board.reordered"; tasks: TaskPosition[] }
+  | { type: "columns.changed"; columns: ColumnPayload[] }
+  | { type: "labels.changed"; labels: LabelPayload[] }
+  | { type: "comments.changed"; taskId: string; commentCount: number }
+  | { type: "checklist.changed"; taskId: string; checklist: ChecklistSummary }
+  | { type: "member.joined"; member: MemberPayload }
+  | { type: "member.updated"; member: MemberPayload }
+  | { type: "member.removed"; memberId: string }
+  | { type: "invite.changed"; invite: InvitePayload | null }
+  | { type: "project.deleted" };
+
+// In-process fan-out: clients connected to another server instance won't see
+// these events, so the board keeps polling as a fallback.
+const globalForRealtime = globalThis as unknown as { boardEvents?: EventEmitter };
+
+function getEmitter(): EventEmitter {
+  if (!globalForRealtime.boardEvents) {
+    const emitter = new EventEmitter();
+    emitter.setMaxListeners(0);
+    globalForRealtime.boardEvents = emitter;
+  }
+  return globalForRealtime.boardEvents;
+}
+
+export function publishBoardEvent(projectId: string, event: BoardEvent) {
+  getEmitter().emit(projectId, event);
+}
+
+export function subscribeBoardEvents(
+  projectId: string,
+  listener: (event: BoardEvent) => void,
+): () => void {
+  const emitter = getEmitter();
+  emitter.on(projectId, listener);
+  return () => {
+    emitter.off(projectId, listener);
+  };
+}
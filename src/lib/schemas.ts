@@ -0,0 +1,1123 @@
+import { z } from "zod";
+
+/**
+ * Request and response shapes of the board API. The route handlers validate
+ * bodies with these schemas, the browser and `apiClient.ts` take their types
+ * from them, and `openapi.ts` turns everything registered in `apiSchemas`
+ * into the components of `/api/openapi.json`.
+ *
+ * This module must stay free of server-only imports (Prisma, next/server) so
+ * client components can use it.
+ */
+export const apiSchemas = z.registry<{ id: string; description?: string }>();
+
+const HexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+const Timestamp = z.iso.datetime();
+
+// ---- requests ----
+
+export const CreateProjectSchema = z
+  .object({
+    projectName: z.string().trim().min(1).max(80),
+    // ignored when the caller already has a session
+    displayName: z.string().trim().min(1).max(40).optional(),
+  })
+  .register(apiSchemas, { id: "CreateProjectBody" });
+
+export const JoinProjectSchema = z
+  .object({
+    inviteCode: z.string().trim().min(4).max(32).transform((s) => s.toUpperCase()),
+    // ignored when the caller already has a session
+    displayName: z.string().trim().min(1).max(40).optional(),
+  })
+  .register(apiSchemas, { id: "JoinProjectBody" });
+
+export const ImportProjectSchema = z
+  .object({
+    // validated separately so its errors can point into the file
+    document: z.unknown(),
+    // defaults to the exported project's name
+    projectName: z.string().trim().min(1).max(80).optional(),
+    // ignored when the caller already has a session
+    displayName: z.string().trim().min(1).max(40).optional(),
+  })
+  .register(apiSchemas, {
+    id: "ImportProjectBody",
+    description: "`document` is a file from `GET /api/projects/{projectId}/export`.",
+  });
+
+export const ImportTrelloSchema = z
+  .object({
+    // the board JSON as downloaded from Trello; validated separately so its errors can point into the file
+    board: z.unknown(),
+    // defaults to the Trello board's name
+    projectName: z.string().trim().min(1).max(80).optional(),
+    // ignored when the caller already has a session
+    displayName: z.string().trim().min(1).max(40).optional(),
+  })
+  .register(apiSchemas, { id: "ImportTrelloBody" });
+
+export const BoardQuerySchema = z.object({
+  since: z.coerce.number().int().min(0).optional(),
+});
+
+/** Body of `POST /api/projects/[projectId]/tasks`; the CSV import checks each row against it too. */
+export const CreateTaskSchema = z
+  .object({
+    title: z.string().trim().min(1).max(120),
+    description: z.string().trim().max(2000).optional().nullable(),
+    // defaults to the project's first column
+    columnId: z.string().min(1).optional(),
+    dueDate: z.string().datetime().optional().nullable(),
+    assigneeId: z.string().min(1).optional().nullable(),
+    labelIds: z.array(z.string().min(1)).max(20).optional(),
+  })
+  .register(apiSchemas, { id: "CreateTaskBody" });
+
+export const PatchTaskSchema = z
+  .object({
+    // the version the client last saw; stale writes are rejected with 409
+    version: z.number().int().min(0),
+    title: z.string().trim().min(1).max(120).optional(),
+    description: z.string().trim().max(2000).nullable().optional(),
+    // moves the task to the bottom of that column; use POST .../move to pick a slot
+    columnId: z.string().min(1).optional(),
+    dueDate: z.string().datetime().nullable().optional(),
+    assigneeId: z.string().min(1).nullable().optional(),
+    // replaces the task's whole label set
+    labelIds: z.array(z.string().min(1)).max(20).optional(),
+  })
+  .strict()
+  .refine((o) => Object.keys(o).some((k) => k !== "version"), { message: "EMPTY_BODY" })
+  .register(apiSchemas, {
+    id: "PatchTaskBody",
+    description: "Only the fields being changed, plus the version they were based on.",
+  });
+
+export const MoveTaskSchema = z
+  .object({
+    // the version the client last saw; a move based on a stale card is rejected with 409
+    version: z.number().int().min(0),
+    columnId: z.string().min(1),
+    // the card the task should land directly below; null for the top of the column
+    afterId: z.string().min(1).nullable(),
+  })
+  .strict()
+  .register(apiSchemas, { id: "MoveTaskBody" });
+
+export const BulkActionSchema = z
+  .discriminatedUnion("type", [
+    // moved cards go to the bottom of the column, keeping their relative order
+    z.object({ type: z.literal("move"), columnId: z.string().min(1) }).strict(),
+    z.object({ type: z.literal("assign"), assigneeId: z.string().min(1).nullable() }).strict(),
+    z.object({ type: z.literal("dueDate"), dueDate: z.string().datetime().nullable() }).strict(),
+    z
+      .object({
+        type: z.literal("labels"),
+        add: z.array(z.string().min(1)).max(20).default([]),
+        remove: z.array(z.string().min(1)).max(20).default([]),
+      })
+      .strict(),
+    // same as DELETE /api/tasks/[taskId]: the cards go to the trash
+    z.object({ type: z.literal("delete") }).strict(),
+  ])
+  .register(apiSchemas, { id: "BulkAction" });
+
+export const BulkTaskSchema = z
+  .object({
+    // each task with the version the client last saw; one stale task fails the whole batch
+    tasks: z
+      .array(z.object({ id: z.string().min(1), version: z.number().int().min(0) }).strict())
+      .min(1)
+      .max(500),
+    action: BulkActionSchema,
+  })
+  .strict()
+  .register(apiSchemas, { id: "BulkTaskBody" });
+
+export const ArchiveTasksSchema = z
+  .union([
+    z.object({ taskIds: z.array(z.string().min(1)).min(1).max(500) }).strict(),
+    z
+      .object({
+        columnId: z.string().min(1),
+        olderThanDays: z.number().int().min(0).max(3650),
+      })
+      .strict(),
+  ])
+  .register(apiSchemas, {
+    id: "ArchiveTasksBody",
+    description: "Either the tasks to archive, or every task in a column untouched for `olderThanDays`.",
+  });
+
+export const CreateLabelSchema = z
+  .object({
+    name: z.string().trim().min(1).max(30),
+    color: HexColor.optional(),
+  })
+  .register(apiSchemas, { id: "CreateLabelBody" });
+
+export const PatchLabelSchema = z
+  .object({
+    name: z.string().trim().min(1).max(30).optional(),
+    color: HexColor.optional(),
+  })
+  .strict()
+  .refine((o) => Object.keys(o).length > 0, { message: "EMPTY_BODY" })
+  .register(apiSchemas, { id: "PatchLabelBody" });
+
+export const CreateColumnSchema = z
+  .object({
+    name: z.string().trim().min(1).max(40),
+    color: HexColor.optional(),
+  })
+  .register(apiSchemas, { id: "CreateColumnBody" });
+
+export const PatchColumnSchema = z
+  .object({
+    name: z.string().trim().min(1).max(40).optional(),
+    color: HexColor.optional(),
+  })
+  .strict()
+  .refine((o) => Object.keys(o).length > 0, { message: "EMPTY_BODY" })
+  .register(apiSchemas, { id: "PatchColumnBody" });
+
+export const ReorderColumnsSchema = z
+  .object({
+    columnIds: z.array(z.string().min(1)).min(1).max(50),
+  })
+  .register(apiSchemas, {
+    id: "ReorderColumnsBody",
+    description: "Every column of the project, in the new order.",
+  });
+
+export const RoleSchema = z.enum(["OWNER", "MEMBER"]).register(apiSchemas, { id: "Role" });
+
+export const PatchMemberSchema = z
+  .object({
+    role: RoleSchema,
+  })
+  .strict()
+  .register(apiSchemas, { id: "PatchMemberBody" });
+
+export const CreateInviteSchema = z
+  .object({
+    expiresInHours: z
+      .number()
+      .int()
+      .min(1)
+      .max(24 * 90)
+      .nullable()
+      .optional(),
+    maxUses: z.number().int().min(1).max(1000).nullable().optional(),
+    // rotate: every other open code stops working
+    revokeExisting: z.boolean().optional(),
+  })
+  .register(apiSchemas, { id: "CreateInviteBody", description: "Omit a limit (or send null) for none." });
+
+export const CreateCommentSchema = z
+  .object({
+    body: z.string().trim().min(1).max(2000),
+    // replies go one level deep: the parent must be a top-level comment of the same task
+    parentId: z.string().min(1).optional().nullable(),
+  })
+  .register(apiSchemas, { id: "CreateCommentBody" });
+
+export const PatchCommentSchema = z
+  .object({
+    body: z.string().trim().min(1).max(2000),
+  })
+  .strict()
+  .register(apiSchemas, { id: "PatchCommentBody" });
+
+export const CreateChecklistItemSchema = z
+  .object({
+    body: z.string().trim().min(1).max(200),
+  })
+  .register(apiSchemas, { id: "CreateChecklistItemBody" });
+
+export const PatchChecklistItemSchema = z
+  .object({
+    body: z.string().trim().min(1).max(200).optional(),
+    done: z.boolean().optional(),
+  })
+  .strict()
+  .refine((o) => Object.keys(o).length > 0, { message: "EMPTY_BODY" })
+  .register(apiSchemas, { id: "PatchChecklistItemBody" });
+
+export const ReorderChecklistSchema = z
+  .object({
+    itemIds: z.array(z.string().min(1)).max(200),
+  })
+  .register(apiSchemas, {
+    id: "ReorderChecklistBody",
+    description: "Every item of the checklist, in the new order.",
+  });
+
+// cells as mapped by the import dialog; a field the user left unmapped is absent
+export const CsvRowSchema = z
+  .object({
+    title: z.string(),
+    description: z.string(),
+    status: z.string(),
+    dueDate: z.string(),
+    assignee: z.string(),
+  })
+  .partial()
+  .strict();
+
+export const CsvImportSchema = z
+  .object({
+    rows: z.array(CsvRowSchema).min(1).max(2000),
+    // validate and report errors without creating anything (the preview step)
+    dryRun: z.boolean().default(false),
+  })
+  .register(apiSchemas, {
+    id: "CsvImportBody",
+    description:
+      "Spreadsheet rows already split into cells. `status` is a column name and `assignee` a display name; " +
+      "`dueDate` may be `2025-03-01`, `2025/3/1` or an ISO timestamp.",
+  });
+
+export const CreateApiTokenSchema = z
+  .object({
+    name: z.string().trim().min(1).max(60),
+    // GET requests only
+    readOnly: z.boolean().default(false),
+  })
+  .register(apiSchemas, { id: "CreateApiTokenBody" });
+
+export const CreateCalendarFeedSchema = z
+  .object({
+    // only this member's tasks; null for the whole project
+    assigneeId: z.string().min(1).nullable(),
+  })
+  .register(apiSchemas, { id: "CreateCalendarFeedBody" });
+
+export const WEBHOOK_EVENTS = [
+  "task.created",
+  "task.updated",
+  "task.moved",
+  "task.deleted",
+  "member.joined",
+] as const;
+
+const WebhookEventSchema = z.enum(WEBHOOK_EVENTS);
+
+export const CreateWebhookSchema = z
+  .object({
+    // plain http is allowed for receivers reachable by name; loopback and private addresses are refused
+    url: z.url({ protocol: /^https?$/ }).max(2000),
+    events: z.array(WebhookEventSchema).min(1),
+    // generated when omitted
+    secret: z.string().min(16).max(200).optional(),
+  })
+  .register(apiSchemas, { id: "CreateWebhookBody" });
+
+export const PatchWebhookSchema = z
+  .object({
+    url: z.url({ protocol: /^https?$/ }).max(2000).optional(),
+    events: z.array(WebhookEventSchema).min(1).optional(),
+    // paused webhooks queue nothing; deliveries already pending wait until it is resumed
+    active: z.boolean().optional(),
+    // replaces the secret with a new generated one, returned in this response only
+    rotateSecret: z.boolean().optional(),
+  })
+  .register(apiSchemas, { id: "PatchWebhookBody" });
+
+export const ActivityQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  taskId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+export const ArchiveQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// ---- export document ----
+
+/**
+ * The JSON document behind `GET /api/projects/[projectId]/export` and
+ * `POST /api/projects/import`. Ids inside a document only link its parts
+ * together; importing always creates fresh rows. Bump EXPORT_VERSION (and keep
+ * reading the old shape) whenever a field changes meaning.
+ */
+export const EXPORT_FORMAT = "simple-trello/project";
+export const EXPORT_VERSION = 1;
+
+const ExportId = z.string().min(1).max(100);
+
+const ExportMemberSchema = z
+  .object({
+    id: ExportId,
+    displayName: z.string().trim().min(1).max(40),
+    // null: no longer in the project, but still the author of tasks or comments
+    role: z.enum(["OWNER", "MEMBER"]).nullable(),
+  })
+  .strict();
+
+const ExportColumnSchema = z
+  .object({
+    id: ExportId,
+    name: z.string().trim().min(1).max(40),
+    color: HexColor,
+    position: z.number().int().min(0),
+  })
+  .strict();
+
+const ExportLabelSchema = z
+  .object({ id: ExportId, name: z.string().trim().min(1).max(30), color: HexColor })
+  .strict();
+
+const ExportCommentSchema = z
+  .object({
+    id: ExportId,
+    // replies point at a top-level comment of the same task
+    parentId: ExportId.nullable(),
+    authorId: ExportId,
+    body: z.string().trim().min(1).max(2000),
+    createdAt: Timestamp,
+  })
+  .strict();
+
+const ExportChecklistItemSchema = z
+  .object({ body: z.string().trim().min(1).max(200), done: z.boolean() })
+  .strict();
+
+const ExportTaskSchema = z
+  .object({
+    id: ExportId,
+    title: z.string().trim().min(1).max(120),
+    description: z.string().trim().max(2000).nullable(),
+    columnId: ExportId,
+    // optional so hand-written files can rely on array order instead
+    rank: z.string().regex(/^[0-9a-z]*[1-9a-z]$/).max(64).optional(),
+    dueDate: Timestamp.nullable(),
+    assigneeId: ExportId.nullable(),
+    creatorId: ExportId,
+    createdAt: Timestamp,
+    archivedAt: Timestamp.nullable(),
+    labelIds: z.array(ExportId).max(20),
+    checklist: z.array(ExportChecklistItemSchema).max(200),
+    comments: z.array(ExportCommentSchema).max(1000),
+  })
+  .strict();
+
+function duplicateIds(items: Array<{ id: string }>) {
+  const seen = new Set<string>();
+  return items.flatMap((item, i) => {
+    if (!seen.has(item.id)) {
+      seen.add(item.id);
+      return [];
+    }
+    return [i];
+  });
+}
+
+export const ProjectExportSchema = z
+  .object({
+    format: z.literal(EXPORT_FORMAT, { error: `format must be "${EXPORT_FORMAT}"` }),
+    version: z.literal(EXPORT_VERSION, {
+      error: `unsupported version; this server reads version ${EXPORT_VERSION}`,
+    }),
+    exportedAt: Timestamp,
+    project: z.object({ name: z.string().trim().min(1).max(80) }).strict(),
+    members: z.array(ExportMemberSchema).max(500),
+    columns: z.array(ExportColumnSchema).min(1).max(50),
+    labels: z.array(ExportLabelSchema).max(200),
+    tasks: z.array(ExportTaskSchema).max(5000),
+  })
+  .strict()
+  // cross references are checked here so each problem is reported at its own path
+  .superRefine((doc, ctx) => {
+    const issue = (path: (string | number)[], message: string) =>
+      ctx.addIssue({ code: "custom", path, message });
+
+    for (const key of ["members", "columns", "labels", "tasks"] as const) {
+      for (const i of duplicateIds(doc[key])) issue([key, i, "id"], "duplicate id");
+    }
+    const labelNames = new Set<string>();
+    doc.labels.forEach((l, i) => {
+      if (labelNames.has(l.name)) issue(["labels", i, "name"], "duplicate label name");
+      labelNames.add(l.name);
+    });
+
+    const members = new Map(doc.members.map((m) => [m.id, m]));
+    const columnIds = new Set(doc.columns.map((c) => c.id));
+    const labelIds = new Set(doc.labels.map((l) => l.id));
+    doc.tasks.forEach((t, i) => {
+      if (!columnIds.has(t.columnId)) issue(["tasks", i, "columnId"], "unknown column");
+      if (!members.has(t.creatorId)) issue(["tasks", i, "creatorId"], "unknown member");
+      if (t.assigneeId !== null) {
+        const assignee = members.get(t.assigneeId);
+        if (!assignee) issue(["tasks", i, "assigneeId"], "unknown member");
+        else if (assignee.role === null) issue(["tasks", i, "assigneeId"], "assignee is not in the project");
+      }
+      t.labelIds.forEach((labelId, j) => {
+        if (!labelIds.has(labelId)) issue(["tasks", i, "labelIds", j], "unknown label");
+      });
+      const topLevel = new Set(t.comments.filter((c) => c.parentId === null).map((c) => c.id));
+      for (const j of duplicateIds(t.comments)) issue(["tasks", i, "comments", j, "id"], "duplicate id");
+      t.comments.forEach((c, j) => {
+        if (!members.has(c.authorId)) issue(["tasks", i, "comments", j, "authorId"], "unknown member");
+        if (c.parentId !== null && !topLevel.has(c.parentId)) {
+          issue(["tasks", i, "comments", j, "parentId"], "must be a top-level comment of the same task");
+        }
+      });
+    });
+  })
+  .register(apiSchemas, {
+    id: "ProjectExport",
+    description: "A whole project as one document, readable by `POST /api/projects/import`.",
+  });
+
+// ---- responses ----
+
+export const MemberSchema = z
+  .object({ id: z.string(), displayName: z.string(), role: RoleSchema })
+  .register(apiSchemas, { id: "Member" });
+
+const IdentitySchema = z.object({ id: z.string(), displayName: z.string() });
+
+export const ColumnSchema = z
+  .object({ id: z.string(), name: z.string(), color: z.string(), position: z.number().int() })
+  .register(apiSchemas, { id: "Column" });
+
+export const LabelSchema = z
+  .object({ id: z.string(), name: z.string(), color: z.string() })
+  .register(apiSchemas, { id: "Label" });
+
+export const TaskSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string().nullable(),
+    columnId: z.string(),
+    // opaque sort key within the column
+    rank: z.string(),
+    // bumped by every write; send it back with PATCH/DELETE
+    version: z.number().int(),
+    dueDate: Timestamp.nullable(),
+    assigneeId: z.string().nullable(),
+    creatorId: z.string(),
+    createdAt: Timestamp,
+    updatedAt: Timestamp,
+    labelIds: z.array(z.string()),
+  })
+  .register(apiSchemas, { id: "Task" });
+
+export const ChecklistSummarySchema = z.object({
+  done: z.number().int(),
+  total: z.number().int(),
+});
+
+export const BoardTaskSchema = TaskSchema.extend({
+  commentCount: z.number().int(),
+  checklist: ChecklistSummarySchema,
+}).register(apiSchemas, {
+  id: "BoardTask",
+  description: "A task as the board lists it, with comment count and checklist progress.",
+});
+
+export const TaskPositionSchema = z
+  .object({ id: z.string(), columnId: z.string(), rank: z.string(), version: z.number().int() })
+  .register(apiSchemas, {
+    id: "TaskPosition",
+    description: "Where a task now sits; sibling tasks a write had to respace.",
+  });
+
+export const InviteSchema = z
+  .object({
+    id: z.string(),
+    code: z.string(),
+    expiresAt: Timestamp.nullable(),
+    maxUses: z.number().int().nullable(),
+    useCount: z.number().int(),
+    revokedAt: Timestamp.nullable(),
+    createdAt: Timestamp,
+    status: z.enum(["ACTIVE", "REVOKED", "EXPIRED", "EXHAUSTED"]),
+  })
+  .register(apiSchemas, { id: "Invite" });
+
+export const BoardResponseSchema = z
+  .object({
+    // false when the request carried `since` and only changes are included
+    full: z.boolean(),
+    // pass back as `since` to fetch only what changed
+    cursor: z.string(),
+    deletedTaskIds: z.array(z.string()),
+    project: z.object({ id: z.string(), name: z.string(), updatedAt: Timestamp }),
+    me: z.object({ memberId: z.string() }),
+    members: z.array(MemberSchema),
+    // newest usable invite; null once every code is revoked, expired or used up
+    invite: InviteSchema.nullable(),
+    columns: z.array(ColumnSchema),
+    labels: z.array(LabelSchema),
+    tasks: z.array(BoardTaskSchema),
+  })
+  .register(apiSchemas, { id: "BoardResponse" });
+
+export const MyProjectsResponseSchema = z
+  .object({
+    me: IdentitySchema,
+    projects: z.array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        role: RoleSchema,
+        updatedAt: Timestamp,
+        joinedAt: Timestamp,
+        taskCount: z.number().int(),
+        memberCount: z.number().int(),
+      }),
+    ),
+  })
+  .register(apiSchemas, { id: "MyProjectsResponse" });
+
+const JoinedProjectSchema = z.object({ id: z.string(), name: z.string(), inviteCode: z.string() });
+
+export const ProjectSessionResponseSchema = z
+  .object({ project: JoinedProjectSchema, member: IdentitySchema })
+  .register(apiSchemas, {
+    id: "ProjectSessionResponse",
+    description: "Also sets the session cookie when the caller was signed out.",
+  });
+
+export const ImportSummarySchema = z.object({
+  columns: z.number().int(),
+  labels: z.number().int(),
+  tasks: z.number().int(),
+  comments: z.number().int(),
+  // exported members this server doesn't know; they appear under their old names but can't sign in
+  placeholders: z.array(z.string()),
+});
+
+export const ImportProjectResponseSchema = z
+  .object({ project: JoinedProjectSchema, member: IdentitySchema, summary: ImportSummarySchema })
+  .register(apiSchemas, { id: "ImportProjectResponse" });
+
+export const ImportTrelloResponseSchema = z
+  .object({
+    project: JoinedProjectSchema,
+    member: IdentitySchema,
+    summary: ImportSummarySchema.extend({
+      // what couldn't be carried over, e.g. ATTACHMENTS or MULTIPLE_ASSIGNEES
+      unmapped: z.array(z.object({ code: z.string(), count: z.number().int() })),
+    }),
+  })
+  .register(apiSchemas, { id: "ImportTrelloResponse" });
+
+export const TaskResponseSchema = z
+  .object({ task: TaskSchema })
+  .register(apiSchemas, { id: "TaskResponse" });
+
+export const TaskWriteResponseSchema = z
+  .object({ task: TaskSchema, rebalanced: z.array(TaskPositionSchema) })
+  .register(apiSchemas, { id: "TaskWriteResponse" });
+
+export const BulkTaskResponseSchema = z
+  .object({
+    // absent for `delete`
+    tasks: z.array(TaskSchema).optional(),
+    rebalanced: z.array(TaskPositionSchema).optional(),
+    // only for `delete`
+    deleted: z.array(z.string()).optional(),
+  })
+  .register(apiSchemas, { id: "BulkTaskResponse" });
+
+export const ArchiveResponseSchema = z
+  .object({ archived: z.array(z.string()) })
+  .register(apiSchemas, { id: "ArchiveResponse" });
+
+export const LabelResponseSchema = z
+  .object({ label: LabelSchema })
+  .register(apiSchemas, { id: "LabelResponse" });
+
+export const ColumnResponseSchema = z
+  .object({ column: ColumnSchema })
+  .register(apiSchemas, { id: "ColumnResponse" });
+
+export const ColumnsResponseSchema = z
+  .object({ columns: z.array(ColumnSchema) })
+  .register(apiSchemas, { id: "ColumnsResponse" });
+
+export const MemberResponseSchema = z
+  .object({ member: MemberSchema })
+  .register(apiSchemas, { id: "MemberResponse" });
+
+export const OkResponseSchema = z
+  .object({ ok: z.literal(true) })
+  .register(apiSchemas, { id: "OkResponse" });
+
+export const DeleteColumnResponseSchema = OkResponseSchema.extend({
+  // tasks carried over to `moveTo`; absent when the column was already gone
+  moved: z.array(TaskPositionSchema).optional(),
+}).register(apiSchemas, { id: "DeleteColumnResponse" });
+
+export const RemoveMemberResponseSchema = OkResponseSchema.extend({
+  // tasks that were assigned to the removed member
+  unassigned: z.array(z.string()),
+}).register(apiSchemas, { id: "RemoveMemberResponse" });
+
+export const CommentSchema = z
+  .object({
+    id: z.string(),
+    parentId: z.string().nullable(),
+    body: z.string(),
+    createdAt: Timestamp,
+    updatedAt: Timestamp,
+    author: IdentitySchema,
+  })
+  .register(apiSchemas, { id: "Comment" });
+
+export const CommentsResponseSchema = z
+  .object({ comments: z.array(CommentSchema) })
+  .register(apiSchemas, { id: "CommentsResponse", description: "Oldest first; replies point at `parentId`." });
+
+export const CommentResponseSchema = z
+  .object({ comment: CommentSchema })
+  .register(apiSchemas, { id: "CommentResponse" });
+
+export const ChecklistItemSchema = z
+  .object({ id: z.string(), body: z.string(), done: z.boolean(), position: z.number().int() })
+  .register(apiSchemas, { id: "ChecklistItem" });
+
+export const ChecklistResponseSchema = z
+  .object({ items: z.array(ChecklistItemSchema) })
+  .register(apiSchemas, { id: "ChecklistResponse" });
+
+// every checklist write answers with the card's new progress
+export const ChecklistItemResponseSchema = z
+  .object({ item: ChecklistItemSchema, checklist: ChecklistSummarySchema })
+  .register(apiSchemas, { id: "ChecklistItemResponse" });
+
+export const ChecklistReorderResponseSchema = z
+  .object({ items: z.array(ChecklistItemSchema), checklist: ChecklistSummarySchema })
+  .register(apiSchemas, { id: "ChecklistReorderResponse" });
+
+export const ChecklistDeleteResponseSchema = OkResponseSchema.extend({
+  checklist: ChecklistSummarySchema,
+}).register(apiSchemas, { id: "ChecklistDeleteResponse" });
+
+export const ActivityItemSchema = z
+  .object({
+    id: z.string(),
+    // e.g. task.moved or comment.created
+    action: z.string(),
+    taskId: z.string().nullable(),
+    // kept so entries stay readable after the task is gone
+    taskTitle: z.string().nullable(),
+    // the changed fields, as they were and as they became
+    before: z.record(z.string(), z.unknown()).nullable(),
+    after: z.record(z.string(), z.unknown()).nullable(),
+    createdAt: Timestamp,
+    // null once the member's account is gone
+    actor: IdentitySchema.nullable(),
+  })
+  .register(apiSchemas, { id: "ActivityItem" });
+
+export const ActivityPageSchema = z
+  .object({
+    items: z.array(ActivityItemSchema),
+    // pass back as `cursor` for older entries; null on the last page
+    nextCursor: z.string().nullable(),
+  })
+  .register(apiSchemas, { id: "ActivityPage", description: "Newest first." });
+
+export const SearchSegmentSchema = z.object({ text: z.string(), hit: z.boolean() });
+
+export const SearchResultSchema = z
+  .object({
+    taskId: z.string(),
+    // where the best hit was: the card itself or one of its comments
+    source: z.enum(["task", "comment"]),
+    rank: z.number(),
+    // text split into matched and unmatched runs, so clients never render HTML
+    title: z.array(SearchSegmentSchema),
+    snippet: z.array(SearchSegmentSchema),
+  })
+  .register(apiSchemas, { id: "SearchResult" });
+
+export const SearchResponseSchema = z
+  .object({ results: z.array(SearchResultSchema) })
+  .register(apiSchemas, { id: "SearchResponse", description: "Best match first, one result per task." });
+
+export const InvitesResponseSchema = z
+  .object({ invites: z.array(InviteSchema) })
+  .register(apiSchemas, { id: "InvitesResponse", description: "Newest first, at most 50." });
+
+export const InviteResponseSchema = z
+  .object({ invite: InviteSchema })
+  .register(apiSchemas, { id: "InviteResponse" });
+
+export const MembersResponseSchema = z
+  .object({ members: z.array(MemberSchema.extend({ joinedAt: Timestamp })) })
+  .register(apiSchemas, { id: "MembersResponse" });
+
+export const TrashedTaskSchema = TaskSchema.extend({
+  deletedAt: Timestamp,
+  deletedBy: IdentitySchema.nullable(),
+  // when the task is purged for good
+  purgeAt: Timestamp,
+}).register(apiSchemas, { id: "TrashedTask" });
+
+export const TrashResponseSchema = z
+  .object({ retentionDays: z.number(), tasks: z.array(TrashedTaskSchema) })
+  .register(apiSchemas, { id: "TrashResponse", description: "Most recently deleted first." });
+
+export const ArchivedTaskSchema = TaskSchema.extend({
+  columnName: z.string(),
+  archivedAt: Timestamp,
+  archivedBy: IdentitySchema.nullable(),
+}).register(apiSchemas, { id: "ArchivedTask" });
+
+export const ArchivePageSchema = z
+  .object({
+    items: z.array(ArchivedTaskSchema),
+    // pass back as `cursor` for the next page; null on the last one
+    nextCursor: z.string().nullable(),
+  })
+  .register(apiSchemas, { id: "ArchivePage", description: "Most recently archived first." });
+
+export const BoardTaskResponseSchema = z
+  .object({ task: BoardTaskSchema })
+  .register(apiSchemas, { id: "BoardTaskResponse" });
+
+export const LabelsResponseSchema = z
+  .object({ labels: z.array(LabelSchema) })
+  .register(apiSchemas, { id: "LabelsResponse" });
+
+export const CSV_ROW_ERRORS = [
+  "REQUIRED",
+  "TOO_LONG",
+  "INVALID",
+  "UNKNOWN_STATUS",
+  "INVALID_DATE",
+  "UNKNOWN_ASSIGNEE",
+  "AMBIGUOUS_ASSIGNEE",
+] as const;
+
+export const CsvImportResponseSchema = z
+  .object({
+    // 0 for a dry run
+    created: z.number().int(),
+    // rows without errors; with `dryRun` these are the ones that would be created
+    valid: z.number().int(),
+    errors: z.array(
+      z.object({
+        // 0-based index into `rows`
+        row: z.number().int(),
+        field: z.enum(["title", "description", "status", "dueDate", "assignee"]),
+        error: z.enum(CSV_ROW_ERRORS),
+      }),
+    ),
+  })
+  .register(apiSchemas, {
+    id: "CsvImportResponse",
+    description: "Rows with errors are skipped; the others are created together.",
+  });
+
+export const ApiTokenSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    readOnly: z.boolean(),
+    lastUsedAt: Timestamp.nullable(),
+    createdAt: Timestamp,
+  })
+  .register(apiSchemas, { id: "ApiToken" });
+
+export const ApiTokensResponseSchema = z
+  .object({ tokens: z.array(ApiTokenSchema) })
+  .register(apiSchemas, { id: "ApiTokensResponse" });
+
+export const CreateApiTokenResponseSchema = z
+  .object({
+    apiToken: ApiTokenSchema,
+    // `st_pat_...`; only in this response, the server keeps a hash
+    token: z.string(),
+  })
+  .register(apiSchemas, { id: "CreateApiTokenResponse" });
+
+export const CalendarFeedSchema = z
+  .object({
+    id: z.string(),
+    // null: every task of the project
+    assigneeId: z.string().nullable(),
+    assignee: z.object({ displayName: z.string() }).nullable(),
+    lastUsedAt: Timestamp.nullable(),
+    createdAt: Timestamp,
+  })
+  .register(apiSchemas, { id: "CalendarFeed" });
+
+export const CalendarFeedsResponseSchema = z
+  .object({ feeds: z.array(CalendarFeedSchema) })
+  .register(apiSchemas, { id: "CalendarFeedsResponse" });
+
+export const CreateCalendarFeedResponseSchema = z
+  .object({
+    feed: CalendarFeedSchema,
+    // only in this response; subscribe to `/api/calendar/<token>.ics`
+    token: z.string(),
+  })
+  .register(apiSchemas, { id: "CreateCalendarFeedResponse" });
+
+const DeliveryStatusSchema = z.enum(["PENDING", "SUCCEEDED", "FAILED"]);
+
+export const WebhookSchema = z
+  .object({
+    id: z.string(),
+    url: z.string(),
+    events: z.array(WebhookEventSchema),
+    active: z.boolean(),
+    createdAt: Timestamp,
+    // the secret's last characters, to tell webhooks apart
+    secretHint: z.string(),
+    lastDelivery: z.object({ status: DeliveryStatusSchema, createdAt: Timestamp }).nullable(),
+  })
+  .register(apiSchemas, { id: "Webhook" });
+
+export const WebhooksResponseSchema = z
+  .object({ webhooks: z.array(WebhookSchema), events: z.array(WebhookEventSchema) })
+  .register(apiSchemas, { id: "WebhooksResponse", description: "`events` lists what can be subscribed to." });
+
+export const CreateWebhookResponseSchema = z
+  .object({
+    webhook: WebhookSchema,
+    // the given or generated secret; not shown again
+    secret: z.string(),
+  })
+  .register(apiSchemas, { id: "CreateWebhookResponse" });
+
+export const WebhookResponseSchema = z
+  .object({
+    webhook: WebhookSchema,
+    // only with `rotateSecret`: the new secret, not shown again
+    secret: z.string().optional(),
+  })
+  .register(apiSchemas, { id: "WebhookResponse" });
+
+export const WebhookDeliverySchema = z
+  .object({
+    id: z.string(),
+    event: z.string(),
+    // exactly the JSON body that was (or will be) sent
+    payload: z.unknown(),
+    status: DeliveryStatusSchema,
+    attempts: z.number().int(),
+    nextAttemptAt: Timestamp.nullable(),
+    responseStatus: z.number().int().nullable(),
+    error: z.string().nullable(),
+    createdAt: Timestamp,
+    updatedAt: Timestamp,
+  })
+  .register(apiSchemas, { id: "WebhookDelivery" });
+
+export const WebhookDeliveriesResponseSchema = z
+  .object({ deliveries: z.array(WebhookDeliverySchema), maxAttempts: z.number().int() })
+  .register(apiSchemas, { id: "WebhookDeliveriesResponse", description: "Newest first, at most 50." });
+
+export const DeliveryQueuedResponseSchema = z
+  .object({ deliveryId: z.string() })
+  .register(apiSchemas, {
+    id: "DeliveryQueuedResponse",
+    description: "The delivery is sent in the background; its outcome appears in the delivery log.",
+  });
+
+export const SweepResponseSchema = z
+  .object({ attempted: z.number().int() })
+  .register(apiSchemas, { id: "SweepResponse" });
+
+// ---- errors ----
+
+/**
+ * Every error code the documented routes answer with, and its usual status.
+ * Clients should branch on `error`, never on the message text.
+ */
+export const ERROR_CODES = {
+  UNAUTHENTICATED: { status: 401, description: "No valid session cookie, session token or API token." },
+  FORBIDDEN: { status: 403, description: "The caller is not a member of the project." },
+  OWNER_ONLY: { status: 403, description: "Only project owners may do this." },
+  TOKEN_SCOPE: { status: 403, description: "The API token belongs to another project." },
+  READ_ONLY_TOKEN: { status: 403, description: "The API token is read-only." },
+  INVALID_BODY: { status: 400, description: "The JSON body failed validation; see `details`." },
+  INVALID_QUERY: { status: 400, description: "The query string failed validation; see `details`." },
+  INVALID_VERSION: { status: 400, description: "`version` is missing or not a non-negative integer." },
+  DISPLAY_NAME_REQUIRED: { status: 400, description: "Signed-out callers must send `displayName`." },
+  INVALID_EXPORT: { status: 400, description: "The export document is invalid; see `issues`." },
+  INVALID_TRELLO_EXPORT: { status: 400, description: "The Trello board can't be imported; see `issues`." },
+  INVITE_NOT_FOUND: { status: 404, description: "No invite has this code." },
+  INVITE_REVOKED: { status: 410, description: "The invite was revoked." },
+  INVITE_EXPIRED: { status: 410, description: "The invite has expired." },
+  INVITE_EXHAUSTED: { status: 410, description: "The invite has been used up." },
+  INVITE_CODE_GENERATION_FAILED: { status: 500, description: "No free invite code was found; retry." },
+  PROJECT_NOT_FOUND: { status: 404, description: "The project does not exist." },
+  TASK_NOT_FOUND: { status: 404, description: "The task does not exist or is not on the board." },
+  TASK_NOT_IN_TRASH: { status: 409, description: "The task is not in the trash (anymore)." },
+  VERSION_CONFLICT: {
+    status: 409,
+    description: "Someone else changed the task first; `task` holds the current version.",
+  },
+  COLUMN_NOT_IN_PROJECT: { status: 400, description: "`columnId` is not a column of this project." },
+  ASSIGNEE_NOT_IN_PROJECT: { status: 400, description: "`assigneeId` is not a member of this project." },
+  LABEL_NOT_IN_PROJECT: { status: 400, description: "A label id is not a label of this project." },
+  AFTER_NOT_IN_COLUMN: {
+    status: 409,
+    description: "`afterId` is not in the target column (400 when it is the task itself).",
+  },
+  TASKS_NOT_IN_PROJECT: { status: 400, description: "Some `tasks` are not on this project's board." },
+  TASKS_CHANGED: {
+    status: 409,
+    description: "A selected task changed or left the board meanwhile; `tasks` holds the changed ones as they are now.",
+  },
+  LABEL_NOT_FOUND: { status: 404, description: "The label does not exist." },
+  LABEL_NAME_TAKEN: { status: 409, description: "The project already has a label with this name." },
+  COLUMN_NOT_FOUND: { status: 404, description: "The column does not exist." },
+  COLUMNS_MISMATCH: { status: 400, description: "`columnIds` must list every column exactly once." },
+  LAST_COLUMN: { status: 400, description: "A project keeps at least one column." },
+  COLUMN_NOT_EMPTY: { status: 409, description: "The column has tasks; pass `moveTo`." },
+  INVALID_MOVE_TARGET: { status: 400, description: "`moveTo` is not another column of this project." },
+  MEMBER_NOT_FOUND: { status: 404, description: "The member is not in this project." },
+  LAST_OWNER: { status: 400, description: "A project keeps at least one owner." },
+  SESSION_REQUIRED: { status: 403, description: "API tokens can't do this; sign in with a session." },
+  COMMENT_NOT_FOUND: { status: 404, description: "The comment does not exist on this task." },
+  NOT_COMMENT_AUTHOR: { status: 403, description: "Only the author may edit or delete a comment." },
+  PARENT_COMMENT_NOT_FOUND: { status: 400, description: "`parentId` is not a comment of this task." },
+  PARENT_IS_REPLY: { status: 400, description: "Replies can't be replied to; answer the top-level comment." },
+  CHECKLIST_ITEM_NOT_FOUND: { status: 404, description: "The checklist item does not exist on this task." },
+  CHECKLIST_MISMATCH: { status: 400, description: "`itemIds` must list every checklist item exactly once." },
+  TASK_NOT_ARCHIVED: { status: 409, description: "The task is not archived (anymore)." },
+  TOKEN_NOT_FOUND: { status: 404, description: "The API token does not exist or is not the caller's." },
+  TOO_MANY_TOKENS: { status: 409, description: "The caller has the maximum number of tokens for this project." },
+  FEED_NOT_FOUND: { status: 404, description: "The calendar feed does not exist or was revoked." },
+  WEBHOOK_NOT_FOUND: { status: 404, description: "The webhook does not exist." },
+  TOO_MANY_WEBHOOKS: { status: 409, description: "The project has the maximum number of webhooks." },
+  WEBHOOK_URL_NOT_ALLOWED: {
+    status: 400,
+    description: "The URL points at, or resolves to, a loopback, private or otherwise non-public address.",
+  },
+  DELIVERY_NOT_FOUND: { status: 404, description: "The delivery does not exist for this webhook." },
+} as const satisfies Record<string, { status: number; description: string }>;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+export const ErrorResponseSchema = z
+  .object({
+    error: z.string(),
+    // validation errors (INVALID_BODY / INVALID_QUERY)
+    details: z.unknown().optional(),
+    // import errors, each pointing into the uploaded file
+    issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+    // VERSION_CONFLICT: the task as it is now
+    task: TaskSchema.optional(),
+    // TASKS_CHANGED: the selected tasks still on the board whose version moved on
+    tasks: z.array(TaskSchema).optional(),
+  })
+  .register(apiSchemas, {
+    id: "Error",
+    description: "`error` is one of the codes listed for the operation.",
+  });
+
+export type Role = z.infer<typeof RoleSchema>;
+export type Member = z.infer<typeof MemberSchema>;
+export type Column = z.infer<typeof ColumnSchema>;
+export type Label = z.infer<typeof LabelSchema>;
+export type Task = z.infer<typeof TaskSchema>;
+export type BoardTask = z.infer<typeof BoardTaskSchema>;
+export type ChecklistSummary = z.infer<typeof ChecklistSummarySchema>;
+export type TaskPosition = z.infer<typeof TaskPositionSchema>;
+export type Invite = z.infer<typeof InviteSchema>;
+export type BoardResponse = z.infer<typeof BoardResponseSchema>;
+export type MyProjectsResponse = z.infer<typeof MyProjectsResponseSchema>;
+export type ProjectSessionResponse = z.infer<typeof ProjectSessionResponseSchema>;
+export type ImportSummary = z.infer<typeof ImportSummarySchema>;
+export type ImportProjectResponse = z.infer<typeof ImportProjectResponseSchema>;
+export type ImportTrelloResponse = z.infer<typeof ImportTrelloResponseSchema>;
+export type TaskResponse = z.infer<typeof TaskResponseSchema>;
+export type TaskWriteResponse = z.infer<typeof TaskWriteResponseSchema>;
+export type BulkTaskResponse = z.infer<typeof BulkTaskResponseSchema>;
+export type ArchiveResponse = z.infer<typeof ArchiveResponseSchema>;
+export type LabelResponse = z.infer<typeof LabelResponseSchema>;
+export type ColumnResponse = z.infer<typeof ColumnResponseSchema>;
+export type ColumnsResponse = z.infer<typeof ColumnsResponseSchema>;
+export type MemberResponse = z.infer<typeof MemberResponseSchema>;
+export type OkResponse = z.infer<typeof OkResponseSchema>;
+export type DeleteColumnResponse = z.infer<typeof DeleteColumnResponseSchema>;
+export type RemoveMemberResponse = z.infer<typeof RemoveMemberResponseSchema>;
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+export type ProjectExport = z.infer<typeof ProjectExportSchema>;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+export type Comment = z.infer<typeof CommentSchema>;
+export type CommentsResponse = z.infer<typeof CommentsResponseSchema>;
+export type CommentResponse = z.infer<typeof CommentResponseSchema>;
+export type ChecklistItem = z.infer<typeof ChecklistItemSchema>;
+export type ChecklistResponse = z.infer<typeof ChecklistResponseSchema>;
+export type ChecklistItemResponse = z.infer<typeof ChecklistItemResponseSchema>;
+export type ChecklistReorderResponse = z.infer<typeof ChecklistReorderResponseSchema>;
+export type ChecklistDeleteResponse = z.infer<typeof ChecklistDeleteResponseSchema>;
+export type ActivityItem = z.infer<typeof ActivityItemSchema>;
+export type ActivityPage = z.infer<typeof ActivityPageSchema>;
+export type SearchSegment = z.infer<typeof SearchSegmentSchema>;
+export type SearchResult = z.infer<typeof SearchResultSchema>;
+export type SearchResponse = z.infer<typeof SearchResponseSchema>;
+export type InvitesResponse = z.infer<typeof InvitesResponseSchema>;
+export type InviteResponse = z.infer<typeof InviteResponseSchema>;
+export type MembersResponse = z.infer<typeof MembersResponseSchema>;
+export type TrashedTask = z.infer<typeof TrashedTaskSchema>;
+export type TrashResponse = z.infer<typeof TrashResponseSchema>;
+export type ArchivedTask = z.infer<typeof ArchivedTaskSchema>;
+export type ArchivePage = z.infer<typeof ArchivePageSchema>;
+export type BoardTaskResponse = z.infer<typeof BoardTaskResponseSchema>;
+export type LabelsResponse = z.infer<typeof LabelsResponseSchema>;
+export type CsvImportResponse = z.infer<typeof CsvImportResponseSchema>;
+export type CsvRowError = CsvImportResponse["errors"][number];
+export type ApiToken = z.infer<typeof ApiTokenSchema>;
+export type ApiTokensResponse = z.infer<typeof ApiTokensResponseSchema>;
+export type CreateApiTokenResponse = z.infer<typeof CreateApiTokenResponseSchema>;
+export type CalendarFeed = z.infer<typeof CalendarFeedSchema>;
+export type CalendarFeedsResponse = z.infer<typeof CalendarFeedsResponseSchema>;
+export type CreateCalendarFeedResponse = z.infer<typeof CreateCalendarFeedResponseSchema>;
+export type Webhook = z.infer<typeof WebhookSchema>;
+export type WebhooksResponse = z.infer<typeof WebhooksResponseSchema>;
+export type CreateWebhookResponse = z.infer<typeof CreateWebhookResponseSchema>;
+export type WebhookResponse = z.infer<typeof WebhookResponseSchema>;
+export type WebhookDelivery = z.infer<typeof WebhookDeliverySchema>;
+export type WebhookDeliveriesResponse = z.infer<typeof WebhookDeliveriesResponseSchema>;
+export type DeliveryQueuedResponse = z.infer<typeof DeliveryQueuedResponseSchema>;
+
+// request bodies as the client sends them (before defaults and transforms)
+export type CreateProjectBody = z.input<typeof CreateProjectSchema>;
+export type JoinProjectBody = z.input<typeof JoinProjectSchema>;
+export type ImportProjectBody = z.input<typeof ImportProjectSchema>;
+export type ImportTrelloBody = z.input<typeof ImportTrelloSchema>;
+export type CreateTaskBody = z.input<typeof CreateTaskSchema>;
+export type PatchTaskBody = z.input<typeof PatchTaskSchema>;
+export type MoveTaskBody = z.input<typeof MoveTaskSchema>;
+export type BulkAction = z.input<typeof BulkActionSchema>;
+export type BulkTaskBody = z.input<typeof BulkTaskSchema>;
+export type ArchiveTasksBody = z.input<typeof ArchiveTasksSchema>;
+export type CreateLabelBody = z.input<typeof CreateLabelSchema>;
+export type PatchLabelBody = z.input<typeof PatchLabelSchema>;
+export type CreateColumnBody = z.input<typeof CreateColumnSchema>;
+export type PatchColumnBody = z.input<typeof PatchColumnSchema>;
+export type PatchMemberBody = z.input<typeof PatchMemberSchema>;
+export type CreateInviteBody = z.input<typeof CreateInviteSchema>;
+export type CreateCommentBody = z.input<typeof CreateCommentSchema>;
+export type PatchCommentBody = z.input<typeof PatchCommentSchema>;
+export type CreateChecklistItemBody = z.input<typeof CreateChecklistItemSchema>;
+export type PatchChecklistItemBody = z.input<typeof PatchChecklistItemSchema>;
+export type ReorderChecklistBody = z.input<typeof ReorderChecklistSchema>;
+export type CsvRow = z.input<typeof CsvRowSchema>;
+export type CsvImportBody = z.input<typeof CsvImportSchema>;
+export type CreateApiTokenBody = z.input<typeof CreateApiTokenSchema>;
+export type CreateCalendarFeedBody = z.input<typeof CreateCalendarFeedSchema>;
+export type CreateWebhookBody = z.input<typeof CreateWebhookSchema>;
+export type PatchWebhookBody = z.input<typeof PatchWebhookSchema>;
@@ -0,0 +1,142 @@
+import { createHash, randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getPrisma } from "@/lib/prisma";
+
+export const SESSION_COOKIE = "st_session";
+const SESSION_MAX_AGE_S = 60 * 60 * 24 * 365;
+
+// only the hash is stored, so a leaked database dump can't be replayed as cookies
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/** Issues a new session for the member and returns the raw token (shown once). */
+export async function createSession(memberId: string): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  await getPrisma().session.create({
+    data: { memberId, tokenHash: hashToken(token) },
+    select: { id: true },
+  });
+  return token;
+}
+
+export function setSessionCookie(res: NextResponse, token: string) {
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE_S,
+  });
+  return res;
+}
+
+function readToken(req: NextRequest) {
+  const cookie = req.cookies.get(SESSION_COOKIE)?.value;
+  if (cookie) return cookie;
+  // non-browser clients can send the same token as a bearer credential
+  const auth = req.headers.get("authorization");
+  const match = auth?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1] ?? null;
+}
+
+// personal API tokens carry a prefix so they can't be mistaken for session tokens (or vice versa)
+export const API_TOKEN_PREFIX = "st_pat_";
+// lastUsedAt is refreshed at most this often, so busy scripts don't write on every request
+const LAST_USED_GRANULARITY_MS = 60 * 1000;
+
+/** Issues a personal API token and returns the raw token (shown once). */
+export async function createApiToken(data: {
+  memberId: string;
+  projectId: string;
+  name: string;
+  readOnly: boolean;
+}) {
+  const token = API_TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  const row = await getPrisma().apiToken.create({
+    data: { ...data, tokenHash: hashToken(token) },
+    select: { id: true },
+  });
+  return { id: row.id, token };
+}
+
+/**
+ * API tokens only reach their own project: `/api/projects/<id>/...` must name
+ * it, and `/api/tasks/<id>/...` must be one of its tasks. Anything else (other
+ * projects, creating or joining projects, `/api/me/...`) is out of scope.
+ */
+async function assertTokenScope(req: NextRequest, projectId: string) {
+  const path = req.nextUrl.pathname;
+  const project = path.match(/^\/api\/projects\/([^/]+)/);
+  if (project) {
+    if (decodeURIComponent(project[1]) !== projectId) throw new Error("TOKEN_SCOPE");
+    return;
+  }
+  const task = path.match(/^\/api\/tasks\/([^/]+)/);
+  if (task) {
+    const row = await getPrisma().task.findUnique({
+      where: { id: decodeURIComponent(task[1]) },
+      select: { projectId: true },
+    });
+    // a missing task is the route's 404 to report
+    if (row && row.projectId !== projectId) throw new Error("TOKEN_SCOPE");
+    return;
+  }
+  throw new Error("TOKEN_SCOPE");
+}
+
+async function resolveApiToken(req: NextRequest, token: string): Promise<string> {
+  const prisma = getPrisma();
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { id: true, memberId: true, projectId: true, readOnly: true },
+  });
+  if (!apiToken) throw new Error("UNAUTHENTICATED");
+  await assertTokenScope(req, apiToken.projectId);
+  if (apiToken.readOnly && req.method !== "GET" && req.method !== "HEAD") {
+    throw new Error("READ_ONLY_TOKEN");
+  }
+
+  const now = new Date();
+  await prisma.apiToken.updateMany({
+    where: {
+      id: apiToken.id,
+      OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: new Date(now.getTime() - LAST_USED_GRANULARITY_MS) } }],
+    },
+    data: { lastUsedAt: now },
+  });
+  return apiToken.memberId;
+}
+
+/**
+ * Resolves the caller from the session cookie, a bearer session token or a
+ * personal API token; throws UNAUTHENTICATED, or TOKEN_SCOPE / READ_ONLY_TOKEN
+ * for an API token used beyond its limits. `sessionOnly` rejects API tokens
+ * (e.g. so a token can't mint more tokens).
+ */
+export async function getMemberIdOrThrow(
+  req: NextRequest,
+  { sessionOnly = false }: { sessionOnly?: boolean } = {},
+): Promise<string> {
+  const token = readToken(req);
+  if (!token) throw new Error("UNAUTHENTICATED");
+  if (token.startsWith(API_TOKEN_PREFIX)) {
+    if (sessionOnly) throw new Error("SESSION_REQUIRED");
+    return resolveApiToken(req, token);
+  }
+  const session = await getPrisma().session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { memberId: true },
+  });
+  if (!session) throw new Error("UNAUTHENTICATED");
+  return session.memberId;
+}
+
+/** For routes that also serve signed-out callers (create/join). */
+export async function getOptionalMemberId(req: NextRequest): Promise<string | null> {
+  try {
+    return await getMemberIdOrThrow(req);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,185 @@
+import type { Prisma } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { MAX_RANK_LENGTH, rankBetween, spacedRanks } from "@/lib/rank";
+
+/** Fields every task-returning route and board event exposes. */
+export const TASK_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  columnId: true,
+  rank: true,
+  version: true,
+  dueDate: true,
+  assigneeId: true,
+  creatorId: true,
+  updatedAt: true,
+  createdAt: true,
+  labels: { select: { labelId: true } },
+} satisfies Prisma.TaskSelect;
+
+/** Tasks that show up on the board: neither trashed nor archived. */
+export const ON_BOARD = { deletedAt: null, archivedAt: null } satisfies Prisma.TaskWhereInput;
+
+type TaskRow = Prisma.TaskGetPayload<{ select: typeof TASK_SELECT }>;
+
+export function toTaskPayload({ labels, ...task }: TaskRow) {
+  return { ...task, labelIds: labels.map((l) => l.labelId) };
+}
+
+export type TaskPayload = ReturnType<typeof toTaskPayload>;
+
+/** TASK_SELECT plus the comment count and checklist progress shown on board cards. */
+export const BOARD_TASK_SELECT = {
+  ...TASK_SELECT,
+  _count: { select: { comments: true } },
+  checklist: { select: { done: true } },
+} satisfies Prisma.TaskSelect;
+
+type BoardTaskRow = Prisma.TaskGetPayload<{ select: typeof BOARD_TASK_SELECT }>;
+
+export function toBoardTaskPayload({ _count, checklist, ...task }: BoardTaskRow) {
+  return {
+    ...toTaskPayload(task),
+    commentCount: _count.comments,
+    checklist: { done: checklist.filter((i) => i.done).length, total: checklist.length },
+  };
+}
+
+/** Fields captured in task activity entries. */
+export const AUDIT_SELECT = {
+  title: true,
+  description: true,
+  columnId: true,
+  dueDate: true,
+  assigneeId: true,
+  labels: { select: { labelId: true } },
+} satisfies Prisma.TaskSelect;
+
+type AuditRow = Prisma.TaskGetPayload<{ select: typeof AUDIT_SELECT }>;
+
+export function auditFields(t: AuditRow) {
+  const { title, description, columnId, dueDate, assigneeId } = t;
+  const labelIds = t.labels.map((l) => l.labelId).sort();
+  return { title, description, columnId, dueDate, assigneeId, labelIds };
+}
+
+/** How long deleted tasks stay in the trash before they are purged for good. */
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** How long deletes stay visible to `GET /board?since=`; older cursors get a full snapshot. */
+export const TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Bumps `updatedAt` so delta syncs pick up changes that live outside the task
+ * row (comment count, checklist progress) without touching `version`.
+ */
+export async function touchTask(taskId: string, db: Prisma.TransactionClient = getPrisma()) {
+  await db.task.updateMany({ where: { id: taskId }, data: { updatedAt: new Date() } });
+}
+
+/** Records deleted task ids for delta syncs and prunes expired tombstones. */
+export async function recordTaskTombstones(
+  projectId: string,
+  taskIds: string[],
+  db: Prisma.TransactionClient = getPrisma(),
+) {
+  if (taskIds.length === 0) return;
+  await db.taskTombstone.createMany({ data: taskIds.map((taskId) => ({ projectId, taskId })) });
+  await db.taskTombstone.deleteMany({
+    where: { projectId, deletedAt: { lt: new Date(Date.now() - TOMBSTONE_RETENTION_MS) } },
+  });
+}
+
+/** Permanently removes trashed tasks older than the retention window. */
+export async function purgeExpiredTrash(projectId: string, db: Prisma.TransactionClient = getPrisma()) {
+  await db.task.deleteMany({
+    where: { projectId, deletedAt: { lt: new Date(Date.now() - TRASH_RETENTION_MS) } },
+  });
+}
+
+/** Where a task sits on the board; what `board.reordered` carries. */
+export type TaskPosition = { id: string; columnId: string; rank: string; version: number };
+
+/**
+ * Picks a rank for `movingId` directly below `afterId` (null: top of the column).
+ * Normally only the moving task needs writing; when the neighbours have no room
+ * left the column is respaced first and the respaced siblings are returned in
+ * `rebalanced`. Respacing leaves `version` alone since nothing the user edits changed.
+ */
+export async function rankAfter(
+  db: Prisma.TransactionClient,
+  columnId: string,
+  afterId: string | null,
+  movingId: string | null,
+): Promise<{ rank: string; rebalanced: TaskPosition[] }> {
+  const siblings = await db.task.findMany({
+    where: { columnId, ...ON_BOARD, ...(movingId ? { id: { not: movingId } } : {}) },
+    orderBy: [{ rank: "asc" }, { id: "asc" }],
+    select: { id: true, columnId: true, rank: true, version: true },
+  });
+  const index = afterId === null ? 0 : siblings.findIndex((t) => t.id === afterId) + 1;
+  if (index === 0 && afterId !== null) throw new Error("AFTER_NOT_IN_COLUMN");
+
+  try {
+    const rank = rankBetween(siblings[index - 1]?.rank ?? null, siblings[index]?.rank ?? null);
+    if (rank.length <= MAX_RANK_LENGTH) return { rank, rebalanced: [] };
+  } catch (e) {
+    if (!(e instanceof RangeError)) throw e;
+  }
+
+  // duplicate ranks or keys grown too long: respace the column, keeping a slot free
+  const ranks = spacedRanks(siblings.length + 1);
+  const rank = ranks.splice(index, 1)[0];
+  const rebalanced = siblings.map((t, i) => ({ ...t, rank: ranks[i] }));
+  for (const t of rebalanced) {
+    await db.task.update({ where: { id: t.id }, data: { rank: t.rank } });
+  }
+  return { rank, rebalanced };
+}
+
+/** `rankAfter` for the bottom of the column, where new and returning tasks go. */
+export async function rankAtEnd(
+  db: Prisma.TransactionClient,
+  columnId: string,
+  movingId: string | null = null,
+) {
+  const last = await db.task.findFirst({
+    where: { columnId, ...ON_BOARD, ...(movingId ? { id: { not: movingId } } : {}) },
+    orderBy: [{ rank: "desc" }, { id: "desc" }],
+    select: { id: true },
+  });
+  return rankAfter(db, columnId, last?.id ?? null, movingId);
+}
+
+/**
+ * `count` ascending ranks for new tasks at the bottom of the column, for batch
+ * inserts. Appending many keys one after another makes them grow, so when the
+ * last one would pass MAX_RANK_LENGTH the column is respaced to fit the batch.
+ */
+export async function ranksAtEnd(
+  db: Prisma.TransactionClient,
+  columnId: string,
+  count: number,
+): Promise<{ ranks: string[]; rebalanced: TaskPosition[] }> {
+  const siblings = await db.task.findMany({
+    where: { columnId, ...ON_BOARD },
+    orderBy: [{ rank: "asc" }, { id: "asc" }],
+    select: { id: true, columnId: true, rank: true, version: true },
+  });
+
+  const ranks: string[] = [];
+  let last = siblings.at(-1)?.rank ?? null;
+  for (let i = 0; i < count; i++) {
+    last = rankBetween(last, null);
+    ranks.push(last);
+  }
+  if (ranks.every((r) => r.length <= MAX_RANK_LENGTH)) return { ranks, rebalanced: [] };
+
+  const spaced = spacedRanks(siblings.length + count);
+  const rebalanced = siblings.map((t, i) => ({ ...t, rank: spaced[i] }));
+  for (const t of rebalanced) {
+    await db.task.update({ where: { id: t.id }, data: { rank: t.rank } });
+  }
+  return { ranks: spaced.slice(siblings.length), rebalanced };
+}
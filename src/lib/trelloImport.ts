@@ -0,0 +1,255 @@
+import { z } from "zod";
+import { EXPORT_FORMAT, EXPORT_VERSION } from "@/lib/schemas";
+import type { ProjectExport } from "@/lib/schemas";
+
+/**
+ * Converts a Trello board export ("Menu > Print, export and share > Export as
+ * JSON") into our project export document, so it goes through the same import
+ * path. Only the fields we use are validated; everything else is ignored.
+ */
+
+// timestamps that end up on imported rows; an unparsable one rejects the export instead of failing mid-import
+const TrelloTimestamp = z.iso.datetime({ offset: true });
+
+const TrelloLabelSchema = z.object({
+  id: z.string(),
+  name: z.string().nullable().default(""),
+  color: z.string().nullable().default(null),
+});
+
+const TrelloCardSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  desc: z.string().default(""),
+  idList: z.string(),
+  closed: z.boolean().default(false),
+  pos: z.number(),
+  due: z.string().nullable().default(null),
+  dueComplete: z.boolean().default(false),
+  start: z.string().nullable().default(null),
+  dateLastActivity: TrelloTimestamp.nullable().default(null),
+  idLabels: z.array(z.string()).default([]),
+  idMembers: z.array(z.string()).default([]),
+  attachments: z.array(z.unknown()).default([]),
+  customFieldItems: z.array(z.unknown()).default([]),
+});
+
+export const TrelloBoardSchema = z.object({
+  name: z.string().min(1),
+  lists: z.array(
+    z.object({ id: z.string(), name: z.string(), closed: z.boolean().default(false), pos: z.number() }),
+  ),
+  cards: z.array(TrelloCardSchema),
+  labels: z.array(TrelloLabelSchema).default([]),
+  members: z
+    .array(z.object({ id: z.string(), fullName: z.string().nullable().default(null), username: z.string() }))
+    .default([]),
+  checklists: z
+    .array(
+      z.object({
+        id: z.string(),
+        idCard: z.string(),
+        name: z.string(),
+        pos: z.number(),
+        checkItems: z.array(
+          z.object({ name: z.string(), state: z.enum(["complete", "incomplete"]), pos: z.number() }),
+        ),
+      }),
+    )
+    .default([]),
+  actions: z
+    .array(
+      z.object({
+        id: z.string(),
+        type: z.string(),
+        date: TrelloTimestamp,
+        idMemberCreator: z.string().nullable().default(null),
+        memberCreator: z
+          .object({ fullName: z.string().nullable().default(null), username: z.string() })
+          .nullable()
+          .default(null),
+        data: z.object({ text: z.string().optional(), card: z.object({ id: z.string() }).optional() }),
+      }),
+    )
+    .default([]),
+});
+
+export type TrelloBoard = z.infer<typeof TrelloBoardSchema>;
+
+/** Something in the Trello board that was dropped or changed on the way in. */
+export type TrelloUnmapped = {
+  code:
+    | "CLOSED_LISTS"
+    | "TOO_MANY_LISTS"
+    | "MULTIPLE_ASSIGNEES"
+    | "MULTIPLE_CHECKLISTS"
+    | "ATTACHMENTS"
+    | "CUSTOM_FIELDS"
+    | "START_DATES"
+    | "DUE_COMPLETE"
+    | "SKIPPED_CARDS"
+    | "TRUNCATED_TEXT";
+  count: number;
+};
+
+// Trello's named label colours (the *_dark and *_light variants fall back to the base)
+const LABEL_COLORS: Record<string, string> = {
+  green: "#10b981",
+  yellow: "#eab308",
+  orange: "#f59e0b",
+  red: "#f43f5e",
+  purple: "#8b5cf6",
+  blue: "#0ea5e9",
+  sky: "#38bdf8",
+  lime: "#84cc16",
+  pink: "#ec4899",
+  black: "#3f3f46",
+};
+const DEFAULT_COLOR = "#71717a";
+const COLUMN_COLORS = ["#71717a", "#0ea5e9", "#10b981", "#f59e0b", "#f43f5e", "#8b5cf6"];
+const MAX_COLUMNS = 50;
+
+/** Trello ids are Mongo ObjectIds, whose first 8 hex digits are the creation time in seconds. */
+function createdAtOf(id: string, fallback: string | null) {
+  const seconds = /^[0-9a-f]{24}$/.test(id) ? parseInt(id.slice(0, 8), 16) : NaN;
+  return new Date(Number.isNaN(seconds) ? (fallback ?? Date.now()) : seconds * 1000).toISOString();
+}
+
+/**
+ * Builds the export document. `owner` is the importing member; cards have no
+ * creator in Trello's export, so they are attributed to them.
+ */
+export function trelloToExport(
+  board: TrelloBoard,
+  owner: { id: string; displayName: string },
+): { doc: ProjectExport; unmapped: TrelloUnmapped[] } {
+  const counts = new Map<TrelloUnmapped["code"], number>();
+  const note = (code: TrelloUnmapped["code"], n = 1) => counts.set(code, (counts.get(code) ?? 0) + n);
+  const clip = (s: string, max: number) => {
+    const t = s.trim();
+    if (t.length <= max) return t;
+    note("TRUNCATED_TEXT");
+    return t.slice(0, max);
+  };
+
+  const byPos = <T extends { pos: number }>(a: T, b: T) => a.pos - b.pos;
+  const openLists = board.lists.filter((l) => !l.closed).sort(byPos);
+  note("CLOSED_LISTS", board.lists.length - openLists.length);
+  if (openLists.length > MAX_COLUMNS) note("TOO_MANY_LISTS", openLists.length - MAX_COLUMNS);
+  const lists = openLists.slice(0, MAX_COLUMNS);
+  const listIds = new Set(lists.map((l) => l.id));
+
+  const members = new Map<string, ProjectExport["members"][number]>([
+    [owner.id, { id: owner.id, displayName: owner.displayName, role: "OWNER" }],
+  ]);
+  const memberName = (fullName: string | null, username: string) =>
+    clip(fullName?.trim() || username, 40) || "Trello member";
+  for (const m of board.members) {
+    members.set(m.id, { id: m.id, displayName: memberName(m.fullName, m.username), role: "MEMBER" });
+  }
+
+  // label names must be unique per project; blank Trello labels are named after their colour
+  const usedNames = new Set<string>();
+  const labels = board.labels.map((l) => {
+    const base = clip(l.name?.trim() || l.color || "label", 30);
+    let name = base;
+    for (let n = 2; usedNames.has(name); n++) name = `${base.slice(0, 26)} (${n})`;
+    usedNames.add(name);
+    const color = LABEL_COLORS[l.color?.replace(/_(dark|light)$/, "") ?? ""] ?? DEFAULT_COLOR;
+    return { id: l.id, name, color };
+  });
+  const labelIds = new Set(labels.map((l) => l.id));
+
+  const checklistsByCard = new Map<string, TrelloBoard["checklists"]>();
+  for (const c of board.checklists) {
+    checklistsByCard.set(c.idCard, [...(checklistsByCard.get(c.idCard) ?? []), c]);
+  }
+
+  // cards of closed lists have nowhere to go, nor do those past the column limit
+  const cards = board.cards.filter((c) => listIds.has(c.idList)).sort(byPos);
+  note("SKIPPED_CARDS", board.cards.length - cards.length);
+  const cardIds = new Set(cards.map((c) => c.id));
+
+  const commentsByCard = new Map<string, ProjectExport["tasks"][number]["comments"]>();
+  for (const a of board.actions) {
+    if (a.type !== "commentCard" || !a.data.text?.trim() || !a.data.card || !cardIds.has(a.data.card.id)) continue;
+    const authorId = a.idMemberCreator ?? owner.id;
+    // commenters who have left the board are only named on the action itself
+    if (!members.has(authorId)) {
+      members.set(authorId, {
+        id: authorId,
+        displayName: memberName(a.memberCreator?.fullName ?? null, a.memberCreator?.username ?? "Trello member"),
+        role: null,
+      });
+    }
+    const list = commentsByCard.get(a.data.card.id) ?? [];
+    list.push({
+      id: a.id,
+      parentId: null,
+      authorId,
+      body: clip(a.data.text, 2000),
+      createdAt: new Date(a.date).toISOString(),
+    });
+    commentsByCard.set(a.data.card.id, list);
+  }
+
+  const tasks = cards.map((c) => {
+    if (c.idMembers.length > 1) note("MULTIPLE_ASSIGNEES");
+    if (c.attachments.length > 0) note("ATTACHMENTS", c.attachments.length);
+    if (c.customFieldItems.length > 0) note("CUSTOM_FIELDS");
+    if (c.start) note("START_DATES");
+    if (c.dueComplete) note("DUE_COMPLETE");
+
+    const checklists = (checklistsByCard.get(c.id) ?? []).sort(byPos);
+    if (checklists.length > 1) note("MULTIPLE_CHECKLISTS");
+    // one checklist per task here: several Trello checklists are merged, prefixed with their names
+    const checklist = checklists
+      .flatMap((cl) =>
+        [...cl.checkItems].sort(byPos).map((item) => ({
+          body: clip(checklists.length > 1 ? `${cl.name}: ${item.name}` : item.name, 200),
+          done: item.state === "complete",
+        })),
+      )
+      .filter((item) => item.body)
+      .slice(0, 200);
+
+    const assigneeId = c.idMembers.find((id) => members.get(id)?.role === "MEMBER") ?? null;
+    const due = c.due ? new Date(c.due) : null;
+    return {
+      id: c.id,
+      title: clip(c.name, 120) || "(無題)",
+      description: clip(c.desc, 2000) || null,
+      columnId: c.idList,
+      // due dates are stored as UTC midnight of the day; Trello's time of day is dropped
+      dueDate: due && !Number.isNaN(due.getTime()) ? `${due.toISOString().slice(0, 10)}T00:00:00.000Z` : null,
+      assigneeId,
+      creatorId: owner.id,
+      createdAt: createdAtOf(c.id, c.dateLastActivity),
+      archivedAt: c.closed ? new Date(c.dateLastActivity ?? Date.now()).toISOString() : null,
+      labelIds: c.idLabels.filter((id) => labelIds.has(id)).slice(0, 20),
+      checklist,
+      // Trello lists actions newest first
+      comments: (commentsByCard.get(c.id) ?? [])
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .slice(0, 1000),
+    };
+  });
+
+  const doc: ProjectExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { name: clip(board.name, 80) || "Trello board" },
+    members: [...members.values()],
+    columns: lists.map((l, i) => ({
+      id: l.id,
+      name: clip(l.name, 40) || `List ${i + 1}`,
+      color: COLUMN_COLORS[i % COLUMN_COLORS.length],
+      position: i,
+    })),
+    labels,
+    tasks,
+  };
+  const unmapped = [...counts].filter(([, count]) => count > 0).map(([code, count]) => ({ code, count }));
+  return { doc, unmapped };
+}
@@ -0,0 +1,142 @@
+import { lookup } from "dns";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { BlockList, isIP } from "net";
+import type { LookupFunction } from "net";
+
+/**
+ * Where webhooks may point. Anyone can create a project and own it, so without
+ * this an owner could make the server POST to its own network (cloud metadata
+ * at 169.254.169.254, intranet services) and read the outcome in the delivery
+ * log. Loopback, private, link-local and other non-public ranges are refused,
+ * both when a webhook is saved and for the address each delivery actually
+ * connects to, so a hostname that later resolves somewhere else doesn't help.
+ */
+
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // NAT64 and 6to4 embed an IPv4 address that may be a private one; refused outright
+  ["64:ff9b::", 96],
+  ["64:ff9b:1::", 48],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+
+// for a receiver on localhost, e.g. `npm run webhook:receive` during development
+function privateTargetsAllowed() {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "1";
+}
+
+/** IPv4-mapped IPv6 addresses are checked against the IPv4 ranges. */
+export function isPublicAddress(address: string) {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+function hostOf(url: URL) {
+  // IPv6 literals keep their brackets in URL.hostname
+  return url.hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+class BlockedTargetError extends Error {
+  constructor(host: string, address: string) {
+    super(
+      host === address
+        ? `${host} is not a public address`
+        : `${host} resolves to a non-public address (${address})`,
+    );
+  }
+}
+
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, options, (err, address, family) => {
+    if (err) return callback(err, address, family);
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    const blocked = addresses.find((a) => !isPublicAddress(a.address));
+    if (blocked) return callback(new BlockedTargetError(hostname, blocked.address), "", 0);
+    callback(null, address, family);
+  });
+};
+
+/**
+ * Throws WEBHOOK_URL_NOT_ALLOWED when the URL's host is, or currently resolves
+ * to, a non-public address. A host that doesn't resolve yet is accepted; its
+ * deliveries fail (and are logged) until it does.
+ */
+export async function assertWebhookUrlAllowed(raw: string) {
+  if (privateTargetsAllowed()) return;
+  const host = hostOf(new URL(raw));
+  if (isIP(host)) {
+    if (!isPublicAddress(host)) throw new Error("WEBHOOK_URL_NOT_ALLOWED");
+    return;
+  }
+  let addresses: { address: string }[];
+  try {
+    addresses = await new Promise((resolve, reject) =>
+      lookup(host, { all: true }, (err, result) => (err ? reject(err) : resolve(result))),
+    );
+  } catch {
+    return;
+  }
+  if (addresses.some((a) => !isPublicAddress(a.address))) throw new Error("WEBHOOK_URL_NOT_ALLOWED");
+}
+
+/**
+ * POSTs `body` without following redirects (they would resend the signed body
+ * somewhere the owner didn't configure) and resolves with the response status.
+ * The connection goes through the address check above unless private targets
+ * are allowed; node skips the lookup for IP literals, so those are checked here.
+ */
+export function postToWebhook(
+  raw: string,
+  { headers, body, timeoutMs }: { headers: Record<string, string>; body: string; timeoutMs: number },
+) {
+  const url = new URL(raw);
+  const guard = !privateTargetsAllowed();
+  const host = hostOf(url);
+  if (guard && isIP(host) && !isPublicAddress(host)) {
+    return Promise.reject(new BlockedTargetError(host, host));
+  }
+
+  const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise<number>((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "content-length": String(Buffer.byteLength(body)) },
+        ...(guard ? { lookup: guardedLookup } : {}),
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (res) => {
+        // only the status matters; drain the body so the socket is released
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
@@ -0,0 +1,229 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { after } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { getPrisma } from "@/lib/prisma";
+import { WEBHOOK_EVENTS } from "@/lib/schemas";
+import { TASK_SELECT, toTaskPayload } from "@/lib/tasks";
+import { postToWebhook } from "@/lib/webhookTarget";
+import type { ActivityEntry } from "@/lib/activity";
+import type { WebhookEvent } from "@/lib/schemas";
+
+/**
+ * Outgoing webhooks. Events are taken from the activity log as it is written
+ * (see recordActivity), stored as one WebhookDelivery per subscribed webhook,
+ * and sent after the response has gone out (`after`). Failed sends are
+ * retried with exponential backoff. On a long-running server a timer picks the
+ * retry up; serverless instances freeze once the response is sent, so there
+ * the retries rely on sweeps: `GET /api/webhooks/sweep` from a scheduler, and
+ * opportunistically any later event or an owner opening the delivery log.
+ */
+
+export const MAX_ATTEMPTS = 8;
+// 10s, 20s, 40s, ... about 21 minutes from the first to the last attempt
+const BASE_DELAY_MS = 10_000;
+const ATTEMPT_TIMEOUT_MS = 10_000;
+// an attempt in flight pushes nextAttemptAt this far ahead so other sweeps leave it alone
+const LEASE_MS = 60_000;
+const SWEEP_BATCH = 50;
+
+export const SIGNATURE_HEADER = "x-webhook-signature";
+
+function isWebhookEvent(action: string): action is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(action);
+}
+
+export function generateWebhookSecret() {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Receivers recompute
+ * the HMAC over the raw body and can reject old timestamps to stop replays.
+ */
+export function signPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const mac = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+export function retryDelayMs(attempts: number) {
+  return BASE_DELAY_MS * 2 ** (attempts - 1);
+}
+
+type Named = { id: string; name: string };
+
+/** Turns activity entries into deliveries for every active webhook subscribed to them. */
+export async function queueWebhooks(entries: ActivityEntry[]) {
+  const events = entries.filter((e) => isWebhookEvent(e.action));
+  if (events.length === 0) return;
+  const prisma = getPrisma();
+
+  const projectIds = [...new Set(events.map((e) => e.projectId))];
+  const hooks = await prisma.webhook.findMany({
+    where: { projectId: { in: projectIds }, active: true },
+    select: { id: true, projectId: true, events: true },
+  });
+  if (hooks.length === 0) return;
+
+  const taskIds = [...new Set(events.flatMap((e) => (e.taskId ? [e.taskId] : [])))];
+  const actorIds = [...new Set(events.flatMap((e) => (e.actorId ? [e.actorId] : [])))];
+  const [projects, columns, tasks, actors] = await Promise.all([
+    prisma.project.findMany({ where: { id: { in: projectIds } }, select: { id: true, name: true } }),
+    prisma.boardColumn.findMany({ where: { projectId: { in: projectIds } }, select: { id: true, name: true } }),
+    // trashed tasks are still there, so task.deleted carries the last state
+    prisma.task.findMany({ where: { id: { in: taskIds } }, select: TASK_SELECT }),
+    prisma.member.findMany({ where: { id: { in: actorIds } }, select: { id: true, displayName: true } }),
+  ]);
+  const projectById = new Map<string, Named>(projects.map((p) => [p.id, p]));
+  const columnById = new Map<string, Named>(columns.map((c) => [c.id, c]));
+  const taskById = new Map(tasks.map((t) => [t.id, toTaskPayload(t)]));
+  const actorById = new Map(actors.map((m) => [m.id, m]));
+
+  const occurredAt = new Date().toISOString();
+  const data: Prisma.WebhookDeliveryCreateManyInput[] = [];
+  for (const e of events) {
+    const task = e.taskId ? taskById.get(e.taskId) : undefined;
+    const actor = e.actorId ? (actorById.get(e.actorId) ?? null) : null;
+    const fromColumnId = e.action === "task.moved" ? e.before?.columnId : undefined;
+    const payload = {
+      // shared by every webhook the event goes to; receivers can dedupe on it
+      id: randomUUID(),
+      event: e.action,
+      occurredAt,
+      project: projectById.get(e.projectId) ?? { id: e.projectId, name: "" },
+      actor,
+      ...(task ? { task: { ...task, column: columnById.get(task.columnId) ?? null } } : {}),
+      ...(typeof fromColumnId === "string" ? { fromColumn: columnById.get(fromColumnId) ?? null } : {}),
+      ...(e.action === "task.updated" || e.action === "task.moved"
+        ? { changes: { before: e.before ?? {}, after: e.after ?? {} } }
+        : {}),
+      ...(e.action === "member.joined" && actor ? { member: { ...actor, role: e.after?.role ?? "MEMBER" } } : {}),
+    };
+    for (const hook of hooks) {
+      if (hook.projectId !== e.projectId || !hook.events.includes(e.action)) continue;
+      // round trip through JSON so dates are stored as the ISO strings that get sent
+      data.push({ webhookId: hook.id, event: e.action, payload: JSON.parse(JSON.stringify(payload)) });
+    }
+  }
+  if (data.length === 0) return;
+
+  await prisma.webhookDelivery.createMany({ data });
+  startSweep();
+}
+
+/** Queues a `ping` for one webhook, so owners can check their receiver without touching a task. */
+export async function queuePing(webhookId: string, project: Named) {
+  const delivery = await getPrisma().webhookDelivery.create({
+    data: {
+      webhookId,
+      event: "ping",
+      payload: { id: randomUUID(), event: "ping", occurredAt: new Date().toISOString(), project },
+    },
+    select: { id: true },
+  });
+  startSweep();
+  return delivery;
+}
+
+/** Sends one delivery if it is still due; returns without doing anything when another sweep has it. */
+async function attemptDelivery(id: string) {
+  const prisma = getPrisma();
+  const now = new Date();
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: { id, status: "PENDING", nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + LEASE_MS) },
+  });
+  if (claimed.count === 0) return;
+
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id },
+    select: { event: true, payload: true, attempts: true, webhook: { select: { url: true, secret: true } } },
+  });
+  const body = JSON.stringify(delivery.payload);
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    responseStatus = await postToWebhook(delivery.webhook.url, {
+      headers: {
+        "content-type": "application/json",
+        "user-agent": "simple-trello-webhooks/1",
+        "x-webhook-event": delivery.event,
+        "x-webhook-delivery": id,
+        [SIGNATURE_HEADER]: signPayload(delivery.webhook.secret, body),
+      },
+      body,
+      timeoutMs: ATTEMPT_TIMEOUT_MS,
+    });
+    if (responseStatus < 200 || responseStatus >= 300) error = `HTTP ${responseStatus}`;
+  } catch (e) {
+    error = (e as Error).message.slice(0, 500);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const retry = error !== null && attempts < MAX_ATTEMPTS;
+  await prisma.webhookDelivery.update({
+    where: { id },
+    data: {
+      attempts,
+      responseStatus,
+      error,
+      status: error === null ? "SUCCEEDED" : retry ? "PENDING" : "FAILED",
+      nextAttemptAt: retry ? new Date(Date.now() + retryDelayMs(attempts)) : null,
+    },
+    select: { id: true },
+  });
+  if (retry) scheduleRetry(retryDelayMs(attempts));
+}
+
+/** Sends every due delivery of an active webhook, oldest first; returns how many were due. */
+export async function deliverDueWebhooks() {
+  const due = await getPrisma().webhookDelivery.findMany({
+    where: { status: "PENDING", nextAttemptAt: { lte: new Date() }, webhook: { active: true } },
+    orderBy: { createdAt: "asc" },
+    take: SWEEP_BATCH,
+    select: { id: true },
+  });
+  await Promise.all(due.map((d) => attemptDelivery(d.id)));
+  return due.length;
+}
+
+async function sweep() {
+  try {
+    await deliverDueWebhooks();
+  } catch (e) {
+    console.error("webhook delivery sweep failed", e);
+  }
+}
+
+/**
+ * Sweeps once the current response has been sent, so callers never wait for
+ * the receivers. Only valid inside a route handler.
+ */
+export function startSweep() {
+  after(sweep);
+}
+
+// best effort: serverless instances may be frozen long before it fires, which the sweep route covers
+function scheduleRetry(delayMs: number) {
+  // unref: a pending retry shouldn't keep a finished process alive
+  setTimeout(() => void sweep(), delayMs).unref();
+}
+
+export const WEBHOOK_SELECT = {
+  id: true,
+  url: true,
+  secret: true,
+  events: true,
+  active: true,
+  createdAt: true,
+  deliveries: { orderBy: { createdAt: "desc" }, take: 1, select: { status: true, createdAt: true } },
+} satisfies Prisma.WebhookSelect;
+
+type WebhookRow = Prisma.WebhookGetPayload<{ select: typeof WEBHOOK_SELECT }>;
+
+/** The secret is only returned when it is set; lists show its last characters to tell webhooks apart. */
+export function toWebhookPayload({ secret, deliveries, ...hook }: WebhookRow) {
+  return { ...hook, secretHint: secret.slice(-4), lastDelivery: deliveries[0] ?? null };
+}
+
+export type WebhookPayload = ReturnType<typeof toWebhookPayload>;